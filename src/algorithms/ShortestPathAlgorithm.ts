@@ -25,8 +25,13 @@ export class ShortestPathAlgorithm {
   /**
    * Finds the shortest path between two topics in the hierarchy
    * Returns an array of topics representing the path from source to target
+   * When `visibleIds` is given, the path may only pass through those topics
    */
-  async findShortestPath(fromId: string, toId: string): Promise<Topic[]> {
+  async findShortestPath(fromId: string, toId: string, visibleIds?: Set<string>): Promise<Topic[]> {
+    if (visibleIds && (!visibleIds.has(fromId) || !visibleIds.has(toId))) {
+      return [];
+    }
+
     if (fromId === toId) {
       const topic = await this.repository.findById(fromId);
       return topic ? [topic as Topic] : [];
@@ -43,8 +48,11 @@ export class ShortestPathAlgorithm {
     const allTopics = await this.repository.findAll() as Topic[];
     const nodeMap = new Map<string, PathNode>();
 
-    // Initialize nodes
+    // Initialize nodes (hidden topics are left out, so no path can cross them)
     for (const topic of allTopics) {
+      if (visibleIds && !visibleIds.has(topic.id)) {
+        continue;
+      }
       nodeMap.set(topic.id, {
         topic,
         distance: topic.id === fromId ? 0 : Infinity,
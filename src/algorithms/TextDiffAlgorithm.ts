@@ -0,0 +1,401 @@
+/**
+ * Elementary edit produced by the diff: a token kept, removed from the old text or added by the new one
+ */
+export interface DiffOperation {
+  type: 'equal' | 'removed' | 'added';
+  value: string;
+}
+
+/**
+ * One line of a line-level diff
+ *
+ * A `modified` line pairs a removed line with the added line replacing it and carries the
+ * word-level changes between the two.
+ */
+export interface LineDiff {
+  type: 'equal' | 'removed' | 'added' | 'modified';
+  oldLine?: number;
+  newLine?: number;
+  oldText?: string;
+  newText?: string;
+  words?: DiffOperation[];
+}
+
+/**
+ * Summary counts of a line-level diff
+ */
+export interface DiffStats {
+  unchanged: number;
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+/**
+ * Region where both sides of a three-way merge changed the same base lines differently
+ */
+export interface MergeConflictHunk {
+  line: number;
+  baseLine: number;
+  base: string[];
+  current: string[];
+  incoming: string[];
+}
+
+/**
+ * Outcome of a three-way merge; on conflict the text holds conflict markers
+ */
+export interface MergeResult {
+  clean: boolean;
+  text: string;
+  conflicts: MergeConflictHunk[];
+}
+
+/**
+ * Above this many cells the LCS table is not built and the changed region is reported as replaced
+ */
+const MAX_TABLE_CELLS = 4_000_000;
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Custom implementation of a longest-common-subsequence text diff
+ * Produces line diffs refined to word level, plus unified-diff text
+ */
+export class TextDiffAlgorithm {
+  /**
+   * Diffs two texts line by line, pairing replaced lines and diffing them word by word
+   */
+  diffLines(oldText: string, newText: string): LineDiff[] {
+    const operations = this.diff(this.splitLines(oldText), this.splitLines(newText));
+    const lines: LineDiff[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    let index = 0;
+
+    while (index < operations.length) {
+      const operation = operations[index];
+      if (operation.type === 'equal') {
+        oldLine++;
+        newLine++;
+        lines.push({ type: 'equal', oldLine, newLine, oldText: operation.value, newText: operation.value });
+        index++;
+        continue;
+      }
+
+      // Collect a run of removals followed by additions and pair them up
+      const removed: string[] = [];
+      const added: string[] = [];
+      while (index < operations.length && operations[index].type === 'removed') {
+        removed.push(operations[index++].value);
+      }
+      while (index < operations.length && operations[index].type === 'added') {
+        added.push(operations[index++].value);
+      }
+
+      const paired = Math.min(removed.length, added.length);
+      for (let i = 0; i < paired; i++) {
+        oldLine++;
+        newLine++;
+        lines.push({
+          type: 'modified',
+          oldLine,
+          newLine,
+          oldText: removed[i],
+          newText: added[i],
+          words: this.diffWords(removed[i], added[i])
+        });
+      }
+      for (const text of removed.slice(paired)) {
+        lines.push({ type: 'removed', oldLine: ++oldLine, oldText: text });
+      }
+      for (const text of added.slice(paired)) {
+        lines.push({ type: 'added', newLine: ++newLine, newText: text });
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Diffs two strings word by word, keeping whitespace as its own tokens
+   */
+  diffWords(oldText: string, newText: string): DiffOperation[] {
+    const operations = this.diff(this.splitWords(oldText), this.splitWords(newText));
+
+    // Merge neighbouring tokens of the same kind so the result reads as phrases
+    const merged: DiffOperation[] = [];
+    for (const operation of operations) {
+      const last = merged[merged.length - 1];
+      if (last && last.type === operation.type) {
+        last.value += operation.value;
+      } else {
+        merged.push({ ...operation });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Counts the line changes in a line diff
+   */
+  getStats(lines: LineDiff[]): DiffStats {
+    const stats: DiffStats = { unchanged: 0, added: 0, removed: 0, modified: 0 };
+    for (const line of lines) {
+      if (line.type === 'equal') {
+        stats.unchanged++;
+      } else {
+        stats[line.type]++;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Renders the difference between two texts in unified diff format
+   */
+  toUnified(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    contextLines: number = DEFAULT_CONTEXT_LINES
+  ): string {
+    const operations = this.diff(this.splitLines(oldText), this.splitLines(newText));
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+    // Number of old/new lines consumed before each operation
+    const oldBefore: number[] = [];
+    const newBefore: number[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const operation of operations) {
+      oldBefore.push(oldCount);
+      newBefore.push(newCount);
+      if (operation.type !== 'added') oldCount++;
+      if (operation.type !== 'removed') newCount++;
+    }
+
+    let index = 0;
+    while (index < operations.length) {
+      const firstChange = operations.findIndex((operation, i) => i >= index && operation.type !== 'equal');
+      if (firstChange === -1) {
+        break;
+      }
+
+      // Extend the hunk while the next change is within twice the context
+      const start = Math.max(index, firstChange - contextLines);
+      let end = firstChange;
+      let equalRun = 0;
+      for (let i = firstChange; i < operations.length; i++) {
+        if (operations[i].type === 'equal') {
+          equalRun++;
+          if (equalRun > contextLines * 2) {
+            break;
+          }
+        } else {
+          equalRun = 0;
+          end = i;
+        }
+      }
+      end = Math.min(operations.length, end + 1 + contextLines);
+
+      const hunk = operations.slice(start, end);
+      const hunkOldLines = hunk.filter(operation => operation.type !== 'added').length;
+      const hunkNewLines = hunk.filter(operation => operation.type !== 'removed').length;
+      const oldStart = hunkOldLines > 0 ? oldBefore[start] + 1 : oldBefore[start];
+      const newStart = hunkNewLines > 0 ? newBefore[start] + 1 : newBefore[start];
+
+      output.push(`@@ -${oldStart},${hunkOldLines} +${newStart},${hunkNewLines} @@`);
+      for (const operation of hunk) {
+        const prefix = operation.type === 'equal' ? ' ' : operation.type === 'removed' ? '-' : '+';
+        output.push(`${prefix}${operation.value}`);
+      }
+
+      index = end;
+    }
+
+    return output.join('\n') + '\n';
+  }
+
+  /**
+   * Merges two texts derived from a common base, line by line
+   *
+   * Regions changed on one side only take that side; regions changed identically on both
+   * sides are kept once. Regions changed differently are conflicts, written into the text
+   * between `<<<<<<<`, `=======` and `>>>>>>>` markers labelled with the given labels.
+   */
+  merge(baseText: string, currentText: string, incomingText: string, currentLabel: string, incomingLabel: string): MergeResult {
+    const base = this.splitLines(baseText);
+    const current = this.splitLines(currentText);
+    const incoming = this.splitLines(incomingText);
+    const currentMatches = this.matchLines(base, current);
+    const incomingMatches = this.matchLines(base, incoming);
+
+    const output: string[] = [];
+    const conflicts: MergeConflictHunk[] = [];
+    let b = 0;
+    let c = 0;
+    let i = 0;
+
+    const resolve = (baseEnd: number, currentEnd: number, incomingEnd: number): void => {
+      const baseChunk = base.slice(b, baseEnd);
+      const currentChunk = current.slice(c, currentEnd);
+      const incomingChunk = incoming.slice(i, incomingEnd);
+
+      if (this.sameLines(currentChunk, baseChunk)) {
+        output.push(...incomingChunk);
+      } else if (this.sameLines(incomingChunk, baseChunk) || this.sameLines(currentChunk, incomingChunk)) {
+        output.push(...currentChunk);
+      } else {
+        conflicts.push({
+          line: output.length + 1,
+          baseLine: b + 1,
+          base: baseChunk,
+          current: currentChunk,
+          incoming: incomingChunk
+        });
+        output.push(`<<<<<<< ${currentLabel}`, ...currentChunk, '=======', ...incomingChunk, `>>>>>>> ${incomingLabel}`);
+      }
+    };
+
+    while (b < base.length || c < current.length || i < incoming.length) {
+      // Next base line kept by both sides anchors the end of the changed region
+      let anchor = b;
+      while (anchor < base.length && !(currentMatches.has(anchor) && incomingMatches.has(anchor))) {
+        anchor++;
+      }
+
+      if (anchor === base.length) {
+        resolve(base.length, current.length, incoming.length);
+        break;
+      }
+
+      const currentAnchor = currentMatches.get(anchor)!;
+      const incomingAnchor = incomingMatches.get(anchor)!;
+      if (anchor > b || currentAnchor > c || incomingAnchor > i) {
+        resolve(anchor, currentAnchor, incomingAnchor);
+      }
+
+      output.push(base[anchor]);
+      b = anchor + 1;
+      c = currentAnchor + 1;
+      i = incomingAnchor + 1;
+    }
+
+    return { clean: conflicts.length === 0, text: output.join('\n'), conflicts };
+  }
+
+  /**
+   * Computes the edit operations turning one token sequence into another
+   */
+  private diff(oldTokens: string[], newTokens: string[]): DiffOperation[] {
+    // Common prefix and suffix never need the LCS table
+    let prefix = 0;
+    while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) {
+      prefix++;
+    }
+    let oldEnd = oldTokens.length;
+    let newEnd = newTokens.length;
+    while (oldEnd > prefix && newEnd > prefix && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+
+    const operations: DiffOperation[] = oldTokens
+      .slice(0, prefix)
+      .map(value => ({ type: 'equal' as const, value }));
+    operations.push(...this.diffMiddle(oldTokens.slice(prefix, oldEnd), newTokens.slice(prefix, newEnd)));
+    operations.push(...oldTokens.slice(oldEnd).map(value => ({ type: 'equal' as const, value })));
+    return operations;
+  }
+
+  /**
+   * Diffs the region between the common prefix and suffix using a longest-common-subsequence table
+   */
+  private diffMiddle(oldTokens: string[], newTokens: string[]): DiffOperation[] {
+    const rows = oldTokens.length;
+    const columns = newTokens.length;
+
+    if ((rows + 1) * (columns + 1) > MAX_TABLE_CELLS) {
+      return [
+        ...oldTokens.map(value => ({ type: 'removed' as const, value })),
+        ...newTokens.map(value => ({ type: 'added' as const, value }))
+      ];
+    }
+
+    // table[i][j] = LCS length of oldTokens[i..] and newTokens[j..]
+    const width = columns + 1;
+    const table = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        table[i * width + j] = oldTokens[i] === newTokens[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    const operations: DiffOperation[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (oldTokens[i] === newTokens[j]) {
+        operations.push({ type: 'equal', value: oldTokens[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        operations.push({ type: 'removed', value: oldTokens[i++] });
+      } else {
+        operations.push({ type: 'added', value: newTokens[j++] });
+      }
+    }
+    while (i < rows) {
+      operations.push({ type: 'removed', value: oldTokens[i++] });
+    }
+    while (j < columns) {
+      operations.push({ type: 'added', value: newTokens[j++] });
+    }
+
+    return operations;
+  }
+
+  /**
+   * Maps each old line kept by the diff to its index in the new lines
+   */
+  private matchLines(oldLines: string[], newLines: string[]): Map<number, number> {
+    const matches = new Map<number, number>();
+    let oldIndex = 0;
+    let newIndex = 0;
+
+    for (const operation of this.diff(oldLines, newLines)) {
+      if (operation.type === 'equal') {
+        matches.set(oldIndex++, newIndex++);
+      } else if (operation.type === 'removed') {
+        oldIndex++;
+      } else {
+        newIndex++;
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Checks if two line lists are identical
+   */
+  private sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+  }
+
+  /**
+   * Splits text into lines (empty text has no lines)
+   */
+  private splitLines(text: string): string[] {
+    return text === '' ? [] : text.split(/\r?\n/);
+  }
+
+  /**
+   * Splits text into alternating word and whitespace tokens
+   */
+  private splitWords(text: string): string[] {
+    return text.split(/(\s+)/).filter(token => token.length > 0);
+  }
+}
\ No newline at end of file
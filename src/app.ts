@@ -7,16 +7,33 @@ import { specs as swaggerSpec } from './config/swagger';
 import topicRoutes from './routes/topicRoutes';
 import resourceRoutes from './routes/resourceRoutes';
 import userRoutes from './routes/userRoutes';
+import roleRoutes from './routes/roleRoutes';
+import groupRoutes from './routes/groupRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
+import trashRoutes from './routes/trashRoutes';
+import adminRoutes from './routes/adminRoutes';
 import { AppError } from './types/errors';
 import { initializeSampleData } from './utils/seedData';
+import { TopicScheduler } from './services/TopicScheduler';
+import { Storage } from './database/Storage';
+import { IStorageAdapter } from './interfaces/IStorageAdapter';
 
 class App {
   public app: Application;
   private port: number;
+  private scheduler: TopicScheduler;
+  private storage: IStorageAdapter;
 
-  constructor(port: number = 3000) {
+  /**
+   * Creates the application on the given storage adapter, or on the one named by the
+   * `STORAGE_TYPE` environment variable (in-memory by default)
+   */
+  constructor(port: number = 3000, storage?: IStorageAdapter) {
     this.app = express();
     this.port = port;
+    this.storage = storage ?? Storage.create(process.env.STORAGE_TYPE);
+    Storage.use(this.storage);
+    this.scheduler = new TopicScheduler();
     this.initializeMiddlewares();
     this.initializeRoutes();
     this.initializeErrorHandling();
@@ -73,6 +90,11 @@ class App {
     this.app.use('/api/topics', topicRoutes);
     this.app.use('/api/resources', resourceRoutes);
     this.app.use('/api/users', userRoutes);
+    this.app.use('/api/roles', roleRoutes);
+    this.app.use('/api/groups', groupRoutes);
+    this.app.use('/api/schedule', scheduleRoutes);
+    this.app.use('/api/trash', trashRoutes);
+    this.app.use('/api/admin', adminRoutes);
 
     // API documentation endpoint
     this.app.get('/api', (_req: Request, res: Response) => {
@@ -83,6 +105,12 @@ class App {
           topics: '/api/topics',
           resources: '/api/resources',
           users: '/api/users',
+          roles: '/api/roles',
+          groups: '/api/groups',
+          schedule: '/api/schedule',
+          trash: '/api/trash',
+          admin: '/api/admin',
+          authenticate: '/api/users/authenticate',
           health: '/health'
         },
         documentation: '/docs'
@@ -95,7 +123,7 @@ class App {
         success: false,
         error: 'Not Found',
         message: `Route ${req.originalUrl} not found`,
-        availableRoutes: ['/api/topics', '/api/resources', '/api/users', '/health']
+        availableRoutes: ['/api/topics', '/api/resources', '/api/users', '/api/roles', '/api/groups', '/api/schedule', '/api/trash', '/api/admin', '/health']
       });
     });
   }
@@ -113,6 +141,7 @@ class App {
 
       if (error instanceof AppError) {
         return res.status(error.statusCode).json({
+          success: false,
           error: error.name,
           message: error.message,
           ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
@@ -152,8 +181,12 @@ class App {
   }
 
   public async listen(): Promise<void> {
-    // Initialize database with sample data before starting server
+    // Open storage and initialize it with sample data before starting server
+    await this.storage.open();
     await this.initializeDatabase();
+
+    // Run scheduled publishing and expiry in the background
+    this.scheduler.start();
     
     return new Promise((resolve) => {
       this.app.listen(this.port, () => {
@@ -177,6 +210,14 @@ class App {
     }
   }
 
+  /**
+   * Stops background work and closes storage
+   */
+  public async close(): Promise<void> {
+    this.scheduler.stop();
+    await this.storage.close();
+  }
+
   public getApp(): Application {
     return this.app;
   }
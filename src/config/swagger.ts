@@ -23,7 +23,20 @@ const options: swaggerJsdoc.Options = {
         description: 'Dev Server (local)'
       }
     ],
+    security: [
+      {
+        bearerAuth: []
+      }
+    ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Access token issued by POST /api/users/authenticate'
+        }
+      },
       schemas: {
         Topic: {
           type: 'object',
@@ -39,6 +52,13 @@ const options: swaggerJsdoc.Options = {
               description: 'Name of the topic',
               example: 'JavaScript Fundamentals'
             },
+            slug: {
+              type: 'string',
+              pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$',
+              maxLength: 100,
+              description: 'URL-friendly name, unique across topics; generated from the name unless given',
+              example: 'javascript-fundamentals'
+            },
             content: {
               type: 'string',
               description: 'Content of the topic',
@@ -55,6 +75,56 @@ const options: swaggerJsdoc.Options = {
               description: 'ID of the parent topic for hierarchical structure',
               example: 'topic_456'
             },
+            topicCreatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Creation time of the first version of the topic',
+              example: '2024-01-10T08:00:00Z'
+            },
+            authorId: {
+              type: 'string',
+              description: 'ID of the user who made this version',
+              example: 'user_123'
+            },
+            changeMessage: {
+              type: 'string',
+              description: 'Summary of the change that produced this version',
+              example: 'Add section on closures'
+            },
+            status: {
+              type: 'string',
+              enum: ['draft', 'in_review', 'published', 'archived'],
+              description: 'Review status of this version',
+              example: 'published'
+            },
+            reviewedBy: {
+              type: 'string',
+              description: 'ID of the user who approved or rejected this version',
+              example: 'user_456'
+            },
+            reviewedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Time of the last review decision',
+              example: '2024-01-15T11:00:00Z'
+            },
+            reviewComment: {
+              type: 'string',
+              description: 'Comment left with the last review decision',
+              example: 'Looks good'
+            },
+            publishedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Time this version was published',
+              example: '2024-01-15T11:00:00Z'
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Time a scheduled expiry will archive this version',
+              example: '2025-01-15T00:00:00Z'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -66,6 +136,18 @@ const options: swaggerJsdoc.Options = {
               format: 'date-time',
               description: 'Last update timestamp',
               example: '2024-01-15T10:30:00Z'
+            },
+            createdBy: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the user who created the entity',
+              example: 'user_123'
+            },
+            updatedBy: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the user who last updated the entity',
+              example: 'user_123'
             }
           }
         },
@@ -111,6 +193,18 @@ const options: swaggerJsdoc.Options = {
               format: 'date-time',
               description: 'Last update timestamp',
               example: '2024-01-15T10:30:00Z'
+            },
+            createdBy: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the user who created the entity',
+              example: 'user_123'
+            },
+            updatedBy: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the user who last updated the entity',
+              example: 'user_123'
             }
           }
         },
@@ -136,10 +230,20 @@ const options: swaggerJsdoc.Options = {
             },
             role: {
               type: 'string',
-              enum: ['Admin', 'Editor', 'Viewer'],
-              description: 'Role of the user in the system',
+              description: 'Role of the user: Admin, Editor, Viewer or the name of a custom role',
               example: 'Editor'
             },
+            active: {
+              type: 'boolean',
+              description: 'False once the account has been deactivated',
+              example: true
+            },
+            deactivatedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the account was deactivated'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -148,6 +252,306 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        Role: {
+          type: 'object',
+          required: ['name', 'permissions'],
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the role',
+              example: 'role_123'
+            },
+            name: {
+              type: 'string',
+              description: 'Unique role name, other than a built-in role',
+              example: 'Reviewer'
+            },
+            description: {
+              type: 'string',
+              example: 'Reads everything and edits topics'
+            },
+            permissions: {
+              type: 'object',
+              description: 'Capabilities granted per resource type (topic, resource, user, role, group)',
+              additionalProperties: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['read', 'write', 'delete', 'deleteOwn', 'manage', 'publish']
+                }
+              },
+              example: {
+                topic: ['read', 'write'],
+                resource: ['read', 'write', 'deleteOwn']
+              }
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        Group: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the group',
+              example: 'group_123'
+            },
+            name: {
+              type: 'string',
+              description: 'Unique group name',
+              example: 'Legal'
+            },
+            description: {
+              type: 'string',
+              example: 'Legal department'
+            },
+            memberIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Ids of the users in the group'
+            },
+            permissions: {
+              type: 'object',
+              description: 'Capabilities granted to members per resource type, on top of their role',
+              additionalProperties: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['read', 'write', 'delete', 'deleteOwn', 'manage', 'publish']
+                }
+              },
+              example: {
+                resource: ['read', 'write']
+              }
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        ScheduledAction: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Unique identifier for the scheduled action',
+              example: 'action_123'
+            },
+            topicId: {
+              type: 'string',
+              example: 'topic_123'
+            },
+            version: {
+              type: 'number',
+              description: 'Topic version the action applies to',
+              example: 2
+            },
+            action: {
+              type: 'string',
+              enum: ['publish', 'expire'],
+              description: 'Publish makes the version the published one; expire archives it if it is still published'
+            },
+            runAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2025-01-01T00:00:00Z'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'completed', 'failed', 'cancelled']
+            },
+            executedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the scheduler ran the action'
+            },
+            error: {
+              type: 'string',
+              description: 'Why a failed action could not be carried out',
+              example: 'Version 2 is archived and cannot be expired'
+            },
+            createdBy: {
+              type: 'string',
+              description: 'ID of the user who scheduled the action'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        TrashEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'ID of the deleted topic',
+              example: 'topic_123'
+            },
+            name: {
+              type: 'string',
+              example: 'Legacy Policies'
+            },
+            parentTopicId: {
+              type: 'string',
+              description: 'Parent the topic is restored under',
+              example: 'topic_456'
+            },
+            topicIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'The deleted topic followed by the subtopics trashed with it'
+            },
+            resourceIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Resources trashed with the topics'
+            },
+            policy: {
+              type: 'string',
+              enum: ['reject', 'cascade', 'reparent'],
+              description: 'Policy the topic was deleted with'
+            },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            deletedBy: {
+              type: 'string',
+              description: 'ID of the user who deleted the topic'
+            }
+          }
+        },
+        BackupArchive: {
+          type: 'object',
+          required: ['format', 'schemaVersion', 'checksum', 'data'],
+          properties: {
+            format: {
+              type: 'string',
+              enum: ['knowledge-base-backup']
+            },
+            schemaVersion: {
+              type: 'integer',
+              description: 'Version of the shape of the data',
+              example: 1
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            checksum: {
+              type: 'string',
+              description: 'SHA-256 of the JSON text of the data, in hex'
+            },
+            data: {
+              type: 'object',
+              description: 'Topics with all their versions, resources, users, access control lists, roles, groups, scheduled actions and the trash'
+            }
+          }
+        },
+        RestoreChanges: {
+          type: 'object',
+          properties: {
+            added: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            updated: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            removed: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            unchanged: {
+              type: 'integer'
+            }
+          }
+        },
+        RestoreReport: {
+          type: 'object',
+          properties: {
+            dryRun: {
+              type: 'boolean'
+            },
+            schemaVersion: {
+              type: 'integer'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the backup was created'
+            },
+            changes: {
+              type: 'object',
+              description: 'Ids of the records added, updated and removed, per collection',
+              additionalProperties: {
+                $ref: '#/components/schemas/RestoreChanges'
+              }
+            }
+          }
+        },
+        Session: {
+          type: 'object',
+          properties: {
+            user: {
+              $ref: '#/components/schemas/User'
+            },
+            accessToken: {
+              type: 'string',
+              description: 'Signed access token to send as `Authorization: Bearer <token>`'
+            },
+            refreshToken: {
+              type: 'string',
+              description: 'Single-use token for POST /api/users/refresh'
+            },
+            tokenType: {
+              type: 'string',
+              example: 'Bearer'
+            },
+            expiresIn: {
+              type: 'number',
+              description: 'Access token lifetime in seconds',
+              example: 900
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Access token expiry timestamp',
+              example: '2024-01-15T10:45:00Z'
+            }
+          }
+        },
         ApiResponse: {
           type: 'object',
           properties: {
@@ -191,6 +595,160 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        TopicAclEntry: {
+          type: 'object',
+          required: ['principalType', 'principalId', 'level'],
+          properties: {
+            principalType: {
+              type: 'string',
+              enum: ['user', 'group'],
+              example: 'user'
+            },
+            principalId: {
+              type: 'string',
+              example: 'user_123'
+            },
+            level: {
+              type: 'string',
+              enum: ['read', 'write', 'admin'],
+              description: 'Each level includes the ones below it',
+              example: 'read'
+            }
+          }
+        },
+        TopicAccessControl: {
+          type: 'object',
+          properties: {
+            entries: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/TopicAclEntry'
+              },
+              description: 'Entries attached directly to the topic'
+            },
+            effective: {
+              type: 'object',
+              nullable: true,
+              description: 'List in effect for the topic, or null when only roles apply',
+              properties: {
+                sourceTopicId: {
+                  type: 'string',
+                  example: 'topic_123'
+                },
+                inherited: {
+                  type: 'boolean',
+                  example: false
+                },
+                entries: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/TopicAclEntry'
+                  }
+                }
+              }
+            }
+          }
+        },
+        TopicVersionDiff: {
+          type: 'object',
+          properties: {
+            topicId: {
+              type: 'string',
+              example: 'topic_123'
+            },
+            fromVersion: {
+              type: 'integer',
+              example: 1
+            },
+            toVersion: {
+              type: 'integer',
+              example: 2
+            },
+            fields: {
+              type: 'array',
+              description: 'Fields whose value differs between the two versions',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    enum: ['name', 'parentTopicId'],
+                    example: 'name'
+                  },
+                  from: {
+                    type: 'string',
+                    nullable: true,
+                    example: 'Old name'
+                  },
+                  to: {
+                    type: 'string',
+                    nullable: true,
+                    example: 'New name'
+                  }
+                }
+              }
+            },
+            content: {
+              type: 'object',
+              properties: {
+                lines: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: {
+                        type: 'string',
+                        enum: ['equal', 'removed', 'added', 'modified'],
+                        example: 'modified'
+                      },
+                      oldLine: {
+                        type: 'integer',
+                        example: 3
+                      },
+                      newLine: {
+                        type: 'integer',
+                        example: 3
+                      },
+                      oldText: {
+                        type: 'string',
+                        example: 'The quick brown fox'
+                      },
+                      newText: {
+                        type: 'string',
+                        example: 'The quick red fox'
+                      },
+                      words: {
+                        type: 'array',
+                        description: 'Word-level changes of a modified line',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            type: {
+                              type: 'string',
+                              enum: ['equal', 'removed', 'added']
+                            },
+                            value: {
+                              type: 'string'
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                },
+                stats: {
+                  type: 'object',
+                  properties: {
+                    unchanged: { type: 'integer', example: 4 },
+                    added: { type: 'integer', example: 1 },
+                    removed: { type: 'integer', example: 0 },
+                    modified: { type: 'integer', example: 1 }
+                  }
+                }
+              }
+            }
+          }
+        },
         TopicHierarchy: {
           type: 'object',
           properties: {
@@ -286,6 +844,52 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        MissingReference: {
+          description: 'A referenced record (e.g. a parent topic) does not exist',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error'
+              },
+              example: {
+                success: false,
+                error: 'Unprocessable Entity',
+                message: 'Parent topic 123e4567-e89b-12d3-a456-426614174000 does not exist',
+                field: 'parentTopicId'
+              }
+            }
+          }
+        },
+        Unauthorized: {
+          description: 'Missing, invalid or expired access token',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error'
+              },
+              example: {
+                success: false,
+                error: 'UnauthorizedError',
+                message: 'Authentication token is required'
+              }
+            }
+          }
+        },
+        Forbidden: {
+          description: 'Caller role lacks the required permission',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error'
+              },
+              example: {
+                success: false,
+                error: 'ForbiddenError',
+                message: 'Role Viewer is not allowed to write topics'
+              }
+            }
+          }
+        },
         InternalServerError: {
           description: 'Internal server error',
           content: {
@@ -300,6 +904,80 @@ const options: swaggerJsdoc.Options = {
               }
             }
           }
+        },
+        PreconditionFailed: {
+          description: 'The If-Match header does not match the current topic version',
+          headers: {
+            ETag: {
+              description: 'Entity tag of the current version',
+              schema: {
+                type: 'string',
+                example: '"v3"'
+              }
+            }
+          },
+          content: {
+            'application/json': {
+              example: {
+                success: false,
+                error: 'Precondition Failed',
+                message: 'Topic has been modified since it was read (current version is 3)',
+                currentVersion: 3
+              }
+            }
+          }
+        },
+        MergeConflict: {
+          description: 'The edit was based on an older version and conflicts with changes made since',
+          content: {
+            'application/json': {
+              example: {
+                success: false,
+                error: 'Conflict',
+                message: 'Changes based on version 1 conflict with version 3',
+                currentVersion: 3,
+                baseVersion: 1,
+                conflicts: {
+                  fields: [],
+                  content: 'Intro\n<<<<<<< version 3\nTheir line\n=======\nYour line\n>>>>>>> incoming',
+                  hunks: [
+                    {
+                      line: 2,
+                      baseLine: 2,
+                      base: ['Original line'],
+                      current: ['Their line'],
+                      incoming: ['Your line']
+                    }
+                  ]
+                }
+              }
+            }
+          }
+        },
+        VersionConflict: {
+          description: 'The expectedVersion field does not match the current topic version',
+          content: {
+            'application/json': {
+              example: {
+                success: false,
+                error: 'Conflict',
+                message: 'Topic has been modified since it was read (current version is 3)',
+                currentVersion: 3
+              }
+            }
+          }
+        }
+      },
+      parameters: {
+        IfMatch: {
+          in: 'header',
+          name: 'If-Match',
+          required: false,
+          schema: {
+            type: 'string'
+          },
+          description: 'Only apply the change if the topic is still at this version (ETag from GET /api/topics/{id})',
+          example: '"v2"'
         }
       }
     },
@@ -316,6 +994,26 @@ const options: swaggerJsdoc.Options = {
         name: 'Users',
         description: 'User management with role-based access control'
       },
+      {
+        name: 'Roles',
+        description: 'Custom roles defined as capabilities per resource type'
+      },
+      {
+        name: 'Groups',
+        description: 'Groups of users sharing permissions and topic access'
+      },
+      {
+        name: 'Schedule',
+        description: 'Scheduled publishing and expiry of topic versions'
+      },
+      {
+        name: 'Trash',
+        description: 'Restore or permanently remove deleted topics'
+      },
+      {
+        name: 'Admin',
+        description: 'Database backup and restore'
+      },
       {
         name: 'System',
         description: 'System health and information endpoints'
@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { BackupService } from '../services/BackupService';
+import { MissingReferenceError, ValidationError } from '../types/errors';
+
+/**
+ * Controller for database administration
+ */
+export class AdminController {
+  private backupService: BackupService;
+
+  constructor() {
+    this.backupService = new BackupService();
+  }
+
+  /**
+   * Downloads a backup of the whole database
+   */
+  async backup(_req: Request, res: Response): Promise<void> {
+    try {
+      const archive = await this.backupService.createBackup();
+
+      const timestamp = archive.createdAt.replace(/[:.]/g, '-');
+      res.setHeader('Content-Disposition', `attachment; filename="knowledge-base-${timestamp}.json"`);
+      res.json(archive);
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to create backup'
+      });
+    }
+  }
+
+  /**
+   * Replaces the whole database with a backup, or reports what that would change
+   */
+  async restore(req: Request, res: Response): Promise<void> {
+    try {
+      const dryRun = req.query.dryRun === 'true';
+      const report = await this.backupService.restore(req.body, dryRun);
+
+      res.json({
+        success: true,
+        data: report,
+        message: dryRun ? 'Dry run: nothing was changed' : 'Database restored from backup'
+      });
+    } catch (_error) {
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to restore backup'
+        });
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { Request, Response } from 'express';
+import { GroupService } from '../services/GroupService';
+import { ValidationError, NotFoundError, ConflictError } from '../types/errors';
+
+/**
+ * Controller for Group CRUD and membership operations
+ */
+export class GroupController {
+  private groupService: GroupService;
+
+  constructor() {
+    this.groupService = new GroupService();
+  }
+
+  /**
+   * Creates a new group
+   */
+  async createGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, permissions, memberIds } = req.body;
+
+      if (!name) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Name is required'
+        });
+        return;
+      }
+
+      if (memberIds !== undefined && !Array.isArray(memberIds)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'memberIds must be an array of user ids'
+        });
+        return;
+      }
+
+      const group = await this.groupService.create({ name, description, permissions, memberIds }, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: group.toJSON(),
+        message: 'Group created successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to create group'
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets all groups, optionally only those a user belongs to
+   */
+  async getAllGroups(req: Request, res: Response): Promise<void> {
+    try {
+      const { memberId } = req.query;
+      const groups = memberId
+        ? await this.groupService.findByMember(memberId as string)
+        : await this.groupService.findAll();
+
+      res.json({
+        success: true,
+        data: groups.map(group => group.toJSON()),
+        count: groups.length
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve groups'
+      });
+    }
+  }
+
+  /**
+   * Gets a group by ID
+   */
+  async getGroupById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const group = await this.groupService.findById(id);
+
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Group not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: group.toJSON()
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve group'
+      });
+    }
+  }
+
+  /**
+   * Updates a group
+   */
+  async updateGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, permissions } = req.body;
+
+      const group = await this.groupService.update(id, { name, description, permissions }, req.user?.id);
+
+      res.json({
+        success: true,
+        data: group.toJSON(),
+        message: 'Group updated successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to update group'
+        });
+      }
+    }
+  }
+
+  /**
+   * Deletes a group
+   */
+  async deleteGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const deleted = await this.groupService.delete(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Group not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Group deleted successfully'
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to delete group'
+      });
+    }
+  }
+
+  /**
+   * Adds a user to a group
+   */
+  async addMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { userId } = req.body;
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'userId is required'
+        });
+        return;
+      }
+
+      const group = await this.groupService.addMember(id, userId, req.user?.id);
+
+      res.json({
+        success: true,
+        data: group.toJSON(),
+        message: 'Member added successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to add group member'
+        });
+      }
+    }
+  }
+
+  /**
+   * Removes a user from a group
+   */
+  async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      const group = await this.groupService.removeMember(id, userId, req.user?.id);
+
+      res.json({
+        success: true,
+        data: group.toJSON(),
+        message: 'Member removed successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to remove group member'
+        });
+      }
+    }
+  }
+}
\ No newline at end of file
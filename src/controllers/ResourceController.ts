@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { ResourceService } from '../services/ResourceService';
 import { Resource } from '../models/Resource';
-import { ValidationError, NotFoundError } from '../types/errors';
+import { BulkOperationError, MissingReferenceError, ValidationError, NotFoundError } from '../types/errors';
 
 /**
  * Controller for Resource CRUD operations
@@ -35,7 +35,7 @@ export class ResourceController {
         type: type.trim()
       };
 
-      const resource = await this.resourceService.create(resourceData);
+      const resource = await this.resourceService.create(resourceData, req.user?.id);
       
       res.status(201).json({
         success: true,
@@ -48,6 +48,12 @@ export class ResourceController {
           success: false,
           error: _error.message
         });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: _error.message,
+          field: _error.field
+        });
       } else {
         console.error('Error creating resource:', _error);
         res.status(500).json({
@@ -95,13 +101,13 @@ export class ResourceController {
       let resources: Resource[];
 
       if (topicId) {
-        resources = await this.resourceService.findByTopicId(topicId as string);
+        resources = await this.resourceService.findByTopicId(topicId as string, req.user);
       } else if (type) {
-        resources = await this.resourceService.findByType(type as string);
+        resources = await this.resourceService.findByType(type as string, req.user);
       } else if (search) {
-        resources = await this.resourceService.searchByDescription(search as string);
+        resources = await this.resourceService.searchByDescription(search as string, req.user);
       } else {
-        resources = await this.resourceService.findAll();
+        resources = await this.resourceService.findAll(req.user);
       }
 
       res.json({
@@ -130,7 +136,7 @@ export class ResourceController {
       if (description !== undefined) updateData.description = description.trim();
       if (type !== undefined) updateData.type = type.trim();
 
-      const updatedResource = await this.resourceService.update(id, updateData);
+      const updatedResource = await this.resourceService.update(id, updateData, req.user?.id);
       
       res.json({
         success: true,
@@ -213,7 +219,7 @@ export class ResourceController {
   async getResourcesByType(req: Request, res: Response): Promise<void> {
     try {
       const { type } = req.params;
-      const resources = await this.resourceService.findByType(type);
+      const resources = await this.resourceService.findByType(type, req.user);
       
       res.json({
         success: true,
@@ -243,7 +249,7 @@ export class ResourceController {
         return;
       }
 
-      const resources = await this.resourceService.findByUrlPattern(pattern as string);
+      const resources = await this.resourceService.findByUrlPattern(pattern as string, req.user);
       
       res.json({
         success: true,
@@ -339,9 +345,9 @@ export class ResourceController {
   /**
    * Gets resources grouped by type
    */
-  async getResourcesByTypeGrouped(_req: Request, res: Response): Promise<void> {
+  async getResourcesByTypeGrouped(req: Request, res: Response): Promise<void> {
     try {
-      const groupedResources = await this.resourceService.getResourcesByType();
+      const groupedResources = await this.resourceService.getResourcesByType(req.user);
       
       res.json({
         success: true,
@@ -360,7 +366,7 @@ export class ResourceController {
    */
   async bulkCreateResources(req: Request, res: Response): Promise<void> {
     try {
-      const { resources } = req.body;
+      const { resources, atomic } = req.body;
 
       if (!Array.isArray(resources) || resources.length === 0) {
         res.status(400).json({
@@ -370,7 +376,15 @@ export class ResourceController {
         return;
       }
 
-      const createdResources = await this.resourceService.bulkCreate(resources);
+      if (atomic !== undefined && typeof atomic !== 'boolean') {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'atomic must be a boolean'
+        });
+        return;
+      }
+
+      const createdResources = await this.resourceService.bulkCreate(resources, req.user?.id, atomic, req.user);
       
       res.status(201).json({
         success: true,
@@ -379,6 +393,14 @@ export class ResourceController {
         message: `${createdResources.length} resources created successfully`
       });
     } catch (_error) {
+      if (_error instanceof BulkOperationError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: _error.message,
+          index: _error.index
+        });
+        return;
+      }
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'Failed to bulk create resources'
@@ -389,9 +411,9 @@ export class ResourceController {
   /**
    * Exports resources
    */
-  async exportResources(_req: Request, res: Response): Promise<void> {
+  async exportResources(req: Request, res: Response): Promise<void> {
     try {
-      const exportData = await this.resourceService.exportResources();
+      const exportData = await this.resourceService.exportResources(req.user);
       
       res.json({
         success: true,
@@ -411,7 +433,7 @@ export class ResourceController {
    */
   async importResources(req: Request, res: Response): Promise<void> {
     try {
-      const { resources } = req.body;
+      const { resources, atomic } = req.body;
 
       if (!Array.isArray(resources)) {
         res.status(400).json({
@@ -421,7 +443,15 @@ export class ResourceController {
         return;
       }
 
-      const importedResources = await this.resourceService.importResources(resources);
+      if (atomic !== undefined && typeof atomic !== 'boolean') {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'atomic must be a boolean'
+        });
+        return;
+      }
+
+      const importedResources = await this.resourceService.importResources(resources, req.user?.id, atomic, req.user);
       
       res.status(201).json({
         success: true,
@@ -430,6 +460,14 @@ export class ResourceController {
         message: `${importedResources.length} resources imported successfully`
       });
     } catch (_error) {
+      if (_error instanceof BulkOperationError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: _error.message,
+          index: _error.index
+        });
+        return;
+      }
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'Failed to import resources'
@@ -440,9 +478,9 @@ export class ResourceController {
   /**
    * Validates all resources
    */
-  async validateAllResources(_req: Request, res: Response): Promise<void> {
+  async validateAllResources(req: Request, res: Response): Promise<void> {
     try {
-      const invalidResources = await this.resourceService.validateAllResources();
+      const invalidResources = await this.resourceService.validateAllResources(req.user);
       
       res.json({
         success: true,
@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { RoleService } from '../services/RoleService';
+import { ValidationError, NotFoundError, ConflictError } from '../types/errors';
+
+/**
+ * Controller for custom Role CRUD operations
+ */
+export class RoleController {
+  private roleService: RoleService;
+
+  constructor() {
+    this.roleService = new RoleService();
+  }
+
+  /**
+   * Creates a new role
+   */
+  async createRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, permissions } = req.body;
+
+      if (!name || !permissions) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Name and permissions are required'
+        });
+        return;
+      }
+
+      const role = await this.roleService.create({ name, description, permissions }, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: role.toJSON(),
+        message: 'Role created successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to create role'
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets all roles
+   */
+  async getAllRoles(_req: Request, res: Response): Promise<void> {
+    try {
+      const roles = await this.roleService.findAll();
+
+      res.json({
+        success: true,
+        data: roles.map(role => role.toJSON()),
+        builtInRoles: this.roleService.getBuiltInRoles(),
+        count: roles.length
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve roles'
+      });
+    }
+  }
+
+  /**
+   * Gets a role by ID
+   */
+  async getRoleById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const role = await this.roleService.findById(id);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Role not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: role.toJSON()
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve role'
+      });
+    }
+  }
+
+  /**
+   * Updates a role
+   */
+  async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, permissions } = req.body;
+
+      const role = await this.roleService.update(id, { name, description, permissions }, req.user?.id);
+
+      res.json({
+        success: true,
+        data: role.toJSON(),
+        message: 'Role updated successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to update role'
+        });
+      }
+    }
+  }
+
+  /**
+   * Deletes a role
+   */
+  async deleteRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const deleted = await this.roleService.delete(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Role not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Role deleted successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to delete role'
+        });
+      }
+    }
+  }
+}
\ No newline at end of file
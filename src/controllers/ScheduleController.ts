@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { ScheduleService } from '../services/ScheduleService';
+import { ScheduledActionStatus, ScheduledActionType } from '../interfaces/IScheduledAction';
+import { ValidationError, NotFoundError, ConflictError } from '../types/errors';
+
+/**
+ * Controller for scheduled publishing and expiry of topic versions
+ */
+export class ScheduleController {
+  private scheduleService: ScheduleService;
+
+  constructor() {
+    this.scheduleService = new ScheduleService();
+  }
+
+  /**
+   * Schedules a publish or expiry of a topic version
+   */
+  async scheduleTopicAction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { action, runAt, version } = req.body;
+
+      if (!Object.values(ScheduledActionType).includes(action)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: `Action must be one of: ${Object.values(ScheduledActionType).join(', ')}`
+        });
+        return;
+      }
+
+      if (typeof runAt !== 'string' || isNaN(Date.parse(runAt))) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'runAt must be an ISO 8601 date-time'
+        });
+        return;
+      }
+
+      if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Version must be a positive integer'
+        });
+        return;
+      }
+
+      const scheduled = await this.scheduleService.schedule(id, { action, runAt: new Date(runAt), version }, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: scheduled.toJSON(),
+        message: `Version ${scheduled.version} scheduled to ${scheduled.action} at ${scheduled.runAt.toISOString()}`
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to schedule action'
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets the scheduled actions of a topic
+   */
+  async getTopicSchedule(req: Request, res: Response): Promise<void> {
+    await this.sendScheduledActions(req, res, req.params.id);
+  }
+
+  /**
+   * Gets scheduled actions, optionally filtered by topic and status
+   */
+  async getScheduledActions(req: Request, res: Response): Promise<void> {
+    const topicId = typeof req.query.topicId === 'string' ? req.query.topicId : undefined;
+    await this.sendScheduledActions(req, res, topicId);
+  }
+
+  /**
+   * Gets a scheduled action by ID
+   */
+  async getScheduledAction(req: Request, res: Response): Promise<void> {
+    try {
+      const action = await this.scheduleService.findById(req.params.id, req.user);
+
+      if (!action) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Scheduled action not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: action.toJSON()
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve scheduled action'
+      });
+    }
+  }
+
+  /**
+   * Cancels a pending scheduled action
+   */
+  async cancelScheduledAction(req: Request, res: Response): Promise<void> {
+    try {
+      const action = await this.scheduleService.cancel(req.params.id, req.user?.id, req.user);
+
+      res.json({
+        success: true,
+        data: action.toJSON(),
+        message: 'Scheduled action cancelled'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to cancel scheduled action'
+        });
+      }
+    }
+  }
+
+  /**
+   * Sends the scheduled actions matching a topic and the status in the query
+   */
+  private async sendScheduledActions(req: Request, res: Response, topicId?: string): Promise<void> {
+    try {
+      const status = req.query.status as ScheduledActionStatus | undefined;
+
+      if (status !== undefined && !Object.values(ScheduledActionStatus).includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: `Status must be one of: ${Object.values(ScheduledActionStatus).join(', ')}`
+        });
+        return;
+      }
+
+      const actions = await this.scheduleService.findAll({ topicId, status }, req.user);
+
+      res.json({
+        success: true,
+        data: actions.map(action => action.toJSON()),
+        count: actions.length
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve scheduled actions'
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { TopicService } from '../services/TopicService';
 import { Topic } from '../models/Topic';
-import { ValidationError, NotFoundError, ConflictError } from '../types/errors';
+import { ValidationError, NotFoundError, ConflictError, ForbiddenError, MergeConflictError, MissingReferenceError, VersionConflictError } from '../types/errors';
+import { TopicETag } from '../utils/TopicETag';
+import { TopicDeletePolicy } from '../interfaces/ITrash';
 
 /**
  * Controller for Topic CRUD operations
@@ -18,7 +20,7 @@ export class TopicController {
    */
   async createTopic(req: Request, res: Response): Promise<void> {
     try {
-      const { name, content, parentTopicId } = req.body;
+      const { name, slug, content, parentTopicId } = req.body;
 
       if (!name || !content) {
         res.status(400).json({
@@ -29,13 +31,23 @@ export class TopicController {
         return;
       }
 
+      if (slug !== undefined && typeof slug !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Slug must be a string'
+        });
+        return;
+      }
+
       const topicData = {
         name: name.trim(),
+        slug: slug?.trim(),
         content: content.trim(),
         parentTopicId: parentTopicId || undefined
       };
 
-      const topic = await this.topicService.create(topicData);
+      const topic = await this.topicService.create(topicData, req.user?.id);
       
       res.status(201).json({
         success: true,
@@ -49,6 +61,19 @@ export class TopicController {
           error: 'Validation Error',
           message: _error.message
         });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
       } else {
         res.status(500).json({
           error: 'Internal Server Error',
@@ -67,7 +92,7 @@ export class TopicController {
       const { version } = req.query;
 
       const versionNumber = version ? parseInt(version as string) : undefined;
-      const topic = await this.topicService.findById(id, versionNumber);
+      const topic = await this.topicService.findById(id, versionNumber, req.user);
 
       if (!topic) {
         res.status(404).json({
@@ -78,6 +103,41 @@ export class TopicController {
         return;
       }
 
+      res.setHeader('ETag', TopicETag.format(topic.version));
+      res.json({
+        success: true,
+        data: topic.toJSON()
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve topic'
+      });
+    }
+  }
+
+  /**
+   * Gets a topic by its current or a former slug
+   */
+  async getTopicBySlug(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+      const { version } = req.query;
+
+      const versionNumber = version ? parseInt(version as string) : undefined;
+      const topic = await this.topicService.findBySlug(slug, versionNumber, req.user);
+
+      if (!topic) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Topic not found'
+        });
+        return;
+      }
+
+      res.setHeader('ETag', TopicETag.format(topic.version));
       res.json({
         success: true,
         data: topic.toJSON()
@@ -100,11 +160,11 @@ export class TopicController {
       let topics: Topic[];
 
       if (query) {
-        topics = await this.topicService.searchTopics(query as string);
+        topics = await this.topicService.searchTopics(query as string, req.user);
       } else if (parentId) {
-        topics = await this.topicService.getChildren(parentId as string);
+        topics = await this.topicService.getChildren(parentId as string, req.user);
       } else {
-        topics = await this.topicService.findAll();
+        topics = await this.topicService.findAll(req.user);
       }
 
       res.json({
@@ -125,21 +185,48 @@ export class TopicController {
    * Updates a topic (creates new version)
    */
   async updateTopic(req: Request, res: Response): Promise<void> {
+    const fromHeader = req.get('If-Match') !== undefined;
     try {
       const { id } = req.params;
-      const { name, content, parentTopicId } = req.body;
+      const expectedVersions = fromHeader ? this.getExpectedVersions(req) : undefined;
+      const baseVersion = fromHeader ? undefined : this.getBaseVersion(req);
+      const { name, slug, content, parentTopicId, changeMessage } = req.body;
+
+      if (changeMessage !== undefined && typeof changeMessage !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Change message must be a string'
+        });
+        return;
+      }
+
+      if (slug !== undefined && typeof slug !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Slug must be a string'
+        });
+        return;
+      }
 
       const updateData: Partial<Topic> = {};
       if (name !== undefined) updateData.name = name.trim();
+      if (slug !== undefined) updateData.slug = slug.trim();
       if (content !== undefined) updateData.content = content.trim();
       if (parentTopicId !== undefined) updateData.parentTopicId = parentTopicId;
+      if (changeMessage !== undefined) updateData.changeMessage = changeMessage;
 
-      const updatedTopic = await this.topicService.update(id, updateData);
-      
+      const updatedTopic = await this.topicService.update(id, updateData, req.user?.id, expectedVersions, baseVersion);
+      const merged = baseVersion !== undefined && updatedTopic.version !== baseVersion + 1;
+
+      res.setHeader('ETag', TopicETag.format(updatedTopic.version));
       res.json({
         success: true,
         data: updatedTopic.toJSON(),
-        message: 'Topic updated successfully (new version created)'
+        message: merged
+          ? `Topic updated successfully (merged with changes since version ${baseVersion})`
+          : 'Topic updated successfully (new version created)'
       });
     } catch (_error) {
       if (_error instanceof NotFoundError) {
@@ -154,6 +241,41 @@ export class TopicController {
           error: 'Validation Error',
           message: _error.message
         });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof MergeConflictError) {
+        res.setHeader('ETag', TopicETag.format(_error.currentVersion));
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message,
+          currentVersion: _error.currentVersion,
+          baseVersion: _error.conflict.baseVersion,
+          conflicts: {
+            fields: _error.conflict.fields,
+            content: _error.conflict.content,
+            hunks: _error.conflict.hunks
+          }
+        });
+      } else if (_error instanceof VersionConflictError) {
+        res.setHeader('ETag', TopicETag.format(_error.currentVersion));
+        res.status(fromHeader ? 412 : 409).json({
+          success: false,
+          error: fromHeader ? 'Precondition Failed' : 'Conflict',
+          message: _error.message,
+          currentVersion: _error.currentVersion
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
       } else {
         res.status(500).json({
           success: false,
@@ -165,14 +287,26 @@ export class TopicController {
   }
 
   /**
-   * Deletes a topic
+   * Moves a topic to the trash, handling its subtopics and resources by the requested policy
    */
   async deleteTopic(req: Request, res: Response): Promise<void> {
+    const fromHeader = req.get('If-Match') !== undefined;
     try {
       const { id } = req.params;
-      const deleted = await this.topicService.delete(id);
+      const policy = (req.query.policy ?? TopicDeletePolicy.REJECT) as TopicDeletePolicy;
+
+      if (!Object.values(TopicDeletePolicy).includes(policy)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: `Policy must be one of: ${Object.values(TopicDeletePolicy).join(', ')}`
+        });
+        return;
+      }
 
-      if (!deleted) {
+      const entry = await this.topicService.delete(id, this.getExpectedVersions(req), policy, req.user?.id, req.user);
+
+      if (!entry) {
         res.status(404).json({
           error: 'Not Found',
           message: 'Topic not found'
@@ -182,14 +316,43 @@ export class TopicController {
 
       res.json({
         success: true,
-        message: 'Topic deleted successfully'
+        data: entry.toJSON(),
+        message: 'Topic moved to trash'
       });
     } catch (_error) {
-      res.status(500).json({
-        success: false,
-        error: 'Internal Server Error',
-        message: 'Failed to delete topic'
-      });
+      if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof VersionConflictError) {
+        res.setHeader('ETag', TopicETag.format(_error.currentVersion));
+        res.status(fromHeader ? 412 : 409).json({
+          success: false,
+          error: fromHeader ? 'Precondition Failed' : 'Conflict',
+          message: _error.message,
+          currentVersion: _error.currentVersion
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else if (_error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'ForbiddenError',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to delete topic'
+        });
+      }
     }
   }
 
@@ -199,7 +362,7 @@ export class TopicController {
   async getTopicVersions(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const versions = await this.topicService.getVersions(id);
+      const versions = await this.topicService.getVersions(id, req.user);
 
       res.json({
         success: true,
@@ -232,7 +395,7 @@ export class TopicController {
         return;
       }
 
-      const topic = await this.topicService.getVersion(id, versionNumber);
+      const topic = await this.topicService.getVersion(id, versionNumber, req.user);
 
       if (!topic) {
         res.status(404).json({
@@ -256,13 +419,340 @@ export class TopicController {
     }
   }
 
+  /**
+   * Restores a previous version of a topic (creates new version)
+   */
+  async restoreTopicVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, version } = req.params;
+      const versionNumber = parseInt(version, 10);
+
+      if (isNaN(versionNumber) || versionNumber < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Version must be a positive integer'
+        });
+        return;
+      }
+
+      const restoredTopic = await this.topicService.restoreVersion(id, versionNumber, req.user);
+
+      res.json({
+        success: true,
+        data: restoredTopic.toJSON(),
+        message: `Topic version ${versionNumber} restored successfully (new version created)`
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'Forbidden',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to restore topic version'
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets the differences between two versions of a topic
+   */
+  async diffTopicVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, a, b } = req.params;
+      const fromVersion = parseInt(a, 10);
+      const toVersion = parseInt(b, 10);
+      const format = req.query.format as string | undefined;
+
+      if (isNaN(fromVersion) || fromVersion < 1 || isNaN(toVersion) || toVersion < 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Versions must be positive integers'
+        });
+        return;
+      }
+
+      if (format !== undefined && format !== 'json' && format !== 'unified') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Format must be json or unified'
+        });
+        return;
+      }
+
+      if (format === 'unified') {
+        const patch = await this.topicService.diffVersionsUnified(id, fromVersion, toVersion, req.user);
+        res.type('text/plain').send(patch);
+        return;
+      }
+
+      const diff = await this.topicService.diffVersions(id, fromVersion, toVersion, req.user);
+
+      res.json({
+        success: true,
+        data: diff
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to diff topic versions'
+        });
+      }
+    }
+  }
+
+  /**
+   * Submits the latest version of a topic for review
+   */
+  async submitTopicForReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const topic = await this.topicService.submitForReview(id);
+
+      res.json({
+        success: true,
+        data: topic.toJSON(),
+        message: 'Topic version submitted for review'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to submit topic for review'
+        });
+      }
+    }
+  }
+
+  /**
+   * Approves the latest version of a topic and publishes it
+   */
+  async approveTopic(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const comment = req.body?.comment;
+
+      if (comment !== undefined && typeof comment !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Comment must be a string'
+        });
+        return;
+      }
+
+      const topic = await this.topicService.approve(id, req.user?.id, comment);
+
+      res.json({
+        success: true,
+        data: topic.toJSON(),
+        message: 'Topic version approved and published'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to approve topic'
+        });
+      }
+    }
+  }
+
+  /**
+   * Rejects the latest version of a topic with a comment
+   */
+  async rejectTopic(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const comment = req.body?.comment;
+
+      if (comment !== undefined && typeof comment !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Comment must be a string'
+        });
+        return;
+      }
+
+      const topic = await this.topicService.reject(id, req.user?.id, comment);
+
+      res.json({
+        success: true,
+        data: topic.toJSON(),
+        message: 'Topic version rejected'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to reject topic'
+        });
+      }
+    }
+  }
+
+  /**
+   * Archives the published version of a topic
+   */
+  async archiveTopic(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const topic = await this.topicService.archive(id);
+
+      res.json({
+        success: true,
+        data: topic.toJSON(),
+        message: 'Topic archived'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to archive topic'
+        });
+      }
+    }
+  }
+
   /**
    * Gets topic tree structure
    */
   async getTopicTree(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const tree = await this.topicService.getTopicTree(id);
+      const tree = await this.topicService.getTopicTree(id, req.user);
 
       res.json({
         success: true,
@@ -301,7 +791,7 @@ export class TopicController {
         return;
       }
 
-      const path = await this.topicService.findShortestPath(from as string, to as string);
+      const path = await this.topicService.findShortestPath(from as string, to as string, req.user);
       
       res.json({
         success: true,
@@ -321,12 +811,15 @@ export class TopicController {
    * Moves a topic to a new parent
    */
   async moveTopic(req: Request, res: Response): Promise<void> {
+    const fromHeader = req.get('If-Match') !== undefined;
     try {
       const { id } = req.params;
       const { newParentId } = req.body;
+      const expectedVersions = this.getExpectedVersions(req);
 
-      const movedTopic = await this.topicService.moveTopic(id, newParentId || null);
-      
+      const movedTopic = await this.topicService.moveTopic(id, newParentId || null, req.user?.id, expectedVersions);
+
+      res.setHeader('ETag', TopicETag.format(movedTopic.version));
       res.json({
         success: true,
         data: movedTopic.toJSON(),
@@ -339,6 +832,27 @@ export class TopicController {
           error: 'Not Found',
           message: _error.message
         });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else if (_error instanceof MissingReferenceError) {
+        res.status(422).json({
+          success: false,
+          error: 'Unprocessable Entity',
+          message: _error.message,
+          field: _error.field
+        });
+      } else if (_error instanceof VersionConflictError) {
+        res.setHeader('ETag', TopicETag.format(_error.currentVersion));
+        res.status(fromHeader ? 412 : 409).json({
+          success: false,
+          error: fromHeader ? 'Precondition Failed' : 'Conflict',
+          message: _error.message,
+          currentVersion: _error.currentVersion
+        });
       } else if (_error instanceof ConflictError) {
         res.status(409).json({
           success: false,
@@ -358,9 +872,9 @@ export class TopicController {
   /**
    * Gets root topics
    */
-  async getRootTopics(_req: Request, res: Response): Promise<void> {
+  async getRootTopics(req: Request, res: Response): Promise<void> {
     try {
-      const rootTopics = await this.topicService.getRootTopics();
+      const rootTopics = await this.topicService.getRootTopics(req.user);
       
       res.json({
         success: true,
@@ -420,4 +934,107 @@ export class TopicController {
     }
   }
 
+  /**
+   * Gets the access control list of a topic
+   */
+  async getTopicAcl(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const acl = await this.topicService.getAccessControl(id);
+
+      res.json({
+        success: true,
+        data: acl
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to retrieve topic access control list'
+        });
+      }
+    }
+  }
+
+  /**
+   * Replaces the access control list of a topic
+   */
+  async updateTopicAcl(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { entries } = req.body;
+
+      if (!Array.isArray(entries)) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Entries must be an array'
+        });
+        return;
+      }
+
+      const acl = await this.topicService.setAccessControl(id, entries);
+
+      res.json({
+        success: true,
+        data: acl,
+        message: 'Topic access control list updated successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to update topic access control list'
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets the versions a write is conditional on, from the If-Match header or an expectedVersion body field
+   */
+  private getExpectedVersions(req: Request): number[] | undefined {
+    const ifMatch = req.get('If-Match');
+    if (ifMatch !== undefined) {
+      const versions = TopicETag.parseIfMatch(ifMatch);
+      return versions === '*' ? undefined : versions;
+    }
+
+    const expectedVersion = this.getBaseVersion(req);
+    return expectedVersion === undefined ? undefined : [expectedVersion];
+  }
+
+  /**
+   * Gets the version an edit was based on, from the expectedVersion body field
+   */
+  private getBaseVersion(req: Request): number | undefined {
+    const expectedVersion = req.body?.expectedVersion;
+    if (expectedVersion === undefined) {
+      return undefined;
+    }
+    if (!Number.isInteger(expectedVersion) || expectedVersion < 1) {
+      throw new ValidationError('Expected version must be a positive integer');
+    }
+    return expectedVersion;
+  }
 }
\ No newline at end of file
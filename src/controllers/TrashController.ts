@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { TrashService } from '../services/TrashService';
+import { NotFoundError, ConflictError } from '../types/errors';
+
+/**
+ * Controller for restoring and purging deleted topics
+ */
+export class TrashController {
+  private trashService: TrashService;
+
+  constructor() {
+    this.trashService = new TrashService();
+  }
+
+  /**
+   * Gets everything in the trash
+   */
+  async getTrash(_req: Request, res: Response): Promise<void> {
+    try {
+      const entries = await this.trashService.findAll();
+
+      res.json({
+        success: true,
+        data: entries.map(entry => entry.toJSON()),
+        count: entries.length
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve trash'
+      });
+    }
+  }
+
+  /**
+   * Gets the trash entry of a deleted topic
+   */
+  async getTrashEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.trashService.findById(req.params.id);
+
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: 'Trash entry not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: entry.toJSON()
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve trash entry'
+      });
+    }
+  }
+
+  /**
+   * Restores a deleted topic, optionally under another parent
+   */
+  async restoreTrashEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const parentTopicId = req.body?.parentTopicId;
+
+      if (parentTopicId !== undefined && parentTopicId !== null && typeof parentTopicId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'parentTopicId must be a string or null'
+        });
+        return;
+      }
+
+      const topic = await this.trashService.restore(req.params.id, parentTopicId, req.user?.id);
+
+      res.json({
+        success: true,
+        data: topic.toJSON(),
+        message: 'Topic restored from trash'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to restore topic'
+        });
+      }
+    }
+  }
+
+  /**
+   * Permanently removes a deleted topic
+   */
+  async purgeTrashEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.trashService.purge(req.params.id);
+
+      res.json({
+        success: true,
+        data: entry.toJSON(),
+        message: 'Topic permanently deleted'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          success: false,
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Failed to purge topic'
+        });
+      }
+    }
+  }
+
+  /**
+   * Permanently removes everything in the trash
+   */
+  async emptyTrash(_req: Request, res: Response): Promise<void> {
+    try {
+      const count = await this.trashService.empty();
+
+      res.json({
+        success: true,
+        count,
+        message: 'Trash emptied'
+      });
+    } catch (_error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to empty trash'
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { UserService } from '../services/UserService';
 import { User } from '../models/User';
-import { ValidationError, NotFoundError, UnauthorizedError, ConflictError } from '../types/errors';
+import { BulkOperationError, ValidationError, NotFoundError, UnauthorizedError, ConflictError, ForbiddenError } from '../types/errors';
 import { UserRole } from '../interfaces/IUser';
 
 /**
@@ -19,7 +19,7 @@ export class UserController {
    */
   async createUser(req: Request, res: Response): Promise<void> {
     try {
-      const { name, email, role } = req.body;
+      const { name, email, role, password } = req.body;
 
       if (!name || !email || !role) {
         res.status(400).json({
@@ -32,10 +32,11 @@ export class UserController {
       const userData = {
         name: name.trim(),
         email: email.trim().toLowerCase(),
-        role: role as UserRole
+        role: role as UserRole,
+        password
       };
 
-      const user = await this.userService.create(userData);
+      const user = await this.userService.create(userData, req.user?.id);
       
       res.status(201).json({
         success: true,
@@ -126,17 +127,18 @@ export class UserController {
   async getAllUsers(req: Request, res: Response): Promise<void> {
     try {
       const { role, search, recent } = req.query;
+      const includeInactive = req.query.includeInactive === 'true';
       let users: User[];
 
       if (role) {
-        users = await this.userService.findByRole(role as UserRole);
+        users = await this.userService.findByRole(role as UserRole, includeInactive);
       } else if (search) {
-        users = await this.userService.searchByName(search as string);
+        users = await this.userService.searchByName(search as string, includeInactive);
       } else if (recent === 'true') {
         const limit = parseInt(req.query.limit as string) || 10;
-        users = await this.userService.getRecentUsers(limit);
+        users = await this.userService.getRecentUsers(limit, includeInactive);
       } else {
-        users = await this.userService.findAll();
+        users = await this.userService.findAll(includeInactive);
       }
 
       res.json({
@@ -164,7 +166,7 @@ export class UserController {
       if (name !== undefined) updateData.name = name.trim();
       if (email !== undefined) updateData.email = email.trim().toLowerCase();
 
-      const updatedUser = await this.userService.update(id, updateData);
+      const updatedUser = await this.userService.update(id, updateData, req.user?.id);
       
       res.json({
         success: true,
@@ -225,17 +227,17 @@ export class UserController {
   async changeUserRole(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { role, requesterId } = req.body;
+      const { role } = req.body;
 
-      if (!role || !requesterId) {
+      if (!role) {
         res.status(400).json({
           error: 'Validation Error',
-          message: 'Role and requesterId are required'
+          message: 'Role is required'
         });
         return;
       }
 
-      const updatedUser = await this.userService.changeRole(id, role as UserRole, requesterId);
+      const updatedUser = await this.userService.changeRole(id, role as UserRole, req.user!.id);
       
       res.json({
         success: true,
@@ -253,6 +255,12 @@ export class UserController {
           error: 'Validation Error',
           message: error.message
         });
+      } else if (error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'ForbiddenError',
+          message: error.message
+        });
       } else {
         res.status(500).json({
           error: 'Internal Server Error',
@@ -277,15 +285,20 @@ export class UserController {
         return;
       }
 
-      const user = await this.userService.authenticate(email);
+      const user = await this.userService.authenticate(email.trim().toLowerCase(), password);
       
       if (!user) {
         throw new UnauthorizedError('Invalid email or password');
       }
+
+      const tokens = await this.userService.createSession(user);
       
       res.json({
         success: true,
-        data: user.toJSON(),
+        data: {
+          user: user.toJSON(),
+          ...tokens
+        },
         message: 'Authentication successful'
       });
     } catch (error) {
@@ -303,6 +316,140 @@ export class UserController {
     }
   }
 
+  /**
+   * Exchanges a refresh token for a new session
+   */
+  async refreshSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'Refresh token is required'
+        });
+        return;
+      }
+
+      const { user, tokens } = await this.userService.refreshSession(refreshToken);
+
+      res.json({
+        success: true,
+        data: {
+          user: user.toJSON(),
+          ...tokens
+        },
+        message: 'Session refreshed successfully'
+      });
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        res.status(401).json({
+          error: 'Authentication Error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to refresh session'
+        });
+      }
+    }
+  }
+
+  /**
+   * Ends a session by revoking its refresh token
+   */
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'Refresh token is required'
+        });
+        return;
+      }
+
+      await this.userService.revokeSession(refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        res.status(401).json({
+          error: 'Authentication Error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to log out'
+        });
+      }
+    }
+  }
+
+  /**
+   * Changes a user's password
+   */
+  async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { currentPassword, newPassword } = req.body;
+
+      if (!newPassword) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'New password is required'
+        });
+        return;
+      }
+
+      // Admins resetting another user's password do not need the current one; nobody else may reset it
+      if (req.user!.id === id) {
+        await this.userService.changePassword(id, newPassword, currentPassword);
+      } else {
+        await this.userService.resetPassword(id, newPassword, req.user!.id);
+      }
+
+      res.json({
+        success: true,
+        message: 'Password changed successfully'
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: error.message
+        });
+      } else if (error instanceof ValidationError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: error.message
+        });
+      } else if (error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'ForbiddenError',
+          message: error.message
+        });
+      } else if (error instanceof UnauthorizedError) {
+        res.status(401).json({
+          error: 'Authentication Error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to change password'
+        });
+      }
+    }
+  }
+
   /**
    * Checks email availability
    */
@@ -332,7 +479,7 @@ export class UserController {
   async getUsersByRole(req: Request, res: Response): Promise<void> {
     try {
       const { role } = req.params;
-      const users = await this.userService.findByRole(role as UserRole);
+      const users = await this.userService.findByRole(role as UserRole, req.query.includeInactive === 'true');
       
       res.json({
         success: true,
@@ -438,7 +585,7 @@ export class UserController {
   }
 
   /**
-   * Checks user permissions
+   * Checks user permissions, or lists the effective permissions when no action is given
    */
   async checkUserPermissions(req: Request, res: Response): Promise<void> {
     try {
@@ -446,9 +593,18 @@ export class UserController {
       const { action, resourceId } = req.query;
 
       if (!action) {
-        res.status(400).json({
-          error: 'Validation Error',
-          message: 'Action parameter is required'
+        const effectivePermissions = await this.userService.getEffectivePermissions(id);
+        if (!effectivePermissions) {
+          res.status(404).json({
+            error: 'Not Found',
+            message: 'User not found'
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: effectivePermissions
         });
         return;
       }
@@ -463,12 +619,13 @@ export class UserController {
         case 'update':
         case 'delete':
         case 'manage_users':
+        case 'publish':
           hasPermission = await this.userService.checkPermission(id, actionStr, resourceIdStr);
           break;
         default:
           res.status(400).json({
             error: 'Validation Error',
-            message: 'Invalid action. Supported actions: read, create, update, delete, manage_users'
+            message: 'Invalid action. Supported actions: read, create, update, delete, manage_users, publish'
           });
           return;
       }
@@ -495,7 +652,7 @@ export class UserController {
    */
   async bulkCreateUsers(req: Request, res: Response): Promise<void> {
     try {
-      const { users } = req.body;
+      const { users, atomic } = req.body;
 
       if (!Array.isArray(users) || users.length === 0) {
         res.status(400).json({
@@ -505,7 +662,15 @@ export class UserController {
         return;
       }
 
-      const createdUsers = await this.userService.bulkCreate(users);
+      if (atomic !== undefined && typeof atomic !== 'boolean') {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'atomic must be a boolean'
+        });
+        return;
+      }
+
+      const createdUsers = await this.userService.bulkCreate(users, req.user?.id, atomic);
       
       res.status(201).json({
         success: true,
@@ -514,6 +679,14 @@ export class UserController {
         message: `${createdUsers.length} users created successfully`
       });
     } catch (_error) {
+      if (_error instanceof BulkOperationError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: _error.message,
+          index: _error.index
+        });
+        return;
+      }
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'Failed to bulk create users'
@@ -546,7 +719,7 @@ export class UserController {
    */
   async importUsers(req: Request, res: Response): Promise<void> {
     try {
-      const { users } = req.body;
+      const { users, atomic } = req.body;
 
       if (!Array.isArray(users)) {
         res.status(400).json({
@@ -556,7 +729,15 @@ export class UserController {
         return;
       }
 
-      const importedUsers = await this.userService.importUsers(users);
+      if (atomic !== undefined && typeof atomic !== 'boolean') {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: 'atomic must be a boolean'
+        });
+        return;
+      }
+
+      const importedUsers = await this.userService.importUsers(users, req.user?.id, atomic);
       
       res.status(201).json({
         success: true,
@@ -565,6 +746,14 @@ export class UserController {
         message: `${importedUsers.length} users imported successfully`
       });
     } catch (_error) {
+      if (_error instanceof BulkOperationError) {
+        res.status(400).json({
+          error: 'Validation Error',
+          message: _error.message,
+          index: _error.index
+        });
+        return;
+      }
       res.status(500).json({
         error: 'Internal Server Error',
         message: 'Failed to import users'
@@ -578,21 +767,17 @@ export class UserController {
   async deactivateUser(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { requesterId } = req.body;
-
-      if (!requesterId) {
-        res.status(400).json({
-          error: 'Validation Error',
-          message: 'RequesterId is required'
-        });
-        return;
-      }
-
-      const success = await this.userService.deactivateUser(id, requesterId);
+      const { reason } = req.body || {};
+      const user = await this.userService.deactivateUser(id, req.user!.id, reason);
       
       res.json({
         success: true,
-        message: success ? 'User deactivated successfully' : 'Failed to deactivate user'
+        data: {
+          ...user.toJSON(),
+          deactivated: true,
+          reason: user.deactivationReason
+        },
+        message: 'User deactivated successfully'
       });
     } catch (_error) {
       if (_error instanceof NotFoundError) {
@@ -605,6 +790,18 @@ export class UserController {
           error: 'Validation Error',
           message: _error.message
         });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'ForbiddenError',
+          message: _error.message
+        });
       } else {
         res.status(500).json({
           error: 'Internal Server Error',
@@ -614,6 +811,46 @@ export class UserController {
     }
   }
 
+  /**
+   * Reactivates a deactivated user
+   */
+  async reactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user = await this.userService.reactivateUser(id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: user.toJSON(),
+        message: 'User reactivated successfully'
+      });
+    } catch (_error) {
+      if (_error instanceof NotFoundError) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: _error.message
+        });
+      } else if (_error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: _error.message
+        });
+      } else if (_error instanceof ForbiddenError) {
+        res.status(403).json({
+          success: false,
+          error: 'ForbiddenError',
+          message: _error.message
+        });
+      } else {
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'Failed to reactivate user'
+        });
+      }
+    }
+  }
+
   /**
    * Gets user activity summary
    */
@@ -0,0 +1,32 @@
+import { IBackupRepository } from '../interfaces/IBackup';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+import { ReferentialIntegrity } from './ReferentialIntegrity';
+
+/**
+ * Repository implementation for reading and replacing all stored data at once
+ */
+export class BackupRepository implements IBackupRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Exports every record, with all topic versions and the trash
+   */
+  async exportAll(): Promise<Record<string, any>> {
+    return this.database.exportData();
+  }
+
+  /**
+   * Replaces every record with exported data, keeping the current data if any reference in it
+   * is missing
+   */
+  async importAll(data: Record<string, any>): Promise<void> {
+    await UnitOfWork.run(async () => {
+      this.database.importData(data);
+      new ReferentialIntegrity(this.database).checkAll();
+    });
+  }
+}
\ No newline at end of file
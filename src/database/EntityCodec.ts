@@ -0,0 +1,155 @@
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Group } from '../models/Group';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { TrashEntry } from '../models/TrashEntry';
+import { TopicStatus } from '../interfaces/ITopic';
+import { ScheduledActionStatus } from '../interfaces/IScheduledAction';
+
+/**
+ * Converts entities to and from the plain records storage adapters keep
+ *
+ * Records are the entities' `toJSON` output, except that users also carry their password hash.
+ * Decoding restores each entity's timestamps and authors as recorded.
+ */
+export class EntityCodec {
+  /**
+   * Encodes a user, including the password hash that `toJSON` leaves out
+   */
+  static encodeUser(user: User): Record<string, any> {
+    return { ...user.toJSON(), passwordHash: user.getPasswordHash() };
+  }
+
+  /**
+   * Rebuilds a topic version
+   *
+   * Records from before the review workflow have no status; the latest version of such a topic
+   * is taken as published and older ones as archived.
+   */
+  static decodeTopic(versionData: Record<string, any>, isLatest: boolean = true, legacySlug?: string): Topic {
+    const topic = new Topic(
+      versionData.name,
+      versionData.content,
+      versionData.parentTopicId,
+      versionData.version,
+      versionData.id
+    );
+    topic.restoreAuditFields(versionData);
+    topic.slug = versionData.slug || legacySlug || topic.slug;
+    topic.topicCreatedAt = versionData.topicCreatedAt ? new Date(versionData.topicCreatedAt) : topic.createdAt;
+    topic.authorId = versionData.authorId;
+    topic.changeMessage = versionData.changeMessage;
+    topic.status = versionData.status || (isLatest ? TopicStatus.PUBLISHED : TopicStatus.ARCHIVED);
+    topic.reviewedBy = versionData.reviewedBy;
+    topic.reviewedAt = versionData.reviewedAt ? new Date(versionData.reviewedAt) : undefined;
+    topic.reviewComment = versionData.reviewComment;
+    topic.expiresAt = versionData.expiresAt ? new Date(versionData.expiresAt) : undefined;
+    if (versionData.publishedAt) {
+      topic.publishedAt = new Date(versionData.publishedAt);
+    } else if (!versionData.status) {
+      topic.publishedAt = topic.createdAt;
+    }
+    return topic;
+  }
+
+  /**
+   * Rebuilds a resource
+   */
+  static decodeResource(resourceData: Record<string, any>): Resource {
+    const resource = new Resource(
+      resourceData.topicId,
+      resourceData.url,
+      resourceData.description,
+      resourceData.type,
+      resourceData.id
+    );
+    resource.restoreAuditFields(resourceData);
+    return resource;
+  }
+
+  /**
+   * Rebuilds a user, including the password hash
+   */
+  static decodeUser(userData: Record<string, any>): User {
+    const user = new User(
+      userData.name,
+      userData.email,
+      userData.role,
+      userData.id
+    );
+    user.setPasswordHash(userData.passwordHash);
+    if (userData.active === false) {
+      user.deactivate(userData.deactivationReason);
+      user.deactivatedAt = userData.deactivatedAt ? new Date(userData.deactivatedAt) : user.deactivatedAt;
+    }
+    user.restoreAuditFields(userData);
+    return user;
+  }
+
+  /**
+   * Rebuilds a custom role
+   */
+  static decodeRole(roleData: Record<string, any>): Role {
+    const role = new Role(
+      roleData.name,
+      roleData.permissions,
+      roleData.description,
+      roleData.id
+    );
+    role.restoreAuditFields(roleData);
+    return role;
+  }
+
+  /**
+   * Rebuilds a group
+   */
+  static decodeGroup(groupData: Record<string, any>): Group {
+    const group = new Group(
+      groupData.name,
+      groupData.permissions,
+      groupData.description,
+      groupData.memberIds,
+      groupData.id
+    );
+    group.restoreAuditFields(groupData);
+    return group;
+  }
+
+  /**
+   * Rebuilds a scheduled action
+   */
+  static decodeScheduledAction(actionData: Record<string, any>): ScheduledAction {
+    const action = new ScheduledAction(
+      actionData.topicId,
+      actionData.version,
+      actionData.action,
+      new Date(actionData.runAt),
+      actionData.id
+    );
+    action.restoreAuditFields(actionData);
+    action.status = actionData.status || ScheduledActionStatus.PENDING;
+    action.executedAt = actionData.executedAt ? new Date(actionData.executedAt) : undefined;
+    action.error = actionData.error;
+    return action;
+  }
+
+  /**
+   * Rebuilds a trash entry
+   */
+  static decodeTrashEntry(entryData: Record<string, any>): TrashEntry {
+    const entry = new TrashEntry(
+      entryData.id,
+      entryData.name,
+      entryData.parentTopicId,
+      entryData.topicIds,
+      entryData.resourceIds,
+      entryData.policy
+    );
+    entry.restoreAuditFields(entryData);
+    entry.deletedAt = new Date(entryData.deletedAt);
+    entry.deletedBy = entryData.deletedBy;
+    return entry;
+  }
+}
\ No newline at end of file
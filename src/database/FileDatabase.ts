@@ -0,0 +1,506 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Group } from '../models/Group';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { TrashEntry } from '../models/TrashEntry';
+import { ITopicAclEntry } from '../interfaces/ITopic';
+import { InMemoryDatabase } from './InMemoryDatabase';
+import { EntityCodec } from './EntityCodec';
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const LOG_FILE = 'wal.log';
+const SNAPSHOT_FORMAT = 1;
+const DEFAULT_COMPACT_EVERY = 1000;
+
+type LoggedOperation =
+  | 'clear'
+  | 'saveTopic' | 'deleteTopic' | 'saveTopicAcl'
+  | 'saveResource' | 'deleteResource'
+  | 'saveUser' | 'deleteUser'
+  | 'saveRole' | 'deleteRole'
+  | 'saveGroup' | 'deleteGroup'
+  | 'saveScheduledAction'
+  | 'trashTopics' | 'restoreTrashEntry' | 'purgeTrashEntry'
+  | 'importData' | 'commit';
+
+/**
+ * A mutation made in a transaction, logged with the others when the transaction commits
+ */
+interface TransactionOperation {
+  op: LoggedOperation;
+  args: unknown[];
+}
+
+/**
+ * A mutation as written to the write-ahead log, with its arguments in exported form
+ */
+interface LogRecord {
+  seq: number;
+  op: LoggedOperation;
+  args: any[];
+}
+
+/**
+ * Storage adapter that serves data from memory and makes it durable in a directory of JSON files
+ *
+ * Every mutation is appended to a write-ahead log and fsynced before the call returns; it is
+ * applied first in a transaction of its own, so a mutation that fails (e.g. on a referential
+ * integrity check) is rolled back and never logged. Every so many records, and on close, the
+ * log is compacted into a snapshot in the shape of `exportData`; opening loads the snapshot
+ * and replays the log on top of it. Log records carry a checksum: a torn record at the end of
+ * the log, left by a crash mid-write, is cut off, while damage anywhere else fails the open
+ * rather than silently losing data. The mutations of a transaction are logged together as one
+ * record when it commits.
+ */
+export class FileDatabase extends InMemoryDatabase {
+  private directory: string;
+  private compactEvery: number;
+  private logFd?: number;
+  private seq = 0;
+  private recordsSinceSnapshot = 0;
+  private applying = false;
+  private transaction?: TransactionOperation[];
+
+  constructor(
+    directory: string = process.env.STORAGE_PATH || 'data',
+    compactEvery: number = parseInt(process.env.STORAGE_COMPACT_EVERY || '', 10) || DEFAULT_COMPACT_EVERY
+  ) {
+    super();
+    this.directory = directory;
+    this.compactEvery = compactEvery;
+  }
+
+  /**
+   * Loads the snapshot, replays the log and opens the log for appending
+   */
+  async open(): Promise<void> {
+    if (this.logFd !== undefined) {
+      return;
+    }
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    // Logged mutations passed the referential integrity checks when they were made
+    this.applying = true;
+    this.enforceReferences = false;
+    try {
+      this.seq = this.loadSnapshot();
+      this.replayLog();
+    } finally {
+      this.applying = false;
+      this.enforceReferences = true;
+    }
+
+    this.logFd = fs.openSync(this.logPath, 'a');
+    if (this.recordsSinceSnapshot >= this.compactEvery) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Compacts the log into a snapshot and closes it
+   */
+  async close(): Promise<void> {
+    if (this.logFd === undefined) {
+      return;
+    }
+
+    this.compact();
+    fs.closeSync(this.logFd);
+    this.logFd = undefined;
+  }
+
+  /**
+   * Writes all data to a new snapshot and empties the log
+   *
+   * The snapshot replaces the old one atomically; if the process dies before the log is
+   * emptied, the records already in the snapshot are skipped on the next replay.
+   */
+  compact(): void {
+    if (this.logFd === undefined) {
+      throw new Error('File database is not open');
+    }
+
+    const data = this.exportData();
+    const snapshot = { format: SNAPSHOT_FORMAT, seq: this.seq, checksum: checksum(JSON.stringify(data)), data };
+    const temporaryPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(temporaryPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temporaryPath, this.snapshotPath);
+    this.syncDirectory();
+
+    fs.ftruncateSync(this.logFd, 0);
+    fs.fsyncSync(this.logFd);
+    this.recordsSinceSnapshot = 0;
+  }
+
+  begin(): void {
+    super.begin();
+    this.transaction = [];
+  }
+
+  /**
+   * Logs the mutations of the transaction as one record, then keeps them
+   */
+  commit(): void {
+    const operations = this.transaction || [];
+    if (operations.length > 0) {
+      try {
+        this.append({ seq: this.seq + 1, op: 'commit', args: operations });
+      } catch (error) {
+        this.rollback();
+        throw error;
+      }
+    }
+    this.transaction = undefined;
+    super.commit();
+
+    if (this.recordsSinceSnapshot >= this.compactEvery) {
+      this.compact();
+    }
+  }
+
+  rollback(): void {
+    this.transaction = undefined;
+    super.rollback();
+  }
+
+  clear(): void {
+    this.record('clear', [], () => super.clear());
+  }
+
+  saveTopic(topic: Topic): Topic {
+    return this.record('saveTopic', [topic.toJSON()], () => super.saveTopic(topic));
+  }
+
+  deleteTopic(id: string): boolean {
+    return this.record('deleteTopic', [id], () => super.deleteTopic(id));
+  }
+
+  saveTopicAcl(topicId: string, entries: ITopicAclEntry[]): ITopicAclEntry[] {
+    return this.record('saveTopicAcl', [topicId, entries], () => super.saveTopicAcl(topicId, entries));
+  }
+
+  saveResource(resource: Resource): Resource {
+    return this.record('saveResource', [resource.toJSON()], () => super.saveResource(resource));
+  }
+
+  deleteResource(id: string): boolean {
+    return this.record('deleteResource', [id], () => super.deleteResource(id));
+  }
+
+  saveUser(user: User): User {
+    return this.record('saveUser', [EntityCodec.encodeUser(user)], () => super.saveUser(user));
+  }
+
+  deleteUser(id: string): boolean {
+    return this.record('deleteUser', [id], () => super.deleteUser(id));
+  }
+
+  saveRole(role: Role): Role {
+    return this.record('saveRole', [role.toJSON()], () => super.saveRole(role));
+  }
+
+  deleteRole(id: string): boolean {
+    return this.record('deleteRole', [id], () => super.deleteRole(id));
+  }
+
+  saveGroup(group: Group): Group {
+    return this.record('saveGroup', [group.toJSON()], () => super.saveGroup(group));
+  }
+
+  deleteGroup(id: string): boolean {
+    return this.record('deleteGroup', [id], () => super.deleteGroup(id));
+  }
+
+  saveScheduledAction(action: ScheduledAction): ScheduledAction {
+    return this.record('saveScheduledAction', [action.toJSON()], () => super.saveScheduledAction(action));
+  }
+
+  trashTopics(entry: TrashEntry, topics: Topic[] = [], resources: Resource[] = []): TrashEntry {
+    return this.record(
+      'trashTopics',
+      [entry.toJSON(), topics.map(topic => topic.toJSON()), resources.map(resource => resource.toJSON())],
+      () => super.trashTopics(entry, topics, resources)
+    );
+  }
+
+  restoreTrashEntry(id: string): boolean {
+    return this.record('restoreTrashEntry', [id], () => super.restoreTrashEntry(id));
+  }
+
+  purgeTrashEntry(id: string): boolean {
+    return this.record('purgeTrashEntry', [id], () => super.purgeTrashEntry(id));
+  }
+
+  /**
+   * Replaces all data and writes it straight to a new snapshot, or logs it with the
+   * transaction it is part of
+   */
+  importData(data: Record<string, any>): void {
+    if (this.applying) {
+      super.importData(data);
+      return;
+    }
+    if (this.transaction) {
+      this.record('importData', [data], () => super.importData(data));
+      return;
+    }
+
+    this.applying = true;
+    try {
+      super.importData(data);
+    } finally {
+      this.applying = false;
+    }
+    this.compact();
+  }
+
+  /**
+   * Applies a mutation, then logs it
+   *
+   * Mutations made while applying another one (or while replaying) are part of it and are not
+   * logged separately. In a transaction the mutation is logged on commit; otherwise it is
+   * rolled back if it fails or cannot be logged.
+   */
+  private record<T>(op: LoggedOperation, args: unknown[], apply: () => T): T {
+    if (this.applying) {
+      return apply();
+    }
+
+    if (this.transaction) {
+      this.applying = true;
+      try {
+        const result = apply();
+        this.transaction.push({ op, args });
+        return result;
+      } finally {
+        this.applying = false;
+      }
+    }
+
+    super.begin();
+    this.applying = true;
+    let result: T;
+    try {
+      result = apply();
+      this.append({ seq: this.seq + 1, op, args });
+    } catch (error) {
+      super.rollback();
+      throw error;
+    } finally {
+      this.applying = false;
+    }
+    super.commit();
+
+    if (this.recordsSinceSnapshot >= this.compactEvery) {
+      this.compact();
+    }
+    return result;
+  }
+
+  /**
+   * Appends a record to the log and flushes it to disk
+   */
+  private append(record: LogRecord): void {
+    if (this.logFd === undefined) {
+      throw new Error('File database is not open');
+    }
+
+    const payload = JSON.stringify(record);
+    fs.writeSync(this.logFd, `${checksum(payload)} ${payload}\n`);
+    fs.fsyncSync(this.logFd);
+    this.seq = record.seq;
+    this.recordsSinceSnapshot++;
+  }
+
+  /**
+   * Loads the snapshot, if there is one, and returns the sequence number it covers
+   */
+  private loadSnapshot(): number {
+    if (!fs.existsSync(this.snapshotPath)) {
+      return 0;
+    }
+
+    let snapshot: { format: number; seq: number; checksum: string; data: Record<string, any> };
+    try {
+      snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+    } catch (_error) {
+      throw new Error(`Snapshot ${this.snapshotPath} is corrupt: it is not valid JSON`);
+    }
+    if (snapshot.format !== SNAPSHOT_FORMAT) {
+      throw new Error(`Snapshot ${this.snapshotPath} has unsupported format ${snapshot.format}`);
+    }
+    if (snapshot.checksum !== checksum(JSON.stringify(snapshot.data))) {
+      throw new Error(`Snapshot ${this.snapshotPath} is corrupt: checksum mismatch`);
+    }
+
+    this.importData(snapshot.data);
+    return snapshot.seq;
+  }
+
+  /**
+   * Applies the log records written after the snapshot, cutting off a torn record at the end
+   */
+  private replayLog(): void {
+    if (!fs.existsSync(this.logPath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.logPath, 'utf8').split('\n');
+    let offset = 0;
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      if (line === '') {
+        offset += 1;
+        continue;
+      }
+
+      const record = parseRecord(line);
+      if (!record) {
+        if (lines.slice(index + 1).every(rest => rest === '')) {
+          console.warn(`⚠️ Dropping torn record at byte ${offset} of ${this.logPath}`);
+          fs.truncateSync(this.logPath, offset);
+          return;
+        }
+        throw new Error(`Write-ahead log ${this.logPath} is corrupt at byte ${offset}`);
+      }
+
+      if (record.seq > this.seq) {
+        if (record.seq !== this.seq + 1) {
+          throw new Error(`Write-ahead log ${this.logPath} is missing records ${this.seq + 1} to ${record.seq - 1}`);
+        }
+        this.replay(record);
+        this.seq = record.seq;
+        this.recordsSinceSnapshot++;
+      }
+      offset += Buffer.byteLength(line) + 1;
+    }
+  }
+
+  /**
+   * Applies a logged mutation
+   */
+  private replay(record: LogRecord): void {
+    const [first, second, third] = record.args;
+    switch (record.op) {
+      case 'clear':
+        this.clear();
+        return;
+      case 'saveTopic':
+        this.saveTopic(EntityCodec.decodeTopic(first));
+        return;
+      case 'deleteTopic':
+        this.deleteTopic(first);
+        return;
+      case 'saveTopicAcl':
+        this.saveTopicAcl(first, second);
+        return;
+      case 'saveResource':
+        this.saveResource(EntityCodec.decodeResource(first));
+        return;
+      case 'deleteResource':
+        this.deleteResource(first);
+        return;
+      case 'saveUser':
+        this.saveUser(EntityCodec.decodeUser(first));
+        return;
+      case 'deleteUser':
+        this.deleteUser(first);
+        return;
+      case 'saveRole':
+        this.saveRole(EntityCodec.decodeRole(first));
+        return;
+      case 'deleteRole':
+        this.deleteRole(first);
+        return;
+      case 'saveGroup':
+        this.saveGroup(EntityCodec.decodeGroup(first));
+        return;
+      case 'deleteGroup':
+        this.deleteGroup(first);
+        return;
+      case 'saveScheduledAction':
+        this.saveScheduledAction(EntityCodec.decodeScheduledAction(first));
+        return;
+      case 'trashTopics':
+        this.trashTopics(
+          EntityCodec.decodeTrashEntry(first),
+          second.map((topicData: Record<string, unknown>) => EntityCodec.decodeTopic(topicData)),
+          third.map((resourceData: Record<string, unknown>) => EntityCodec.decodeResource(resourceData))
+        );
+        return;
+      case 'restoreTrashEntry':
+        this.restoreTrashEntry(first);
+        return;
+      case 'purgeTrashEntry':
+        this.purgeTrashEntry(first);
+        return;
+      case 'importData':
+        this.importData(first);
+        return;
+      case 'commit':
+        for (const operation of record.args as TransactionOperation[]) {
+          this.replay({ seq: record.seq, op: operation.op, args: operation.args });
+        }
+        return;
+      default:
+        throw new Error(`Write-ahead log ${this.logPath} has unknown operation ${record.op}`);
+    }
+  }
+
+  /**
+   * Flushes the directory entry of a renamed file (not supported on Windows)
+   */
+  private syncDirectory(): void {
+    if (process.platform === 'win32') {
+      return;
+    }
+    const fd = fs.openSync(this.directory, 'r');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private get snapshotPath(): string {
+    return path.join(this.directory, SNAPSHOT_FILE);
+  }
+
+  private get logPath(): string {
+    return path.join(this.directory, LOG_FILE);
+  }
+}
+
+/**
+ * Computes the checksum stored with log records and snapshots
+ */
+function checksum(payload: string): string {
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Parses a `<checksum> <record>` log line, or returns null if it is damaged
+ */
+function parseRecord(line: string): LogRecord | null {
+  const separator = line.indexOf(' ');
+  const payload = line.slice(separator + 1);
+  if (separator < 0 || line.slice(0, separator) !== checksum(payload)) {
+    return null;
+  }
+  try {
+    return JSON.parse(payload) as LogRecord;
+  } catch (_error) {
+    return null;
+  }
+}
\ No newline at end of file
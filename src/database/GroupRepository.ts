@@ -0,0 +1,77 @@
+import { IGroupRepository } from '../interfaces/IGroup';
+import { Group } from '../models/Group';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+
+/**
+ * Repository implementation for Group entity
+ */
+export class GroupRepository implements IGroupRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Saves a group to the database
+   */
+  async save(group: Group): Promise<Group> {
+    return await UnitOfWork.run(async () => {
+      const isValid = await group.validate();
+      if (!isValid) {
+        const errors = group.getValidationErrors();
+        throw new Error(`Group validation failed: ${errors.join(', ')}`);
+      }
+
+      // Check for name uniqueness (excluding the current group if updating)
+      const existingGroup = await this.findByName(group.name);
+      if (existingGroup && existingGroup.id !== group.id) {
+        throw new Error(`Group with name ${group.name} already exists`);
+      }
+
+      return this.database.saveGroup(group);
+    });
+  }
+
+  /**
+   * Finds a group by ID
+   */
+  async findById(id: string): Promise<Group | null> {
+    return this.database.findGroupById(id);
+  }
+
+  /**
+   * Finds a group by name (case-insensitive)
+   */
+  async findByName(name: string): Promise<Group | null> {
+    return this.database.findGroupByName(name);
+  }
+
+  /**
+   * Finds all groups a user belongs to
+   */
+  async findByMember(userId: string): Promise<Group[]> {
+    return this.database.findGroupsByMember(userId);
+  }
+
+  /**
+   * Resolves a user's groups without awaiting, for permission checks made synchronously
+   */
+  resolveForMember(userId: string): Group[] {
+    return this.database.findGroupsByMember(userId);
+  }
+
+  /**
+   * Finds all groups
+   */
+  async findAll(): Promise<Group[]> {
+    return this.database.findAllGroups();
+  }
+
+  /**
+   * Deletes a group
+   */
+  async delete(id: string): Promise<boolean> {
+    return await UnitOfWork.run(async () => this.database.deleteGroup(id));
+  }
+}
\ No newline at end of file
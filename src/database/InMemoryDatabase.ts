@@ -1,18 +1,49 @@
 import { Topic } from '../models/Topic';
 import { Resource } from '../models/Resource';
 import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Group } from '../models/Group';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { TrashEntry } from '../models/TrashEntry';
+import { ITopicAclEntry } from '../interfaces/ITopic';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { TopicSlug } from '../utils/TopicSlug';
+import { EntityCodec } from './EntityCodec';
+import { SecondaryIndex } from './SecondaryIndex';
+import { ReferentialIntegrity } from './ReferentialIntegrity';
 
 /**
  * In-memory database implementation
+ *
+ * The default storage adapter. Data lives only as long as the process. Lookups by parent
+ * topic, by topic and type of resource and by user role go through secondary indexes that
+ * every write keeps up to date. Writes and deletes enforce the references between records
+ * described in ReferentialIntegrity.
  */
-export class InMemoryDatabase {
+export class InMemoryDatabase implements IStorageAdapter {
   private static instance: InMemoryDatabase;
   private topics: Map<string, Topic[]> = new Map(); // id -> versions array
   private resources: Map<string, Resource> = new Map(); // id -> resource
   private users: Map<string, User> = new Map(); // id -> user
   private usersByEmail: Map<string, User> = new Map(); // email -> user
+  private topicAcls: Map<string, ITopicAclEntry[]> = new Map(); // topic id -> access control entries
+  private roles: Map<string, Role> = new Map(); // id -> custom role
+  private groups: Map<string, Group> = new Map(); // id -> group
+  private scheduledActions: Map<string, ScheduledAction> = new Map(); // id -> scheduled action
+  private trash: Map<string, TrashEntry> = new Map(); // deleted topic id -> trash entry
+  private trashedTopics: Map<string, Topic[]> = new Map(); // id -> versions array of a trashed topic
+  private trashedResources: Map<string, Resource> = new Map(); // id -> resource of a trashed topic
+  private topicsByParent: SecondaryIndex<string | undefined> = new SecondaryIndex(); // parent id -> ids of live topics
+  private resourcesByTopic: SecondaryIndex<string> = new SecondaryIndex(); // topic id -> ids of live resources
+  private resourcesByType: SecondaryIndex<string> = new SecondaryIndex(); // type -> ids of live resources
+  private usersByRole: SecondaryIndex<string> = new SecondaryIndex(); // role -> user ids
+  private topicIdsBySlug: Map<string, string> = new Map(); // slug of any version -> id of the live or trashed topic
+  private slugsByTopic: Map<string, string[]> = new Map(); // live or trashed topic id -> slugs of its versions
+  private undoLog?: (() => void)[]; // undo steps of the open transaction, oldest first
+  private integrity: ReferentialIntegrity = new ReferentialIntegrity(this);
+  protected enforceReferences = true; // off while loading data that passed the checks before
 
-  private constructor() {}
+  protected constructor() {}
 
   /**
    * Singleton pattern implementation
@@ -24,14 +55,73 @@ export class InMemoryDatabase {
     return InMemoryDatabase.instance;
   }
 
+  /**
+   * Opens the database; in-memory data needs no loading
+   */
+  async open(): Promise<void> {}
+
+  /**
+   * Closes the database; in-memory data needs no flushing
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * Opens a transaction; until it is committed every change is recorded so it can be rolled back
+   */
+  begin(): void {
+    if (this.undoLog) {
+      throw new Error('A transaction is already open');
+    }
+    this.undoLog = [];
+  }
+
+  /**
+   * Keeps the changes made since the transaction was opened
+   */
+  commit(): void {
+    if (!this.undoLog) {
+      throw new Error('No transaction is open');
+    }
+    this.undoLog = undefined;
+  }
+
+  /**
+   * Undoes the changes made since the transaction was opened, newest first
+   *
+   * Records are put back as they were stored; changes made to a stored entity object itself
+   * rather than through the database are not undone.
+   */
+  rollback(): void {
+    if (!this.undoLog) {
+      throw new Error('No transaction is open');
+    }
+    const undoLog = this.undoLog;
+    this.undoLog = undefined;
+    for (const undo of undoLog.reverse()) {
+      undo();
+    }
+    this.rebuildIndexes();
+  }
+
   /**
    * Clears all data (useful for testing)
    */
   clear(): void {
+    for (const map of this.allMaps()) {
+      this.rememberAll(map);
+    }
     this.topics.clear();
     this.resources.clear();
     this.users.clear();
     this.usersByEmail.clear();
+    this.topicAcls.clear();
+    this.roles.clear();
+    this.groups.clear();
+    this.scheduledActions.clear();
+    this.trash.clear();
+    this.trashedTopics.clear();
+    this.trashedResources.clear();
+    this.rebuildIndexes();
   }
 
   // Topic operations
@@ -39,7 +129,9 @@ export class InMemoryDatabase {
    * Saves a topic (creates new version if topic exists)
    */
   saveTopic(topic: Topic): Topic {
-    const versions = this.topics.get(topic.id) || [];
+    this.checkReferences(integrity => integrity.checkTopic(topic));
+    this.remember(this.topics, topic.id);
+    const versions = [...(this.topics.get(topic.id) || [])];
     
     // Check if this version already exists
     const existingVersionIndex = versions.findIndex(v => v.version === topic.version);
@@ -55,6 +147,7 @@ export class InMemoryDatabase {
     }
     
     this.topics.set(topic.id, versions);
+    this.indexTopic(topic.id);
     return topic;
   }
 
@@ -82,6 +175,36 @@ export class InMemoryDatabase {
     return this.topics.get(id) || [];
   }
 
+  /**
+   * Finds the id of the live topic a slug belongs to, in its latest or any earlier version
+   */
+  findTopicIdBySlug(slug: string): string | null {
+    const id = this.topicIdsBySlug.get(slug);
+    return id !== undefined && this.topics.has(id) ? id : null;
+  }
+
+  /**
+   * Checks if a slug belongs to a topic other than the given one
+   *
+   * Slugs stay taken as long as any version of a topic carries them, including topics in the
+   * trash, so old links keep resolving and restored topics never clash.
+   */
+  isTopicSlugTaken(slug: string, topicId?: string): boolean {
+    const id = this.topicIdsBySlug.get(slug);
+    return id !== undefined && id !== topicId;
+  }
+
+  /**
+   * Finds a slug not taken by another topic, appending -2, -3, ... to the base slug as needed
+   */
+  findFreeTopicSlug(baseSlug: string, topicId?: string): string {
+    let slug = baseSlug;
+    for (let counter = 2; this.isTopicSlugTaken(slug, topicId); counter++) {
+      slug = TopicSlug.withSuffix(baseSlug, counter);
+    }
+    return slug;
+  }
+
   /**
    * Finds all topics (latest versions only)
    */
@@ -101,15 +224,48 @@ export class InMemoryDatabase {
    * Finds topics by parent ID (latest versions only)
    */
   findTopicsByParentId(parentId: string): Topic[] {
-    const allTopics = this.findAllTopics();
-    return allTopics.filter(topic => topic.parentTopicId === parentId);
+    return this.topicsByParent.get(parentId).map(id => this.findTopicById(id) as Topic);
   }
 
   /**
-   * Deletes all versions of a topic
+   * Deletes all versions of a topic with its resources, unless it has subtopics
    */
   deleteTopic(id: string): boolean {
-    return this.topics.delete(id);
+    if (this.topics.has(id)) {
+      this.checkReferences(integrity => integrity.checkNoSubtopics([id]));
+    }
+    for (const resourceId of this.resourcesByTopic.get(id)) {
+      this.remember(this.resources, resourceId);
+      this.resources.delete(resourceId);
+      this.indexResource(resourceId);
+    }
+    this.remember(this.topicAcls, id);
+    this.remember(this.topics, id);
+    this.topicAcls.delete(id);
+    const deleted = this.topics.delete(id);
+    this.indexTopic(id);
+    return deleted;
+  }
+
+  // Topic access control operations
+  /**
+   * Replaces the access control entries attached to a topic
+   */
+  saveTopicAcl(topicId: string, entries: ITopicAclEntry[]): ITopicAclEntry[] {
+    this.remember(this.topicAcls, topicId);
+    if (entries.length === 0) {
+      this.topicAcls.delete(topicId);
+    } else {
+      this.topicAcls.set(topicId, entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Finds the access control entries attached directly to a topic
+   */
+  findTopicAcl(topicId: string): ITopicAclEntry[] {
+    return this.topicAcls.get(topicId) || [];
   }
 
   // Resource operations
@@ -117,7 +273,10 @@ export class InMemoryDatabase {
    * Saves a resource
    */
   saveResource(resource: Resource): Resource {
+    this.checkReferences(integrity => integrity.checkResource(resource));
+    this.remember(this.resources, resource.id);
     this.resources.set(resource.id, resource);
+    this.indexResource(resource.id);
     return resource;
   }
 
@@ -139,15 +298,24 @@ export class InMemoryDatabase {
    * Finds resources by topic ID
    */
   findResourcesByTopicId(topicId: string): Resource[] {
-    return Array.from(this.resources.values())
-      .filter(resource => resource.topicId === topicId);
+    return this.resourcesByTopic.get(topicId).map(id => this.resources.get(id) as Resource);
+  }
+
+  /**
+   * Finds resources by type
+   */
+  findResourcesByType(type: string): Resource[] {
+    return this.resourcesByType.get(type).map(id => this.resources.get(id) as Resource);
   }
 
   /**
    * Deletes a resource
    */
   deleteResource(id: string): boolean {
-    return this.resources.delete(id);
+    this.remember(this.resources, id);
+    const deleted = this.resources.delete(id);
+    this.indexResource(id);
+    return deleted;
   }
 
   // User operations
@@ -157,12 +325,16 @@ export class InMemoryDatabase {
   saveUser(user: User): User {
     // Remove old email mapping if email changed
     const existingUser = this.users.get(user.id);
+    this.remember(this.users, user.id);
+    this.remember(this.usersByEmail, user.email);
     if (existingUser && existingUser.email !== user.email) {
+      this.remember(this.usersByEmail, existingUser.email);
       this.usersByEmail.delete(existingUser.email);
     }
     
     this.users.set(user.id, user);
     this.usersByEmail.set(user.email, user);
+    this.usersByRole.set(user.id, user.role);
     return user;
   }
 
@@ -180,6 +352,13 @@ export class InMemoryDatabase {
     return this.usersByEmail.get(email) || null;
   }
 
+  /**
+   * Finds users by role
+   */
+  findUsersByRole(role: string): User[] {
+    return this.usersByRole.get(role).map(id => this.users.get(id) as User);
+  }
+
   /**
    * Finds all users
    */
@@ -188,17 +367,274 @@ export class InMemoryDatabase {
   }
 
   /**
-   * Deletes a user
+   * Deletes a user and removes them from the groups they belong to
    */
   deleteUser(id: string): boolean {
     const user = this.users.get(id);
     if (user) {
+      for (const group of this.findGroupsByMember(id)) {
+        const updated = group.clone();
+        updated.removeMember(id);
+        this.remember(this.groups, group.id);
+        this.groups.set(group.id, updated);
+      }
+      this.remember(this.users, id);
+      this.remember(this.usersByEmail, user.email);
       this.usersByEmail.delete(user.email);
+      this.usersByRole.delete(id);
       return this.users.delete(id);
     }
     return false;
   }
 
+  // Role operations
+  /**
+   * Saves a custom role
+   */
+  saveRole(role: Role): Role {
+    this.remember(this.roles, role.id);
+    this.roles.set(role.id, role);
+    return role;
+  }
+
+  /**
+   * Finds a custom role by ID
+   */
+  findRoleById(id: string): Role | null {
+    return this.roles.get(id) || null;
+  }
+
+  /**
+   * Finds a custom role by name (case-insensitive)
+   */
+  findRoleByName(name: string): Role | null {
+    const searchName = name.toLowerCase();
+    for (const role of this.roles.values()) {
+      if (role.name.toLowerCase() === searchName) {
+        return role;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds all custom roles
+   */
+  findAllRoles(): Role[] {
+    return Array.from(this.roles.values());
+  }
+
+  /**
+   * Deletes a custom role
+   */
+  deleteRole(id: string): boolean {
+    this.remember(this.roles, id);
+    return this.roles.delete(id);
+  }
+
+  // Group operations
+  /**
+   * Saves a group
+   */
+  saveGroup(group: Group): Group {
+    this.checkReferences(integrity => integrity.checkGroup(group));
+    this.remember(this.groups, group.id);
+    this.groups.set(group.id, group);
+    return group;
+  }
+
+  /**
+   * Finds a group by ID
+   */
+  findGroupById(id: string): Group | null {
+    return this.groups.get(id) || null;
+  }
+
+  /**
+   * Finds a group by name (case-insensitive)
+   */
+  findGroupByName(name: string): Group | null {
+    const searchName = name.toLowerCase();
+    for (const group of this.groups.values()) {
+      if (group.name.toLowerCase() === searchName) {
+        return group;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds all groups a user belongs to
+   */
+  findGroupsByMember(userId: string): Group[] {
+    return Array.from(this.groups.values()).filter(group => group.hasMember(userId));
+  }
+
+  /**
+   * Finds all groups
+   */
+  findAllGroups(): Group[] {
+    return Array.from(this.groups.values());
+  }
+
+  /**
+   * Deletes a group
+   */
+  deleteGroup(id: string): boolean {
+    this.remember(this.groups, id);
+    return this.groups.delete(id);
+  }
+
+  // Scheduled action operations
+  /**
+   * Saves a scheduled action
+   */
+  saveScheduledAction(action: ScheduledAction): ScheduledAction {
+    this.remember(this.scheduledActions, action.id);
+    this.scheduledActions.set(action.id, action);
+    return action;
+  }
+
+  /**
+   * Finds a scheduled action by ID
+   */
+  findScheduledActionById(id: string): ScheduledAction | null {
+    return this.scheduledActions.get(id) || null;
+  }
+
+  /**
+   * Finds all scheduled actions
+   */
+  findAllScheduledActions(): ScheduledAction[] {
+    return Array.from(this.scheduledActions.values());
+  }
+
+  // Trash operations
+  /**
+   * Moves the topics and resources of a trash entry out of the live data in one step, first
+   * saving the given topic versions and resources (e.g. children re-parented away from it)
+   *
+   * Subtopics and resources of the trashed topics must be trashed along with them or moved away.
+   */
+  trashTopics(entry: TrashEntry, topics: Topic[] = [], resources: Resource[] = []): TrashEntry {
+    for (const topic of topics) {
+      this.saveTopic(topic);
+    }
+    for (const resource of resources) {
+      this.saveResource(resource);
+    }
+    this.checkReferences(integrity => {
+      integrity.checkNoSubtopics(entry.topicIds);
+      integrity.checkNoResources(entry.topicIds, entry.resourceIds);
+    });
+
+    for (const topicId of entry.topicIds) {
+      const versions = this.topics.get(topicId);
+      if (versions) {
+        this.remember(this.topics, topicId);
+        this.remember(this.trashedTopics, topicId);
+        this.trashedTopics.set(topicId, versions);
+        this.topics.delete(topicId);
+        this.indexTopic(topicId);
+      }
+    }
+    for (const resourceId of entry.resourceIds) {
+      const resource = this.resources.get(resourceId);
+      if (resource) {
+        this.remember(this.resources, resourceId);
+        this.remember(this.trashedResources, resourceId);
+        this.trashedResources.set(resourceId, resource);
+        this.resources.delete(resourceId);
+        this.indexResource(resourceId);
+      }
+    }
+
+    this.remember(this.trash, entry.id);
+    this.trash.set(entry.id, entry);
+    return entry;
+  }
+
+  /**
+   * Finds a trash entry by the id of its deleted topic
+   */
+  findTrashEntry(id: string): TrashEntry | null {
+    return this.trash.get(id) || null;
+  }
+
+  /**
+   * Finds all trash entries
+   */
+  findAllTrashEntries(): TrashEntry[] {
+    return Array.from(this.trash.values());
+  }
+
+  /**
+   * Finds the latest version of a trashed topic
+   */
+  findTrashedTopic(id: string): Topic | null {
+    const versions = this.trashedTopics.get(id);
+    return versions && versions.length > 0 ? versions[versions.length - 1] : null;
+  }
+
+  /**
+   * Moves the topics and resources of a trash entry back into the live data in one step
+   */
+  restoreTrashEntry(id: string): boolean {
+    const entry = this.trash.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    for (const topicId of entry.topicIds) {
+      const versions = this.trashedTopics.get(topicId);
+      if (versions) {
+        this.remember(this.topics, topicId);
+        this.remember(this.trashedTopics, topicId);
+        this.topics.set(topicId, versions);
+        this.trashedTopics.delete(topicId);
+        this.indexTopic(topicId);
+      }
+    }
+    for (const resourceId of entry.resourceIds) {
+      const resource = this.trashedResources.get(resourceId);
+      if (resource) {
+        this.remember(this.resources, resourceId);
+        this.remember(this.trashedResources, resourceId);
+        this.resources.set(resourceId, resource);
+        this.trashedResources.delete(resourceId);
+        this.indexResource(resourceId);
+      }
+    }
+
+    this.remember(this.trash, id);
+    return this.trash.delete(id);
+  }
+
+  /**
+   * Permanently removes a trash entry with its topics, their access control lists and its resources
+   */
+  purgeTrashEntry(id: string): boolean {
+    const entry = this.trash.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    for (const topicId of entry.topicIds) {
+      this.remember(this.trashedTopics, topicId);
+      this.remember(this.topicAcls, topicId);
+      this.trashedTopics.delete(topicId);
+      this.topicAcls.delete(topicId);
+      this.indexTopic(topicId);
+    }
+    for (const resourceId of entry.resourceIds) {
+      this.remember(this.trashedResources, resourceId);
+      this.trashedResources.delete(resourceId);
+    }
+
+    this.remember(this.trash, id);
+    return this.trash.delete(id);
+  }
+
   // Utility methods
   /**
    * Gets database statistics
@@ -213,7 +649,11 @@ export class InMemoryDatabase {
       uniqueTopics: this.topics.size,
       totalTopicVersions,
       resources: this.resources.size,
-      users: this.users.size
+      users: this.users.size,
+      roles: this.roles.size,
+      groups: this.groups.size,
+      scheduledActions: this.scheduledActions.size,
+      trashedTopics: this.trashedTopics.size
     };
   }
 
@@ -229,7 +669,16 @@ export class InMemoryDatabase {
     return {
       topics: topicsData,
       resources: Array.from(this.resources.values()).map(r => r.toJSON()),
-      users: Array.from(this.users.values()).map(u => u.toJSON())
+      users: Array.from(this.users.values()).map(u => EntityCodec.encodeUser(u)),
+      topicAcls: Object.fromEntries(this.topicAcls),
+      roles: Array.from(this.roles.values()).map(r => r.toJSON()),
+      groups: Array.from(this.groups.values()).map(g => g.toJSON()),
+      scheduledActions: Array.from(this.scheduledActions.values()).map(a => a.toJSON()),
+      trash: {
+        entries: Array.from(this.trash.values()).map(e => e.toJSON()),
+        topics: Object.fromEntries(Array.from(this.trashedTopics.entries()).map(([id, versions]) => [id, versions.map(topic => topic.toJSON())])),
+        resources: Array.from(this.trashedResources.values()).map(r => r.toJSON())
+      }
     };
   }
 
@@ -242,47 +691,199 @@ export class InMemoryDatabase {
     // Import topics
     if (data.topics) {
       for (const [id, versions] of Object.entries(data.topics as Record<string, Record<string, any>[]>)) {
-        const topicVersions: Topic[] = [];
-        for (const versionData of versions) {
-          const topic = new Topic(
-            versionData.name,
-            versionData.content,
-            versionData.parentTopicId,
-            versionData.version,
-            versionData.id
-          );
-          topicVersions.push(topic);
-        }
-        this.topics.set(id, topicVersions);
+        this.topics.set(id, this.importTopicVersions(id, versions));
+        this.indexTopic(id);
       }
     }
     
     // Import resources
     if (data.resources) {
       for (const resourceData of data.resources) {
-        const resource = new Resource(
-          resourceData.topicId,
-          resourceData.url,
-          resourceData.description,
-          resourceData.type,
-          resourceData.id
-        );
+        const resource = EntityCodec.decodeResource(resourceData);
         this.resources.set(resource.id, resource);
       }
     }
     
+    // Import topic access control lists
+    if (data.topicAcls) {
+      for (const [topicId, entries] of Object.entries(data.topicAcls as Record<string, ITopicAclEntry[]>)) {
+        this.topicAcls.set(topicId, entries);
+      }
+    }
+    
+    // Import custom roles
+    if (data.roles) {
+      for (const roleData of data.roles) {
+        const role = EntityCodec.decodeRole(roleData);
+        this.roles.set(role.id, role);
+      }
+    }
+    
+    // Import groups
+    if (data.groups) {
+      for (const groupData of data.groups) {
+        const group = EntityCodec.decodeGroup(groupData);
+        this.groups.set(group.id, group);
+      }
+    }
+
+    // Import the trash
+    if (data.trash) {
+      for (const entryData of data.trash.entries || []) {
+        const entry = EntityCodec.decodeTrashEntry(entryData);
+        this.trash.set(entry.id, entry);
+      }
+      for (const [id, versions] of Object.entries((data.trash.topics || {}) as Record<string, Record<string, any>[]>)) {
+        this.trashedTopics.set(id, this.importTopicVersions(id, versions));
+        this.indexTopic(id);
+      }
+      for (const resourceData of data.trash.resources || []) {
+        const resource = EntityCodec.decodeResource(resourceData);
+        this.trashedResources.set(resource.id, resource);
+      }
+    }
+
+    // Import scheduled actions
+    if (data.scheduledActions) {
+      for (const actionData of data.scheduledActions) {
+        const action = EntityCodec.decodeScheduledAction(actionData);
+        this.scheduledActions.set(action.id, action);
+      }
+    }
+    
     // Import users
     if (data.users) {
       for (const userData of data.users) {
-        const user = new User(
-          userData.name,
-          userData.email,
-          userData.role,
-          userData.id
-        );
+        const user = EntityCodec.decodeUser(userData);
         this.users.set(user.id, user);
         this.usersByEmail.set(user.email, user);
       }
     }
+
+    this.rebuildIndexes();
+  }
+
+  /**
+   * Records how to put back the current value of a key, if a transaction is open
+   */
+  private remember<K, V>(map: Map<K, V>, key: K): void {
+    if (!this.undoLog) {
+      return;
+    }
+    const existed = map.has(key);
+    const value = map.get(key) as V;
+    this.undoLog.push(() => {
+      if (existed) {
+        map.set(key, value);
+      } else {
+        map.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Records how to put back the whole content of a map, if a transaction is open
+   */
+  private rememberAll<K, V>(map: Map<K, V>): void {
+    if (!this.undoLog) {
+      return;
+    }
+    const entries = Array.from(map.entries());
+    this.undoLog.push(() => {
+      map.clear();
+      for (const [key, value] of entries) {
+        map.set(key, value);
+      }
+    });
+  }
+
+  /**
+   * Runs a referential integrity check, unless checks are switched off
+   */
+  private checkReferences(check: (integrity: ReferentialIntegrity) => void): void {
+    if (this.enforceReferences) {
+      check(this.integrity);
+    }
+  }
+
+  /**
+   * Indexes the latest version of a topic by its parent and all its versions by their slugs,
+   * or drops it if the topic is gone (slugs stay indexed while the topic is in the trash)
+   */
+  private indexTopic(id: string): void {
+    const versions = this.topics.get(id);
+    if (versions && versions.length > 0) {
+      this.topicsByParent.set(id, versions[versions.length - 1].parentTopicId);
+    } else {
+      this.topicsByParent.delete(id);
+    }
+
+    for (const slug of this.slugsByTopic.get(id) || []) {
+      if (this.topicIdsBySlug.get(slug) === id) {
+        this.topicIdsBySlug.delete(slug);
+      }
+    }
+    const slugs = [...new Set((versions || this.trashedTopics.get(id) || []).map(topic => topic.slug))];
+    for (const slug of slugs) {
+      this.topicIdsBySlug.set(slug, id);
+    }
+    if (slugs.length > 0) {
+      this.slugsByTopic.set(id, slugs);
+    } else {
+      this.slugsByTopic.delete(id);
+    }
+  }
+
+  /**
+   * Indexes a resource by its topic and type, or drops it if the resource is gone
+   */
+  private indexResource(id: string): void {
+    const resource = this.resources.get(id);
+    if (resource) {
+      this.resourcesByTopic.set(id, resource.topicId);
+      this.resourcesByType.set(id, resource.type);
+    } else {
+      this.resourcesByTopic.delete(id);
+      this.resourcesByType.delete(id);
+    }
+  }
+
+  /**
+   * Rebuilds all secondary indexes from the stored data
+   */
+  private rebuildIndexes(): void {
+    this.topicsByParent.clear();
+    this.resourcesByTopic.clear();
+    this.resourcesByType.clear();
+    this.usersByRole.clear();
+    this.topicIdsBySlug.clear();
+    this.slugsByTopic.clear();
+    for (const id of [...this.topics.keys(), ...this.trashedTopics.keys()]) {
+      this.indexTopic(id);
+    }
+    for (const id of this.resources.keys()) {
+      this.indexResource(id);
+    }
+    for (const user of this.users.values()) {
+      this.usersByRole.set(user.id, user.role);
+    }
+  }
+
+  private allMaps(): Map<string, unknown>[] {
+    return [
+      this.topics, this.resources, this.users, this.usersByEmail, this.topicAcls, this.roles,
+      this.groups, this.scheduledActions, this.trash, this.trashedTopics, this.trashedResources
+    ];
+  }
+
+  /**
+   * Rebuilds the versions of a topic from exported data
+   */
+  private importTopicVersions(id: string, versions: Record<string, any>[]): Topic[] {
+    // Data exported before slugs has none; all versions get a free slug from the latest name
+    const legacySlug = versions.some(versionData => versionData.slug)
+      ? undefined
+      : this.findFreeTopicSlug(TopicSlug.fromName(versions[versions.length - 1]?.name || ''), id);
+    return versions.map((versionData, index) => EntityCodec.decodeTopic(versionData, index === versions.length - 1, legacySlug));
   }
 }
\ No newline at end of file
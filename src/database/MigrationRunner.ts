@@ -0,0 +1,69 @@
+import Database from 'better-sqlite3';
+import { IMigration } from '../interfaces/IMigration';
+import { migrations as defaultMigrations } from './migrations';
+
+/**
+ * Applies numbered schema migrations to a SQLite database
+ *
+ * Applied versions are recorded in the `schema_migrations` table. Each migration runs in its
+ * own transaction, so a failing one leaves the database at the previous version.
+ */
+export class MigrationRunner {
+  constructor(
+    private readonly db: Database.Database,
+    private readonly migrations: IMigration[] = defaultMigrations
+  ) {
+    migrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new Error(`Migrations must be numbered from 1 without gaps; found ${migration.version} (${migration.name}) at position ${index + 1}`);
+      }
+    });
+  }
+
+  /**
+   * Gets the version of the latest migration applied to the database, 0 if none
+   */
+  getCurrentVersion(): number {
+    this.ensureMigrationsTable();
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  /**
+   * Gets the migrations not yet applied to the database
+   */
+  getPending(): IMigration[] {
+    const currentVersion = this.getCurrentVersion();
+    if (currentVersion > this.migrations.length) {
+      throw new Error(`Database schema version ${currentVersion} is newer than the latest known migration ${this.migrations.length}`);
+    }
+    return this.migrations.slice(currentVersion);
+  }
+
+  /**
+   * Applies all pending migrations in order and returns them
+   */
+  migrate(): IMigration[] {
+    const pending = this.getPending();
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+    }
+
+    return pending;
+  }
+
+  private ensureMigrationsTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+  }
+}
\ No newline at end of file
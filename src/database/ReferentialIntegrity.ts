@@ -0,0 +1,109 @@
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { Group } from '../models/Group';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { MissingReferenceError, ReferenceInUseError } from '../types/errors';
+
+/**
+ * Checks the references between records that a storage adapter is about to write or remove
+ *
+ * References are enforced like foreign keys, each with its own action on delete:
+ *
+ * - a topic's `parentTopicId` must name a live topic; deleting a topic with subtopics is refused
+ * - a resource's `topicId` must name a live topic; deleting a topic deletes its resources
+ * - a group's `memberIds` must name users; deleting a user removes them from their groups
+ *
+ * Topics and resources in the trash count as deleted, so trashing a topic is refused while
+ * subtopics or resources not trashed along with it still point at it. The checks only read
+ * through the adapter; the adapter carries out cascading deletes and removals itself, in the
+ * same step as the delete.
+ */
+export class ReferentialIntegrity {
+  private storage: IStorageAdapter;
+
+  constructor(storage: IStorageAdapter) {
+    this.storage = storage;
+  }
+
+  /**
+   * Throws a MissingReferenceError unless the parent of a topic is a live topic
+   *
+   * A stored version re-saved with the parent it already had (e.g. when it is archived or
+   * expires) is not checked, since older versions may name a parent that was deleted since.
+   */
+  checkTopic(topic: Topic): void {
+    const stored = this.storage.findTopicById(topic.id, topic.version);
+    if (stored && stored.parentTopicId === topic.parentTopicId) {
+      return;
+    }
+    if (topic.parentTopicId && !this.storage.findTopicById(topic.parentTopicId)) {
+      throw new MissingReferenceError('parentTopicId', topic.parentTopicId, 'Parent topic');
+    }
+  }
+
+  /**
+   * Throws a MissingReferenceError unless the topic of a resource is a live topic
+   */
+  checkResource(resource: Resource): void {
+    if (!this.storage.findTopicById(resource.topicId)) {
+      throw new MissingReferenceError('topicId', resource.topicId, 'Topic');
+    }
+  }
+
+  /**
+   * Throws a MissingReferenceError unless every member of a group is a user
+   */
+  checkGroup(group: Group): void {
+    for (const memberId of group.memberIds) {
+      if (!this.storage.findUserById(memberId)) {
+        throw new MissingReferenceError('memberIds', memberId, 'User');
+      }
+    }
+  }
+
+  /**
+   * Throws a MissingReferenceError if any live record references a record that does not exist,
+   * e.g. after data was imported without the checks
+   *
+   * Only the latest version of a topic has to name a live parent.
+   */
+  checkAll(): void {
+    for (const topic of this.storage.findAllTopics()) {
+      if (topic.parentTopicId && !this.storage.findTopicById(topic.parentTopicId)) {
+        throw new MissingReferenceError('parentTopicId', topic.parentTopicId, 'Parent topic');
+      }
+    }
+    for (const resource of this.storage.findAllResources()) {
+      this.checkResource(resource);
+    }
+    for (const group of this.storage.findAllGroups()) {
+      this.checkGroup(group);
+    }
+  }
+
+  /**
+   * Throws a ReferenceInUseError if a live topic outside the given ones has one of them as parent
+   */
+  checkNoSubtopics(topicIds: string[]): void {
+    const removed = new Set(topicIds);
+    for (const topicId of topicIds) {
+      const children = this.storage.findTopicsByParentId(topicId).filter(child => !removed.has(child.id));
+      if (children.length > 0) {
+        throw new ReferenceInUseError(`Topic ${topicId} still has ${children.length} subtopic(s)`);
+      }
+    }
+  }
+
+  /**
+   * Throws a ReferenceInUseError if a live resource outside the given ones belongs to one of the topics
+   */
+  checkNoResources(topicIds: string[], resourceIds: string[]): void {
+    const removed = new Set(resourceIds);
+    for (const topicId of topicIds) {
+      const resources = this.storage.findResourcesByTopicId(topicId).filter(resource => !removed.has(resource.id));
+      if (resources.length > 0) {
+        throw new ReferenceInUseError(`Topic ${topicId} still has ${resources.length} resource(s)`);
+      }
+    }
+  }
+}
\ No newline at end of file
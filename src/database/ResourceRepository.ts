@@ -1,29 +1,31 @@
 import { IResourceRepository } from '../interfaces/IResource';
 import { Resource } from '../models/Resource';
-import { InMemoryDatabase } from './InMemoryDatabase';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
 
 /**
  * Repository implementation for Resource entity
  */
 export class ResourceRepository implements IResourceRepository {
-  private database: InMemoryDatabase;
-
-  constructor() {
-    this.database = InMemoryDatabase.getInstance();
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
   }
 
   /**
    * Saves a resource to the database
    */
   async save(resource: Resource): Promise<Resource> {
-    // Validate resource before saving
-    const isValid = await resource.validate();
-    if (!isValid) {
-      const errors = resource.getValidationErrors();
-      throw new Error(`Resource validation failed: ${errors.join(', ')}`);
-    }
+    return await UnitOfWork.run(async () => {
+      // Validate resource before saving
+      const isValid = await resource.validate();
+      if (!isValid) {
+        const errors = resource.getValidationErrors();
+        throw new Error(`Resource validation failed: ${errors.join(', ')}`);
+      }
 
-    return this.database.saveResource(resource);
+      return this.database.saveResource(resource);
+    });
   }
 
   /**
@@ -51,7 +53,7 @@ export class ResourceRepository implements IResourceRepository {
    * Deletes a resource
    */
   async delete(id: string): Promise<boolean> {
-    return this.database.deleteResource(id);
+    return await UnitOfWork.run(async () => this.database.deleteResource(id));
   }
 
   /**
@@ -66,8 +68,7 @@ export class ResourceRepository implements IResourceRepository {
    * Finds resources by type
    */
   async findByType(type: string): Promise<Resource[]> {
-    const allResources = await this.findAll();
-    return allResources.filter(resource => resource.type === type);
+    return this.database.findResourcesByType(type);
   }
 
   /**
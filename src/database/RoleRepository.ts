@@ -0,0 +1,78 @@
+import { IRoleRepository } from '../interfaces/IRole';
+import { Role } from '../models/Role';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+
+/**
+ * Repository implementation for custom Role entity
+ */
+export class RoleRepository implements IRoleRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Saves a role to the database
+   */
+  async save(role: Role): Promise<Role> {
+    return await UnitOfWork.run(async () => {
+      const isValid = await role.validate();
+      if (!isValid) {
+        const errors = role.getValidationErrors();
+        throw new Error(`Role validation failed: ${errors.join(', ')}`);
+      }
+
+      // Check for name uniqueness (excluding the current role if updating)
+      const existingRole = await this.findByName(role.name);
+      if (existingRole && existingRole.id !== role.id) {
+        throw new Error(`Role with name ${role.name} already exists`);
+      }
+
+      return this.database.saveRole(role);
+    });
+  }
+
+  /**
+   * Finds a role by ID
+   */
+  async findById(id: string): Promise<Role | null> {
+    return this.database.findRoleById(id);
+  }
+
+  /**
+   * Finds a role by name (case-insensitive)
+   */
+  async findByName(name: string): Promise<Role | null> {
+    return this.database.findRoleByName(name);
+  }
+
+  /**
+   * Resolves a role by name without awaiting, for permission checks made synchronously
+   */
+  resolve(name: string): Role | null {
+    return this.database.findRoleByName(name);
+  }
+
+  /**
+   * Finds all roles
+   */
+  async findAll(): Promise<Role[]> {
+    return this.database.findAllRoles();
+  }
+
+  /**
+   * Gets the names of all roles
+   */
+  async findAllNames(): Promise<string[]> {
+    const roles = await this.findAll();
+    return roles.map(role => role.name);
+  }
+
+  /**
+   * Deletes a role
+   */
+  async delete(id: string): Promise<boolean> {
+    return await UnitOfWork.run(async () => this.database.deleteRole(id));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { IScheduledActionFilter, IScheduledActionRepository } from '../interfaces/IScheduledAction';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+
+/**
+ * Repository implementation for ScheduledAction entity
+ */
+export class ScheduledActionRepository implements IScheduledActionRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Saves a scheduled action to the database
+   */
+  async save(action: ScheduledAction): Promise<ScheduledAction> {
+    return await UnitOfWork.run(async () => {
+      const isValid = await action.validate();
+      if (!isValid) {
+        const errors = action.getValidationErrors();
+        throw new Error(`Scheduled action validation failed: ${errors.join(', ')}`);
+      }
+
+      return this.database.saveScheduledAction(action);
+    });
+  }
+
+  /**
+   * Finds a scheduled action by ID
+   */
+  async findById(id: string): Promise<ScheduledAction | null> {
+    return this.database.findScheduledActionById(id);
+  }
+
+  /**
+   * Finds scheduled actions matching the filter, soonest first
+   */
+  async findAll(filter: IScheduledActionFilter = {}): Promise<ScheduledAction[]> {
+    return this.database.findAllScheduledActions()
+      .filter(action => !filter.topicId || action.topicId === filter.topicId)
+      .filter(action => !filter.status || action.status === filter.status)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  /**
+   * Finds pending actions whose time has come, soonest first
+   */
+  async findDue(now: Date): Promise<ScheduledAction[]> {
+    return (await this.findAll()).filter(action => action.isDue(now));
+  }
+}
\ No newline at end of file
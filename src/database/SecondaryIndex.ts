@@ -0,0 +1,62 @@
+/**
+ * Index from a lookup key (e.g. a parent topic id) to the ids of the records that have it
+ *
+ * The index remembers the key it holds for each id, so a record can be re-indexed even after
+ * the entity object was changed in place. Ids are listed in the order they got their key.
+ */
+export class SecondaryIndex<K> {
+  private idsByKey: Map<K, Set<string>> = new Map();
+  private keyById: Map<string, K> = new Map();
+
+  /**
+   * Indexes a record under a key, moving it away from the key it had before
+   */
+  set(id: string, key: K): void {
+    if (this.keyById.has(id)) {
+      if (this.keyById.get(id) === key) {
+        return;
+      }
+      this.delete(id);
+    }
+
+    const ids = this.idsByKey.get(key);
+    if (ids) {
+      ids.add(id);
+    } else {
+      this.idsByKey.set(key, new Set([id]));
+    }
+    this.keyById.set(id, key);
+  }
+
+  /**
+   * Removes a record from the index
+   */
+  delete(id: string): void {
+    if (!this.keyById.has(id)) {
+      return;
+    }
+
+    const key = this.keyById.get(id) as K;
+    const ids = this.idsByKey.get(key);
+    ids?.delete(id);
+    if (ids && ids.size === 0) {
+      this.idsByKey.delete(key);
+    }
+    this.keyById.delete(id);
+  }
+
+  /**
+   * Gets the ids of the records indexed under a key
+   */
+  get(key: K): string[] {
+    return Array.from(this.idsByKey.get(key) || []);
+  }
+
+  /**
+   * Removes all records from the index
+   */
+  clear(): void {
+    this.idsByKey.clear();
+    this.keyById.clear();
+  }
+}
\ No newline at end of file
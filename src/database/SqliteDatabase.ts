@@ -0,0 +1,807 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Group } from '../models/Group';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { TrashEntry } from '../models/TrashEntry';
+import { ITopicAclEntry } from '../interfaces/ITopic';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { TopicSlug } from '../utils/TopicSlug';
+import { EntityCodec } from './EntityCodec';
+import { MigrationRunner } from './MigrationRunner';
+import { ReferentialIntegrity } from './ReferentialIntegrity';
+
+const DEFAULT_FILENAME = path.join('data', 'knowledge-base.sqlite');
+
+/**
+ * A database row holding an entity record
+ */
+interface DataRow {
+  data: string;
+}
+
+/**
+ * Storage adapter that keeps data in an embedded SQLite database
+ *
+ * Topic versions are rows keyed by id and version, with the latest version and the trash flag
+ * of each topic kept in `topics`. Entities are stored as their records in a `data` column next
+ * to the columns they are looked up by, so the database can be queried and backed up with
+ * standard SQLite tools. The schema is created by the migrations in `migrations/`; opening a
+ * database with pending migrations fails unless automatic migration is enabled. Writes and
+ * deletes enforce the references between records described in ReferentialIntegrity.
+ */
+export class SqliteDatabase implements IStorageAdapter {
+  private filename: string;
+  private autoMigrate: boolean;
+  private connection?: Database.Database;
+  private statements: Map<string, Database.Statement> = new Map();
+  private integrity: ReferentialIntegrity = new ReferentialIntegrity(this);
+  private enforceReferences = true; // off while importing exported data
+
+  constructor(
+    filename: string = process.env.SQLITE_PATH || DEFAULT_FILENAME,
+    autoMigrate: boolean = process.env.SQLITE_AUTO_MIGRATE === 'true'
+  ) {
+    this.filename = filename;
+    this.autoMigrate = autoMigrate;
+  }
+
+  /**
+   * Opens the database file, creating it if needed, and checks that its schema is up to date
+   */
+  async open(): Promise<void> {
+    if (this.connection) {
+      return;
+    }
+
+    if (this.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+    }
+    const connection = new Database(this.filename);
+    try {
+      connection.pragma('journal_mode = WAL');
+      connection.pragma('foreign_keys = ON');
+
+      const runner = new MigrationRunner(connection);
+      if (this.autoMigrate) {
+        runner.migrate();
+      } else {
+        const pending = runner.getPending();
+        if (pending.length > 0) {
+          throw new Error(`SQLite database ${this.filename} has ${pending.length} pending migration(s); run \`npm run migrate\` first`);
+        }
+      }
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+    this.connection = connection;
+  }
+
+  /**
+   * Closes the database file
+   */
+  async close(): Promise<void> {
+    if (!this.connection) {
+      return;
+    }
+
+    this.statements.clear();
+    this.connection.close();
+    this.connection = undefined;
+  }
+
+  /**
+   * Opens a transaction on the database
+   */
+  begin(): void {
+    if (this.db.inTransaction) {
+      throw new Error('A transaction is already open');
+    }
+    this.db.exec('BEGIN IMMEDIATE');
+  }
+
+  /**
+   * Commits the open transaction
+   */
+  commit(): void {
+    if (!this.db.inTransaction) {
+      throw new Error('No transaction is open');
+    }
+    this.db.exec('COMMIT');
+  }
+
+  /**
+   * Rolls back the open transaction
+   */
+  rollback(): void {
+    if (!this.db.inTransaction) {
+      throw new Error('No transaction is open');
+    }
+    this.db.exec('ROLLBACK');
+  }
+
+  /**
+   * Clears all data (useful for testing)
+   */
+  clear(): void {
+    this.db.transaction(() => {
+      for (const table of ['topic_versions', 'topics', 'resources', 'users', 'topic_acls', 'roles', 'user_groups', 'scheduled_actions', 'trash_entries']) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+    })();
+  }
+
+  // Topic operations
+  /**
+   * Saves a topic version, keeping track of the latest version of the topic
+   */
+  saveTopic(topic: Topic): Topic {
+    this.checkReferences(integrity => integrity.checkTopic(topic));
+    this.statement(`
+      INSERT INTO topics (id, latest_version) VALUES (?, ?)
+      ON CONFLICT (id) DO UPDATE SET latest_version = MAX(latest_version, excluded.latest_version)
+    `).run(topic.id, topic.version);
+    this.upsert('topic_versions', ['id', 'version'], {
+      id: topic.id,
+      version: topic.version,
+      name: topic.name,
+      slug: topic.slug,
+      parent_topic_id: topic.parentTopicId ?? null,
+      status: topic.status,
+      created_at: topic.createdAt.toISOString(),
+      updated_at: topic.updatedAt.toISOString(),
+      data: JSON.stringify(topic)
+    });
+    return topic;
+  }
+
+  /**
+   * Finds a live topic by ID and optional version
+   */
+  findTopicById(id: string, version?: number): Topic | null {
+    const row = (version !== undefined
+      ? this.statement(`
+          SELECT v.data FROM topic_versions v JOIN topics t ON t.id = v.id
+          WHERE v.id = ? AND v.version = ? AND t.trashed = 0
+        `).get(id, version)
+      : this.statement(`
+          SELECT v.data FROM topic_versions v JOIN topics t ON t.id = v.id AND v.version = t.latest_version
+          WHERE v.id = ? AND t.trashed = 0
+        `).get(id)) as DataRow | undefined;
+    return row ? this.decodeTopic(row) : null;
+  }
+
+  /**
+   * Gets all versions of a live topic
+   */
+  findTopicVersions(id: string): Topic[] {
+    return this.topicVersions(id, false);
+  }
+
+  /**
+   * Finds the id of the live topic a slug belongs to, in its latest or any earlier version
+   */
+  findTopicIdBySlug(slug: string): string | null {
+    const row = this.statement(`
+      SELECT v.id FROM topic_versions v JOIN topics t ON t.id = v.id
+      WHERE v.slug = ? AND t.trashed = 0
+      LIMIT 1
+    `).get(slug) as { id: string } | undefined;
+    return row ? row.id : null;
+  }
+
+  /**
+   * Checks if a slug belongs to a topic other than the given one, live or in the trash
+   */
+  isTopicSlugTaken(slug: string, topicId?: string): boolean {
+    return this.statement('SELECT 1 FROM topic_versions WHERE slug = ? AND id IS NOT ? LIMIT 1')
+      .get(slug, topicId ?? null) !== undefined;
+  }
+
+  /**
+   * Finds a slug not taken by another topic, appending -2, -3, ... to the base slug as needed
+   */
+  findFreeTopicSlug(baseSlug: string, topicId?: string): string {
+    let slug = baseSlug;
+    for (let counter = 2; this.isTopicSlugTaken(slug, topicId); counter++) {
+      slug = TopicSlug.withSuffix(baseSlug, counter);
+    }
+    return slug;
+  }
+
+  /**
+   * Finds all live topics (latest versions only), in the order they were created
+   */
+  findAllTopics(): Topic[] {
+    return this.decodeTopics(this.statement(`
+      SELECT v.data FROM topics t JOIN topic_versions v ON v.id = t.id AND v.version = t.latest_version
+      WHERE t.trashed = 0
+      ORDER BY t.rowid
+    `).all());
+  }
+
+  /**
+   * Finds live topics by parent ID (latest versions only)
+   */
+  findTopicsByParentId(parentId: string): Topic[] {
+    return this.decodeTopics(this.statement(`
+      SELECT v.data FROM topics t JOIN topic_versions v ON v.id = t.id AND v.version = t.latest_version
+      WHERE v.parent_topic_id = ? AND t.trashed = 0
+      ORDER BY t.rowid
+    `).all(parentId));
+  }
+
+  /**
+   * Deletes all versions of a live topic with its access control list and resources, unless it
+   * has subtopics
+   */
+  deleteTopic(id: string): boolean {
+    return this.db.transaction(() => {
+      if (this.findTopicById(id)) {
+        this.checkReferences(integrity => integrity.checkNoSubtopics([id]));
+      }
+      this.statement('DELETE FROM resources WHERE topic_id = ? AND trashed = 0').run(id);
+      this.statement('DELETE FROM topic_acls WHERE topic_id = ?').run(id);
+      return this.statement('DELETE FROM topics WHERE id = ? AND trashed = 0').run(id).changes > 0;
+    })();
+  }
+
+  // Topic access control operations
+  /**
+   * Replaces the access control entries attached to a topic
+   */
+  saveTopicAcl(topicId: string, entries: ITopicAclEntry[]): ITopicAclEntry[] {
+    if (entries.length === 0) {
+      this.statement('DELETE FROM topic_acls WHERE topic_id = ?').run(topicId);
+    } else {
+      this.upsert('topic_acls', ['topic_id'], { topic_id: topicId, entries: JSON.stringify(entries) });
+    }
+    return entries;
+  }
+
+  /**
+   * Finds the access control entries attached directly to a topic
+   */
+  findTopicAcl(topicId: string): ITopicAclEntry[] {
+    const row = this.statement('SELECT entries FROM topic_acls WHERE topic_id = ?').get(topicId) as { entries: string } | undefined;
+    return row ? JSON.parse(row.entries) : [];
+  }
+
+  // Resource operations
+  /**
+   * Saves a resource
+   */
+  saveResource(resource: Resource): Resource {
+    this.checkReferences(integrity => integrity.checkResource(resource));
+    this.upsert('resources', ['id'], {
+      id: resource.id,
+      topic_id: resource.topicId,
+      url: resource.url,
+      type: resource.type,
+      created_at: resource.createdAt.toISOString(),
+      updated_at: resource.updatedAt.toISOString(),
+      data: JSON.stringify(resource)
+    });
+    return resource;
+  }
+
+  /**
+   * Finds a live resource by ID
+   */
+  findResourceById(id: string): Resource | null {
+    const row = this.statement('SELECT data FROM resources WHERE id = ? AND trashed = 0').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeResource(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds all live resources
+   */
+  findAllResources(): Resource[] {
+    return this.decodeRows(this.statement('SELECT data FROM resources WHERE trashed = 0 ORDER BY rowid').all(), EntityCodec.decodeResource);
+  }
+
+  /**
+   * Finds live resources by topic ID
+   */
+  findResourcesByTopicId(topicId: string): Resource[] {
+    return this.decodeRows(
+      this.statement('SELECT data FROM resources WHERE topic_id = ? AND trashed = 0 ORDER BY rowid').all(topicId),
+      EntityCodec.decodeResource
+    );
+  }
+
+  /**
+   * Finds live resources by type
+   */
+  findResourcesByType(type: string): Resource[] {
+    return this.decodeRows(
+      this.statement('SELECT data FROM resources WHERE type = ? AND trashed = 0 ORDER BY rowid').all(type),
+      EntityCodec.decodeResource
+    );
+  }
+
+  /**
+   * Deletes a live resource
+   */
+  deleteResource(id: string): boolean {
+    return this.statement('DELETE FROM resources WHERE id = ? AND trashed = 0').run(id).changes > 0;
+  }
+
+  // User operations
+  /**
+   * Saves a user, including the password hash
+   */
+  saveUser(user: User): User {
+    this.upsert('users', ['id'], {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      active: user.active ? 1 : 0,
+      created_at: user.createdAt.toISOString(),
+      updated_at: user.updatedAt.toISOString(),
+      data: JSON.stringify(EntityCodec.encodeUser(user))
+    });
+    return user;
+  }
+
+  /**
+   * Finds a user by ID
+   */
+  findUserById(id: string): User | null {
+    const row = this.statement('SELECT data FROM users WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeUser(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds a user by email
+   */
+  findUserByEmail(email: string): User | null {
+    const row = this.statement('SELECT data FROM users WHERE email = ?').get(email) as DataRow | undefined;
+    return row ? EntityCodec.decodeUser(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds users by role
+   */
+  findUsersByRole(role: string): User[] {
+    return this.decodeRows(this.statement('SELECT data FROM users WHERE role = ? ORDER BY rowid').all(role), EntityCodec.decodeUser);
+  }
+
+  /**
+   * Finds all users
+   */
+  findAllUsers(): User[] {
+    return this.decodeRows(this.statement('SELECT data FROM users ORDER BY rowid').all(), EntityCodec.decodeUser);
+  }
+
+  /**
+   * Deletes a user and removes them from the groups they belong to
+   */
+  deleteUser(id: string): boolean {
+    return this.db.transaction(() => {
+      for (const group of this.findGroupsByMember(id)) {
+        group.removeMember(id);
+        this.writeGroup(group);
+      }
+      return this.statement('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  // Role operations
+  /**
+   * Saves a custom role
+   */
+  saveRole(role: Role): Role {
+    this.upsert('roles', ['id'], { id: role.id, name: role.name, data: JSON.stringify(role) });
+    return role;
+  }
+
+  /**
+   * Finds a custom role by ID
+   */
+  findRoleById(id: string): Role | null {
+    const row = this.statement('SELECT data FROM roles WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeRole(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds a custom role by name (case-insensitive)
+   */
+  findRoleByName(name: string): Role | null {
+    const searchName = name.toLowerCase();
+    return this.findAllRoles().find(role => role.name.toLowerCase() === searchName) || null;
+  }
+
+  /**
+   * Finds all custom roles
+   */
+  findAllRoles(): Role[] {
+    return this.decodeRows(this.statement('SELECT data FROM roles ORDER BY rowid').all(), EntityCodec.decodeRole);
+  }
+
+  /**
+   * Deletes a custom role
+   */
+  deleteRole(id: string): boolean {
+    return this.statement('DELETE FROM roles WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Group operations
+  /**
+   * Saves a group
+   */
+  saveGroup(group: Group): Group {
+    this.checkReferences(integrity => integrity.checkGroup(group));
+    this.writeGroup(group);
+    return group;
+  }
+
+  /**
+   * Finds a group by ID
+   */
+  findGroupById(id: string): Group | null {
+    const row = this.statement('SELECT data FROM user_groups WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeGroup(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds a group by name (case-insensitive)
+   */
+  findGroupByName(name: string): Group | null {
+    const searchName = name.toLowerCase();
+    return this.findAllGroups().find(group => group.name.toLowerCase() === searchName) || null;
+  }
+
+  /**
+   * Finds all groups a user belongs to
+   */
+  findGroupsByMember(userId: string): Group[] {
+    return this.decodeRows(this.statement(`
+      SELECT g.data FROM user_groups g
+      WHERE EXISTS (SELECT 1 FROM json_each(g.data, '$.memberIds') WHERE value = ?)
+      ORDER BY g.rowid
+    `).all(userId), EntityCodec.decodeGroup);
+  }
+
+  /**
+   * Finds all groups
+   */
+  findAllGroups(): Group[] {
+    return this.decodeRows(this.statement('SELECT data FROM user_groups ORDER BY rowid').all(), EntityCodec.decodeGroup);
+  }
+
+  /**
+   * Deletes a group
+   */
+  deleteGroup(id: string): boolean {
+    return this.statement('DELETE FROM user_groups WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Scheduled action operations
+  /**
+   * Saves a scheduled action
+   */
+  saveScheduledAction(action: ScheduledAction): ScheduledAction {
+    this.upsert('scheduled_actions', ['id'], {
+      id: action.id,
+      topic_id: action.topicId,
+      status: action.status,
+      run_at: action.runAt.toISOString(),
+      data: JSON.stringify(action)
+    });
+    return action;
+  }
+
+  /**
+   * Finds a scheduled action by ID
+   */
+  findScheduledActionById(id: string): ScheduledAction | null {
+    const row = this.statement('SELECT data FROM scheduled_actions WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeScheduledAction(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds all scheduled actions
+   */
+  findAllScheduledActions(): ScheduledAction[] {
+    return this.decodeRows(this.statement('SELECT data FROM scheduled_actions ORDER BY rowid').all(), EntityCodec.decodeScheduledAction);
+  }
+
+  // Trash operations
+  /**
+   * Flags the topics and resources of a trash entry as trashed in one transaction, first
+   * saving the given topic versions and resources (e.g. children re-parented away from it)
+   */
+  trashTopics(entry: TrashEntry, topics: Topic[] = [], resources: Resource[] = []): TrashEntry {
+    this.db.transaction(() => {
+      for (const topic of topics) {
+        this.saveTopic(topic);
+      }
+      for (const resource of resources) {
+        this.saveResource(resource);
+      }
+      this.checkReferences(integrity => {
+        integrity.checkNoSubtopics(entry.topicIds);
+        integrity.checkNoResources(entry.topicIds, entry.resourceIds);
+      });
+
+      const trashTopic = this.statement('UPDATE topics SET trashed = 1 WHERE id = ?');
+      for (const topicId of entry.topicIds) {
+        trashTopic.run(topicId);
+      }
+      const trashResource = this.statement('UPDATE resources SET trashed = 1 WHERE id = ?');
+      for (const resourceId of entry.resourceIds) {
+        trashResource.run(resourceId);
+      }
+
+      this.saveTrashEntry(entry);
+    })();
+    return entry;
+  }
+
+  /**
+   * Finds a trash entry by the id of its deleted topic
+   */
+  findTrashEntry(id: string): TrashEntry | null {
+    const row = this.statement('SELECT data FROM trash_entries WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? EntityCodec.decodeTrashEntry(JSON.parse(row.data)) : null;
+  }
+
+  /**
+   * Finds all trash entries
+   */
+  findAllTrashEntries(): TrashEntry[] {
+    return this.decodeRows(this.statement('SELECT data FROM trash_entries ORDER BY rowid').all(), EntityCodec.decodeTrashEntry);
+  }
+
+  /**
+   * Finds the latest version of a trashed topic
+   */
+  findTrashedTopic(id: string): Topic | null {
+    const row = this.statement(`
+      SELECT v.data FROM topic_versions v JOIN topics t ON t.id = v.id AND v.version = t.latest_version
+      WHERE v.id = ? AND t.trashed = 1
+    `).get(id) as DataRow | undefined;
+    return row ? this.decodeTopic(row) : null;
+  }
+
+  /**
+   * Clears the trash flag of the topics and resources of a trash entry in one transaction
+   */
+  restoreTrashEntry(id: string): boolean {
+    const entry = this.findTrashEntry(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.db.transaction(() => {
+      const restoreTopic = this.statement('UPDATE topics SET trashed = 0 WHERE id = ?');
+      for (const topicId of entry.topicIds) {
+        restoreTopic.run(topicId);
+      }
+      const restoreResource = this.statement('UPDATE resources SET trashed = 0 WHERE id = ?');
+      for (const resourceId of entry.resourceIds) {
+        restoreResource.run(resourceId);
+      }
+      this.statement('DELETE FROM trash_entries WHERE id = ?').run(id);
+    })();
+    return true;
+  }
+
+  /**
+   * Permanently removes a trash entry with its topics, their access control lists and its resources
+   */
+  purgeTrashEntry(id: string): boolean {
+    const entry = this.findTrashEntry(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.db.transaction(() => {
+      for (const topicId of entry.topicIds) {
+        this.statement('DELETE FROM topics WHERE id = ? AND trashed = 1').run(topicId);
+        this.statement('DELETE FROM topic_acls WHERE topic_id = ?').run(topicId);
+      }
+      for (const resourceId of entry.resourceIds) {
+        this.statement('DELETE FROM resources WHERE id = ? AND trashed = 1').run(resourceId);
+      }
+      this.statement('DELETE FROM trash_entries WHERE id = ?').run(id);
+    })();
+    return true;
+  }
+
+  // Utility methods
+  /**
+   * Gets database statistics
+   */
+  getStats(): Record<string, number> {
+    const count = (sql: string): number => (this.statement(sql).get() as { count: number }).count;
+
+    return {
+      uniqueTopics: count('SELECT COUNT(*) AS count FROM topics WHERE trashed = 0'),
+      totalTopicVersions: count('SELECT COUNT(*) AS count FROM topic_versions v JOIN topics t ON t.id = v.id WHERE t.trashed = 0'),
+      resources: count('SELECT COUNT(*) AS count FROM resources WHERE trashed = 0'),
+      users: count('SELECT COUNT(*) AS count FROM users'),
+      roles: count('SELECT COUNT(*) AS count FROM roles'),
+      groups: count('SELECT COUNT(*) AS count FROM user_groups'),
+      scheduledActions: count('SELECT COUNT(*) AS count FROM scheduled_actions'),
+      trashedTopics: count('SELECT COUNT(*) AS count FROM topics WHERE trashed = 1')
+    };
+  }
+
+  /**
+   * Exports all data in the same shape as the in-memory database
+   */
+  exportData(): Record<string, any> {
+    const topicVersions = (trashed: boolean): Record<string, any> => {
+      const ids = this.statement('SELECT id FROM topics WHERE trashed = ? ORDER BY rowid').all(trashed ? 1 : 0) as { id: string }[];
+      return Object.fromEntries(ids.map(({ id }) => [id, this.topicVersions(id, trashed).map(topic => topic.toJSON())]));
+    };
+    const resources = (trashed: boolean): Record<string, any>[] =>
+      (this.statement('SELECT data FROM resources WHERE trashed = ? ORDER BY rowid').all(trashed ? 1 : 0) as DataRow[])
+        .map(row => JSON.parse(row.data));
+    const acls = this.statement('SELECT topic_id, entries FROM topic_acls ORDER BY rowid').all() as { topic_id: string; entries: string }[];
+
+    return {
+      topics: topicVersions(false),
+      resources: resources(false),
+      users: this.findAllUsers().map(u => EntityCodec.encodeUser(u)),
+      topicAcls: Object.fromEntries(acls.map(row => [row.topic_id, JSON.parse(row.entries)])),
+      roles: this.findAllRoles().map(r => r.toJSON()),
+      groups: this.findAllGroups().map(g => g.toJSON()),
+      scheduledActions: this.findAllScheduledActions().map(a => a.toJSON()),
+      trash: {
+        entries: this.findAllTrashEntries().map(e => e.toJSON()),
+        topics: topicVersions(true),
+        resources: resources(true)
+      }
+    };
+  }
+
+  /**
+   * Replaces all data with exported data in one transaction
+   *
+   * The data is taken as exported, without referential integrity checks, since records are
+   * imported in an order that can put references before the records they point at.
+   */
+  importData(data: Record<string, any>): void {
+    this.enforceReferences = false;
+    try {
+      this.db.transaction(() => {
+        this.clear();
+
+        for (const [id, versions] of Object.entries((data.topics || {}) as Record<string, Record<string, any>[]>)) {
+          this.importTopicVersions(id, versions, false);
+        }
+        for (const resourceData of data.resources || []) {
+          this.saveResource(EntityCodec.decodeResource(resourceData));
+        }
+        for (const [topicId, entries] of Object.entries((data.topicAcls || {}) as Record<string, ITopicAclEntry[]>)) {
+          this.saveTopicAcl(topicId, entries);
+        }
+        for (const roleData of data.roles || []) {
+          this.saveRole(EntityCodec.decodeRole(roleData));
+        }
+        for (const groupData of data.groups || []) {
+          this.saveGroup(EntityCodec.decodeGroup(groupData));
+        }
+        if (data.trash) {
+          for (const entryData of data.trash.entries || []) {
+            this.saveTrashEntry(EntityCodec.decodeTrashEntry(entryData));
+          }
+          for (const [id, versions] of Object.entries((data.trash.topics || {}) as Record<string, Record<string, any>[]>)) {
+            this.importTopicVersions(id, versions, true);
+          }
+          for (const resourceData of data.trash.resources || []) {
+            this.saveResource(EntityCodec.decodeResource(resourceData));
+            this.statement('UPDATE resources SET trashed = 1 WHERE id = ?').run(resourceData.id);
+          }
+        }
+        for (const actionData of data.scheduledActions || []) {
+          this.saveScheduledAction(EntityCodec.decodeScheduledAction(actionData));
+        }
+        for (const userData of data.users || []) {
+          this.saveUser(EntityCodec.decodeUser(userData));
+        }
+      })();
+    } finally {
+      this.enforceReferences = true;
+    }
+  }
+
+  private get db(): Database.Database {
+    if (!this.connection) {
+      throw new Error('SQLite database is not open');
+    }
+    return this.connection;
+  }
+
+  /**
+   * Gets a prepared statement, preparing each distinct query once per connection
+   */
+  private statement(sql: string): Database.Statement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  /**
+   * Inserts a row, or updates the row with the same key in place so it keeps its position
+   */
+  private upsert(table: string, keyColumns: string[], row: Record<string, string | number | null>): void {
+    const columns = Object.keys(row);
+    const updates = columns
+      .filter(column => !keyColumns.includes(column))
+      .map(column => `${column} = excluded.${column}`);
+    this.statement(`
+      INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})
+      ON CONFLICT (${keyColumns.join(', ')}) DO UPDATE SET ${updates.join(', ')}
+    `).run(row);
+  }
+
+  private writeGroup(group: Group): void {
+    this.upsert('user_groups', ['id'], { id: group.id, name: group.name, data: JSON.stringify(group) });
+  }
+
+  /**
+   * Runs a referential integrity check, unless checks are switched off
+   */
+  private checkReferences(check: (integrity: ReferentialIntegrity) => void): void {
+    if (this.enforceReferences) {
+      check(this.integrity);
+    }
+  }
+
+  private saveTrashEntry(entry: TrashEntry): void {
+    this.upsert('trash_entries', ['id'], {
+      id: entry.id,
+      deleted_at: entry.deletedAt.toISOString(),
+      data: JSON.stringify(entry)
+    });
+  }
+
+  private topicVersions(id: string, trashed: boolean): Topic[] {
+    return this.decodeTopics(this.statement(`
+      SELECT v.data FROM topic_versions v JOIN topics t ON t.id = v.id
+      WHERE v.id = ? AND t.trashed = ?
+      ORDER BY v.version
+    `).all(id, trashed ? 1 : 0));
+  }
+
+  /**
+   * Rebuilds the versions of a topic from exported data and saves them
+   */
+  private importTopicVersions(id: string, versions: Record<string, any>[], trashed: boolean): void {
+    // Data exported before slugs has none; all versions get a free slug from the latest name
+    const legacySlug = versions.some(versionData => versionData.slug)
+      ? undefined
+      : this.findFreeTopicSlug(TopicSlug.fromName(versions[versions.length - 1]?.name || ''), id);
+    versions.forEach((versionData, index) => {
+      this.saveTopic(EntityCodec.decodeTopic(versionData, index === versions.length - 1, legacySlug));
+    });
+    if (trashed) {
+      this.statement('UPDATE topics SET trashed = 1 WHERE id = ?').run(id);
+    }
+  }
+
+  private decodeTopic(row: DataRow): Topic {
+    return EntityCodec.decodeTopic(JSON.parse(row.data));
+  }
+
+  private decodeTopics(rows: unknown[]): Topic[] {
+    return this.decodeRows(rows, data => EntityCodec.decodeTopic(data));
+  }
+
+  private decodeRows<T>(rows: unknown[], decode: (data: Record<string, any>) => T): T[] {
+    return (rows as DataRow[]).map(row => decode(JSON.parse(row.data)));
+  }
+}
\ No newline at end of file
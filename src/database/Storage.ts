@@ -0,0 +1,47 @@
+import { IStorageAdapter, StorageType } from '../interfaces/IStorageAdapter';
+import { InMemoryDatabase } from './InMemoryDatabase';
+import { FileDatabase } from './FileDatabase';
+import { SqliteDatabase } from './SqliteDatabase';
+
+/**
+ * Registry of the storage adapter the repositories read and write through
+ *
+ * Repositories look the adapter up on every access, so selecting one also applies to
+ * repositories created before. Until one is selected the in-memory database is used.
+ */
+export class Storage {
+  private static adapter?: IStorageAdapter;
+
+  /**
+   * Gets the selected storage adapter
+   */
+  static getAdapter(): IStorageAdapter {
+    if (!Storage.adapter) {
+      Storage.adapter = InMemoryDatabase.getInstance();
+    }
+    return Storage.adapter;
+  }
+
+  /**
+   * Selects the storage adapter for all repositories
+   */
+  static use(adapter: IStorageAdapter): void {
+    Storage.adapter = adapter;
+  }
+
+  /**
+   * Creates the storage adapter for a configured storage type
+   */
+  static create(type: string = StorageType.MEMORY): IStorageAdapter {
+    switch (type) {
+      case StorageType.MEMORY:
+        return InMemoryDatabase.getInstance();
+      case StorageType.FILE:
+        return new FileDatabase();
+      case StorageType.SQLITE:
+        return new SqliteDatabase();
+      default:
+        throw new Error(`Unknown storage type ${type}; expected one of: ${Object.values(StorageType).join(', ')}`);
+    }
+  }
+}
\ No newline at end of file
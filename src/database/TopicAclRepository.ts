@@ -0,0 +1,35 @@
+import { ITopicAclEntry } from '../interfaces/ITopic';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+
+/**
+ * Repository for access control entries attached to topics
+ */
+export class TopicAclRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Replaces the entries attached to a topic (an empty list removes the override)
+   */
+  async save(topicId: string, entries: ITopicAclEntry[]): Promise<ITopicAclEntry[]> {
+    return await UnitOfWork.run(async () => this.database.saveTopicAcl(topicId, entries));
+  }
+
+  /**
+   * Finds the entries attached directly to a topic
+   */
+  async findByTopicId(topicId: string): Promise<ITopicAclEntry[]> {
+    return this.database.findTopicAcl(topicId);
+  }
+
+  /**
+   * Checks if a topic has its own entries
+   */
+  async hasOwnAcl(topicId: string): Promise<boolean> {
+    const entries = await this.findByTopicId(topicId);
+    return entries.length > 0;
+  }
+}
\ No newline at end of file
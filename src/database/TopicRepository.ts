@@ -1,32 +1,51 @@
 import { ITopicRepository } from '../interfaces/ITopic';
 import { Topic } from '../models/Topic';
-import { InMemoryDatabase } from './InMemoryDatabase';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+import { ConflictError, VersionConflictError } from '../types/errors';
+import { TopicSlug } from '../utils/TopicSlug';
 
 /**
  * Repository implementation for Topic entity
  */
 export class TopicRepository implements ITopicRepository {
-  private database: InMemoryDatabase;
-
-  constructor() {
-    this.database = InMemoryDatabase.getInstance();
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
   }
 
   /**
    * Saves a topic to the database
+   *
+   * When a base version is given the save only succeeds if it is still the latest version,
+   * so concurrent edits built on the same version cannot overwrite each other. The topic's
+   * slug must not belong to another topic.
    */
-  async save(topic: Topic): Promise<Topic> {
-    // Validate topic before saving
-    const isValid = await topic.validate();
-    if (!isValid) {
-      const errors = topic.getValidationErrors();
-      throw new Error(`Topic validation failed: ${errors.join(', ')}`);
-    }
+  async save(topic: Topic, baseVersion?: number): Promise<Topic> {
+    return await UnitOfWork.run(async () => {
+      // Validate topic before saving
+      const isValid = await topic.validate();
+      if (!isValid) {
+        const errors = topic.getValidationErrors();
+        throw new Error(`Topic validation failed: ${errors.join(', ')}`);
+      }
+
+      if (baseVersion !== undefined) {
+        const latest = this.database.findTopicById(topic.id);
+        if (latest && latest.version !== baseVersion) {
+          throw new VersionConflictError(latest.version);
+        }
+      }
+
+      if (this.database.isTopicSlugTaken(topic.slug, topic.id)) {
+        throw new ConflictError(`Slug ${topic.slug} is already used by another topic`);
+      }
+
+      // Set repository reference
+      topic.setRepository(this);
 
-    // Set repository reference
-    topic.setRepository(this);
-    
-    return this.database.saveTopic(topic);
+      return this.database.saveTopic(topic);
+    });
   }
 
   /**
@@ -40,6 +59,21 @@ export class TopicRepository implements ITopicRepository {
     return topic;
   }
 
+  /**
+   * Finds a topic by its current or a former slug, optionally at a given version
+   */
+  async findBySlug(slug: string, version?: number): Promise<Topic | null> {
+    const id = this.database.findTopicIdBySlug(slug);
+    return id ? await this.findById(id, version) : null;
+  }
+
+  /**
+   * Generates a slug for a topic name that no other topic uses
+   */
+  async generateSlug(name: string, topicId?: string): Promise<string> {
+    return this.database.findFreeTopicSlug(TopicSlug.fromName(name), topicId);
+  }
+
   /**
    * Finds all topics (latest versions only)
    */
@@ -67,11 +101,19 @@ export class TopicRepository implements ITopicRepository {
     return versions;
   }
 
+  /**
+   * Finds the published version of a topic, if it has one
+   */
+  async findPublishedVersion(id: string): Promise<Topic | null> {
+    const versions = await this.findVersions(id);
+    return versions.find(topic => topic.isPublished()) || null;
+  }
+
   /**
    * Deletes a topic and all its versions
    */
   async delete(id: string): Promise<boolean> {
-    return this.database.deleteTopic(id);
+    return await UnitOfWork.run(async () => this.database.deleteTopic(id));
   }
 
   /**
@@ -125,16 +167,22 @@ export class TopicRepository implements ITopicRepository {
   }
 
   /**
-   * Gets topic hierarchy depth
+   * Gets topic hierarchy depth, walking down one level at a time from the topics without a
+   * (live) parent
    */
   async getMaxDepth(): Promise<number> {
     const allTopics = await this.findAll();
+    const ids = new Set(allTopics.map(topic => topic.id));
+    let level = allTopics.filter(topic => !topic.parentTopicId || !ids.has(topic.parentTopicId));
     let maxDepth = 0;
 
-    for (const topic of allTopics) {
-      const ancestors = await topic.getAncestors();
-      const depth = ancestors.length + 1;
-      maxDepth = Math.max(maxDepth, depth);
+    while (level.length > 0) {
+      maxDepth++;
+      const nextLevel: Topic[] = [];
+      for (const topic of level) {
+        nextLevel.push(...(await this.findByParentId(topic.id)));
+      }
+      level = nextLevel;
     }
 
     return maxDepth;
@@ -0,0 +1,83 @@
+import { ITrashRepository } from '../interfaces/ITrash';
+import { TrashEntry } from '../models/TrashEntry';
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { VersionConflictError } from '../types/errors';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+
+/**
+ * Repository implementation for the topic trash
+ */
+export class TrashRepository implements ITrashRepository {
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
+  }
+
+  /**
+   * Moves the topics and resources of an entry to the trash, together with the new versions of
+   * re-parented children and the moved resources
+   *
+   * Everything runs in one unit of work, so a delete applies completely or not at all. It fails
+   * if a re-parented child was changed meanwhile, or with a ReferenceInUseError from the storage
+   * adapter if a subtopic or resource was added that the delete did not account for.
+   */
+  async save(entry: TrashEntry, reparented: Topic[] = [], moved: Resource[] = []): Promise<TrashEntry> {
+    return await UnitOfWork.run(async () => {
+      const errors = [
+        ...entry.getValidationErrors(),
+        ...reparented.flatMap(topic => topic.getValidationErrors()),
+        ...moved.flatMap(resource => resource.getValidationErrors())
+      ];
+      if (errors.length > 0) {
+        throw new Error(`Trash entry validation failed: ${errors.join(', ')}`);
+      }
+
+      for (const topic of reparented) {
+        const latest = this.database.findTopicById(topic.id);
+        if (latest && latest.version !== topic.version - 1) {
+          throw new VersionConflictError(latest.version);
+        }
+      }
+
+      return this.database.trashTopics(entry, reparented, moved);
+    });
+  }
+
+  /**
+   * Finds a trash entry by the id of its deleted topic
+   */
+  async findById(id: string): Promise<TrashEntry | null> {
+    return this.database.findTrashEntry(id);
+  }
+
+  /**
+   * Finds all trash entries, most recently deleted first
+   */
+  async findAll(): Promise<TrashEntry[]> {
+    return this.database.findAllTrashEntries()
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * Finds the latest version of a trashed topic
+   */
+  async findTopic(id: string): Promise<Topic | null> {
+    return this.database.findTrashedTopic(id);
+  }
+
+  /**
+   * Moves the topics and resources of an entry back out of the trash
+   */
+  async restore(id: string): Promise<boolean> {
+    return await UnitOfWork.run(async () => this.database.restoreTrashEntry(id));
+  }
+
+  /**
+   * Permanently removes an entry with its topics and resources
+   */
+  async purge(id: string): Promise<boolean> {
+    return await UnitOfWork.run(async () => this.database.purgeTrashEntry(id));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Storage } from './Storage';
+
+/**
+ * Runs multi-step service operations in a storage transaction
+ *
+ * A unit of work keeps all the writes its work makes, or none of them if the work throws.
+ * Units of work run one at a time, so the checks one makes cannot be invalidated by another
+ * halfway; a unit of work started from within another one joins it. Repositories make every
+ * write in a unit of work of its own, so a write from another request or a scheduler tick
+ * waits until the open unit of work is done rather than joining its transaction, where a
+ * rollback would undo it too.
+ */
+export class UnitOfWork {
+  private static queue: Promise<void> = Promise.resolve();
+  private static active = new AsyncLocalStorage<boolean>();
+
+  /**
+   * Runs work in a transaction, committing it if the work succeeds and rolling it back if it throws
+   */
+  static async run<T>(work: () => Promise<T>): Promise<T> {
+    if (UnitOfWork.active.getStore()) {
+      return await work();
+    }
+
+    const previous = UnitOfWork.queue;
+    let release: () => void = () => {};
+    UnitOfWork.queue = new Promise(resolve => {
+      release = resolve;
+    });
+    await previous;
+
+    try {
+      return await UnitOfWork.active.run(true, async () => {
+        const storage = Storage.getAdapter();
+        storage.begin();
+        let result: T;
+        try {
+          result = await work();
+        } catch (error) {
+          storage.rollback();
+          throw error;
+        }
+        storage.commit();
+        return result;
+      });
+    } finally {
+      release();
+    }
+  }
+}
\ No newline at end of file
@@ -1,35 +1,44 @@
 import { IUserRepository } from '../interfaces/IUser';
 import { User } from '../models/User';
-import { InMemoryDatabase } from './InMemoryDatabase';
+import { IStorageAdapter } from '../interfaces/IStorageAdapter';
+import { Storage } from './Storage';
+import { UnitOfWork } from './UnitOfWork';
+import { RoleRepository } from './RoleRepository';
+import { ValidationError } from '../types/errors';
 
 /**
  * Repository implementation for User entity
  */
 export class UserRepository implements IUserRepository {
-  private database: InMemoryDatabase;
+  private roleRepository: RoleRepository;
 
   constructor() {
-    this.database = InMemoryDatabase.getInstance();
+    this.roleRepository = new RoleRepository();
+  }
+
+  private get database(): IStorageAdapter {
+    return Storage.getAdapter();
   }
 
   /**
    * Saves a user to the database
    */
   async save(user: User): Promise<User> {
-    // Validate user before saving
-    const isValid = await user.validate();
-    if (!isValid) {
-      const errors = user.getValidationErrors();
-      throw new Error(`User validation failed: ${errors.join(', ')}`);
-    }
+    return await UnitOfWork.run(async () => {
+      // Validate user before saving (custom roles are valid role names too)
+      const errors = user.getValidationErrors(await this.roleRepository.findAllNames());
+      if (errors.length > 0) {
+        throw new ValidationError(`User validation failed: ${errors.join(', ')}`);
+      }
 
-    // Check for email uniqueness (excluding the current user if updating)
-    const existingUser = await this.findByEmail(user.email);
-    if (existingUser && existingUser.id !== user.id) {
-      throw new Error(`User with email ${user.email} already exists`);
-    }
+      // Check for email uniqueness (excluding the current user if updating)
+      const existingUser = await this.findByEmail(user.email);
+      if (existingUser && existingUser.id !== user.id) {
+        throw new Error(`User with email ${user.email} already exists`);
+      }
 
-    return this.database.saveUser(user);
+      return this.database.saveUser(user);
+    });
   }
 
   /**
@@ -57,7 +66,7 @@ export class UserRepository implements IUserRepository {
    * Deletes a user
    */
   async delete(id: string): Promise<boolean> {
-    return this.database.deleteUser(id);
+    return await UnitOfWork.run(async () => this.database.deleteUser(id));
   }
 
   /**
@@ -83,8 +92,7 @@ export class UserRepository implements IUserRepository {
    * Finds users by role
    */
   async findByRole(role: string): Promise<User[]> {
-    const allUsers = await this.findAll();
-    return allUsers.filter(user => user.role === role);
+    return this.database.findUsersByRole(role);
   }
 
   /**
@@ -137,11 +145,11 @@ export class UserRepository implements IUserRepository {
   async findInvalidUsers(): Promise<{ user: User; errors: string[] }[]> {
     const allUsers = await this.findAll();
     const invalidUsers: { user: User; errors: string[] }[] = [];
+    const customRoles = await this.roleRepository.findAllNames();
 
     for (const user of allUsers) {
-      const isValid = await user.validate();
-      if (!isValid) {
-        const errors = user.getValidationErrors();
+      const errors = user.getValidationErrors(customRoles);
+      if (errors.length > 0) {
         invalidUsers.push({ user, errors });
       }
     }
@@ -158,7 +166,7 @@ export class UserRepository implements IUserRepository {
       return null;
     }
 
-    user.update({ role: newRole as any });
+    user.update({ role: newRole });
     return await this.save(user);
   }
 
@@ -0,0 +1,57 @@
+import { IMigration } from '../../interfaces/IMigration';
+
+/**
+ * Creates the topic, resource and user tables
+ *
+ * Every row keeps the full entity record in `data`; the other columns copy the fields that are
+ * looked up or are useful when querying the database directly.
+ */
+export const createCoreTables: IMigration = {
+  version: 1,
+  name: 'create_core_tables',
+  up: `
+    CREATE TABLE topics (
+      id TEXT PRIMARY KEY,
+      latest_version INTEGER NOT NULL,
+      trashed INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE topic_versions (
+      id TEXT NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      slug TEXT NOT NULL,
+      parent_topic_id TEXT,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (id, version)
+    );
+    CREATE INDEX idx_topic_versions_parent_topic_id ON topic_versions(parent_topic_id);
+    CREATE INDEX idx_topic_versions_slug ON topic_versions(slug);
+
+    CREATE TABLE resources (
+      id TEXT PRIMARY KEY,
+      topic_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      type TEXT NOT NULL,
+      trashed INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX idx_resources_topic_id ON resources(topic_id);
+
+    CREATE TABLE users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      role TEXT NOT NULL,
+      active INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+  `
+};
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { IMigration } from '../../interfaces/IMigration';
+
+/**
+ * Creates the tables for topic access control, custom roles, groups, scheduled actions and the trash
+ */
+export const createAccessAndWorkflowTables: IMigration = {
+  version: 2,
+  name: 'create_access_and_workflow_tables',
+  up: `
+    CREATE TABLE topic_acls (
+      topic_id TEXT PRIMARY KEY,
+      entries TEXT NOT NULL
+    );
+
+    CREATE TABLE roles (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE user_groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE scheduled_actions (
+      id TEXT PRIMARY KEY,
+      topic_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      run_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX idx_scheduled_actions_topic_id ON scheduled_actions(topic_id);
+
+    CREATE TABLE trash_entries (
+      id TEXT PRIMARY KEY,
+      deleted_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+  `
+};
\ No newline at end of file
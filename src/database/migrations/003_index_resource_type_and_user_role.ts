@@ -0,0 +1,13 @@
+import { IMigration } from '../../interfaces/IMigration';
+
+/**
+ * Indexes resources by type and users by role for the lookups by those fields
+ */
+export const indexResourceTypeAndUserRole: IMigration = {
+  version: 3,
+  name: 'index_resource_type_and_user_role',
+  up: `
+    CREATE INDEX idx_resources_type ON resources(type);
+    CREATE INDEX idx_users_role ON users(role);
+  `
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { IMigration } from '../../interfaces/IMigration';
+import { createCoreTables } from './001_create_core_tables';
+import { createAccessAndWorkflowTables } from './002_create_access_and_workflow_tables';
+import { indexResourceTypeAndUserRole } from './003_index_resource_type_and_user_role';
+
+/**
+ * All schema migrations of the SQLite database, in the order they are applied
+ *
+ * Add new migrations as the next numbered file and append them here; never change one that
+ * has been released.
+ */
+export const migrations: IMigration[] = [
+  createCoreTables,
+  createAccessAndWorkflowTables,
+  indexResourceTypeAndUserRole
+];
\ No newline at end of file
@@ -19,12 +19,12 @@ app.listen().catch((error) => {
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('🛑 SIGTERM received. Shutting down gracefully...');
-  process.exit(0);
+  app.close().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   console.log('🛑 SIGINT received. Shutting down gracefully...');
-  process.exit(0);
+  app.close().finally(() => process.exit(0));
 });
 
 // Handle uncaught exceptions
@@ -0,0 +1,41 @@
+/**
+ * Interface for a backup of the whole database
+ *
+ * The data is the storage adapter's export; the checksum is the SHA-256 of its JSON text.
+ * The schema version is raised whenever the shape of the data changes.
+ */
+export interface IBackupArchive {
+  format: string;
+  schemaVersion: number;
+  createdAt: string;
+  checksum: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Ids of the records a restore adds, updates or removes in one collection
+ */
+export interface IRestoreChanges {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+/**
+ * Interface for the outcome of a restore, or of a dry run of one
+ */
+export interface IRestoreReport {
+  dryRun: boolean;
+  schemaVersion: number;
+  createdAt: string;
+  changes: Record<string, IRestoreChanges>;
+}
+
+/**
+ * Interface for Backup repository
+ */
+export interface IBackupRepository {
+  exportAll(): Promise<Record<string, any>>;
+  importAll(data: Record<string, any>): Promise<void>;
+}
\ No newline at end of file
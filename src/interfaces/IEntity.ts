@@ -5,6 +5,8 @@ export interface IEntity {
   id: string;
   createdAt: Date;
   updatedAt: Date;
+  createdBy?: string;
+  updatedBy?: string;
 }
 
 /**
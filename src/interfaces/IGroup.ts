@@ -0,0 +1,24 @@
+import { IEntity, IValidatable } from './IEntity';
+import { RolePermissions } from './IRole';
+
+/**
+ * Interface for Group entity
+ */
+export interface IGroup extends IEntity, IValidatable {
+  name: string;
+  description?: string;
+  memberIds: string[];
+  permissions: RolePermissions;
+}
+
+/**
+ * Interface for Group repository
+ */
+export interface IGroupRepository {
+  save(group: IGroup): Promise<IGroup>;
+  findById(id: string): Promise<IGroup | null>;
+  findByName(name: string): Promise<IGroup | null>;
+  findByMember(userId: string): Promise<IGroup[]>;
+  findAll(): Promise<IGroup[]>;
+  delete(id: string): Promise<boolean>;
+}
\ No newline at end of file
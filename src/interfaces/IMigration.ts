@@ -0,0 +1,8 @@
+/**
+ * Interface for a numbered schema migration of the SQLite database
+ */
+export interface IMigration {
+  version: number;
+  name: string;
+  up: string;
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { IEntity, IValidatable } from './IEntity';
+
+/**
+ * Capabilities a custom role can grant on a resource type
+ *
+ * `deleteOwn` allows deleting only entities the user created; `manage` only applies to users,
+ * roles and groups, and `publish` (approving topic versions for publication) only to topics.
+ */
+export type RoleCapability = 'read' | 'write' | 'delete' | 'deleteOwn' | 'manage' | 'publish';
+
+/**
+ * Capabilities granted by a role, per resource type
+ */
+export type RolePermissions = Record<string, RoleCapability[]>;
+
+/**
+ * Interface for custom Role entity
+ */
+export interface IRole extends IEntity, IValidatable {
+  name: string;
+  description?: string;
+  permissions: RolePermissions;
+}
+
+/**
+ * Interface for Role repository
+ */
+export interface IRoleRepository {
+  save(role: IRole): Promise<IRole>;
+  findById(id: string): Promise<IRole | null>;
+  findByName(name: string): Promise<IRole | null>;
+  findAll(): Promise<IRole[]>;
+  delete(id: string): Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { IEntity, IValidatable } from './IEntity';
+
+/**
+ * What a scheduled action does to its topic version when it runs
+ *
+ * Publishing makes the version the one viewers see, archiving the previously published one.
+ * Expiring archives the version if it is still the published one.
+ */
+export enum ScheduledActionType {
+  PUBLISH = 'publish',
+  EXPIRE = 'expire'
+}
+
+/**
+ * Lifecycle of a scheduled action
+ */
+export enum ScheduledActionStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * Interface for ScheduledAction entity
+ */
+export interface IScheduledAction extends IEntity, IValidatable {
+  topicId: string;
+  version: number;
+  action: ScheduledActionType;
+  runAt: Date;
+  status: ScheduledActionStatus;
+  executedAt?: Date;
+  error?: string;
+}
+
+/**
+ * Filters for listing scheduled actions
+ */
+export interface IScheduledActionFilter {
+  topicId?: string;
+  status?: ScheduledActionStatus;
+}
+
+/**
+ * Interface for ScheduledAction repository
+ */
+export interface IScheduledActionRepository {
+  save(action: IScheduledAction): Promise<IScheduledAction>;
+  findById(id: string): Promise<IScheduledAction | null>;
+  findAll(filter?: IScheduledActionFilter): Promise<IScheduledAction[]>;
+  findDue(now: Date): Promise<IScheduledAction[]>;
+}
\ No newline at end of file
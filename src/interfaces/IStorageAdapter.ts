@@ -0,0 +1,100 @@
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { Role } from '../models/Role';
+import { Group } from '../models/Group';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { TrashEntry } from '../models/TrashEntry';
+import { ITopicAclEntry } from './ITopic';
+
+/**
+ * Storage backends available to the application
+ */
+export enum StorageType {
+  MEMORY = 'memory',
+  FILE = 'file',
+  SQLITE = 'sqlite'
+}
+
+/**
+ * Interface for the storage backend the repositories read and write through
+ *
+ * Reads and writes are synchronous so repositories can check and change data without
+ * yielding in between; backends that persist data load it in `open` and flush it in `close`.
+ * Between `begin` and `commit` all writes are kept or, on `rollback`, none of them; only one
+ * transaction can be open at a time.
+ */
+export interface IStorageAdapter {
+  open(): Promise<void>;
+  close(): Promise<void>;
+  clear(): void;
+
+  // Transactions
+  begin(): void;
+  commit(): void;
+  rollback(): void;
+
+  // Topics
+  saveTopic(topic: Topic): Topic;
+  findTopicById(id: string, version?: number): Topic | null;
+  findTopicVersions(id: string): Topic[];
+  findTopicIdBySlug(slug: string): string | null;
+  isTopicSlugTaken(slug: string, topicId?: string): boolean;
+  findFreeTopicSlug(baseSlug: string, topicId?: string): string;
+  findAllTopics(): Topic[];
+  findTopicsByParentId(parentId: string): Topic[];
+  deleteTopic(id: string): boolean;
+
+  // Topic access control
+  saveTopicAcl(topicId: string, entries: ITopicAclEntry[]): ITopicAclEntry[];
+  findTopicAcl(topicId: string): ITopicAclEntry[];
+
+  // Resources
+  saveResource(resource: Resource): Resource;
+  findResourceById(id: string): Resource | null;
+  findAllResources(): Resource[];
+  findResourcesByTopicId(topicId: string): Resource[];
+  findResourcesByType(type: string): Resource[];
+  deleteResource(id: string): boolean;
+
+  // Users
+  saveUser(user: User): User;
+  findUserById(id: string): User | null;
+  findUserByEmail(email: string): User | null;
+  findUsersByRole(role: string): User[];
+  findAllUsers(): User[];
+  deleteUser(id: string): boolean;
+
+  // Roles
+  saveRole(role: Role): Role;
+  findRoleById(id: string): Role | null;
+  findRoleByName(name: string): Role | null;
+  findAllRoles(): Role[];
+  deleteRole(id: string): boolean;
+
+  // Groups
+  saveGroup(group: Group): Group;
+  findGroupById(id: string): Group | null;
+  findGroupByName(name: string): Group | null;
+  findGroupsByMember(userId: string): Group[];
+  findAllGroups(): Group[];
+  deleteGroup(id: string): boolean;
+
+  // Scheduled actions
+  saveScheduledAction(action: ScheduledAction): ScheduledAction;
+  findScheduledActionById(id: string): ScheduledAction | null;
+  findAllScheduledActions(): ScheduledAction[];
+
+  // Trash
+  trashTopics(entry: TrashEntry, topics?: Topic[], resources?: Resource[]): TrashEntry;
+  findTrashEntry(id: string): TrashEntry | null;
+  findAllTrashEntries(): TrashEntry[];
+  findTrashedTopic(id: string): Topic | null;
+  restoreTrashEntry(id: string): boolean;
+  purgeTrashEntry(id: string): boolean;
+
+  // Utilities
+  getStats(): Record<string, number>;
+  exportData(): Record<string, any>;
+  importData(data: Record<string, any>): void;
+}
\ No newline at end of file
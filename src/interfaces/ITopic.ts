@@ -1,12 +1,116 @@
 import { IEntity, IVersionable, IHierarchical, IValidatable } from './IEntity';
+import { DiffStats, LineDiff, MergeConflictHunk } from '../algorithms/TextDiffAlgorithm';
+import { ITrashEntry } from './ITrash';
 
 /**
  * Interface for Topic entity
  */
 export interface ITopic extends IEntity, IVersionable, IHierarchical, IValidatable {
   name: string;
+  slug?: string;
   content: string;
   parentTopicId?: string;
+  topicCreatedAt?: Date;
+  authorId?: string;
+  changeMessage?: string;
+  status?: TopicStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewComment?: string;
+  publishedAt?: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Lifecycle states of a topic version
+ *
+ * New versions start as drafts and go live once a reviewer approves them. Publishing a
+ * version archives the one published before it.
+ */
+export enum TopicStatus {
+  DRAFT = 'draft',
+  IN_REVIEW = 'in_review',
+  PUBLISHED = 'published',
+  ARCHIVED = 'archived'
+}
+
+/**
+ * Access levels grantable on a topic, in increasing order of privilege
+ */
+export enum TopicAccessLevel {
+  READ = 'read',
+  WRITE = 'write',
+  ADMIN = 'admin'
+}
+
+/**
+ * Kind of principal an access control entry applies to
+ */
+export enum PrincipalType {
+  USER = 'user',
+  GROUP = 'group'
+}
+
+/**
+ * Access control entry granting a principal a level of access to a topic
+ */
+export interface ITopicAclEntry {
+  principalType: PrincipalType;
+  principalId: string;
+  level: TopicAccessLevel;
+}
+
+/**
+ * Access control list in effect for a topic, with the topic it was inherited from
+ */
+export interface IEffectiveTopicAcl {
+  sourceTopicId: string;
+  inherited: boolean;
+  entries: ITopicAclEntry[];
+}
+
+/**
+ * Change of a single topic field between two versions
+ */
+export interface ITopicFieldChange {
+  field: 'name' | 'slug' | 'parentTopicId';
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * Differences between two versions of a topic
+ */
+export interface ITopicVersionDiff {
+  topicId: string;
+  fromVersion: number;
+  toVersion: number;
+  fields: ITopicFieldChange[];
+  content: {
+    lines: LineDiff[];
+    stats: DiffStats;
+  };
+}
+
+/**
+ * Field changed differently by a concurrent edit and the current version
+ */
+export interface ITopicFieldConflict {
+  field: 'name' | 'slug' | 'parentTopicId';
+  base: string | null;
+  current: string | null;
+  incoming: string | null;
+}
+
+/**
+ * Conflicts found while merging an edit built on an older version into the current version
+ */
+export interface ITopicMergeConflict {
+  baseVersion: number;
+  currentVersion: number;
+  fields: ITopicFieldConflict[];
+  content?: string;
+  hunks: MergeConflictHunk[];
 }
 
 /**
@@ -17,7 +121,7 @@ export interface ITopicService {
   findById(id: string, version?: number): Promise<ITopic | null>;
   findAll(): Promise<ITopic[]>;
   update(id: string, updateData: Partial<ITopic>): Promise<ITopic>;
-  delete(id: string): Promise<boolean>;
+  delete(id: string): Promise<ITrashEntry | null>;
   getVersions(id: string): Promise<ITopic[]>;
   getTopicTree(id: string): Promise<ITopicTree>;
   findShortestPath(fromId: string, toId: string): Promise<ITopic[]>;
@@ -37,6 +141,7 @@ export interface ITopicTree {
 export interface ITopicRepository {
   save(topic: ITopic): Promise<ITopic>;
   findById(id: string, version?: number): Promise<ITopic | null>;
+  findBySlug(slug: string, version?: number): Promise<ITopic | null>;
   findAll(): Promise<ITopic[]>;
   findByParentId(parentId: string): Promise<ITopic[]>;
   findVersions(id: string): Promise<ITopic[]>;
@@ -0,0 +1,41 @@
+import { IEntity, IValidatable } from './IEntity';
+import { ITopic } from './ITopic';
+import { IResource } from './IResource';
+
+/**
+ * Interface for a topic in the trash, together with the subtopics and resources deleted with it
+ *
+ * The entry takes the id of the deleted topic.
+ */
+export interface ITrashEntry extends IEntity, IValidatable {
+  name: string;
+  parentTopicId?: string;
+  topicIds: string[];
+  resourceIds: string[];
+  policy: TopicDeletePolicy;
+  deletedAt: Date;
+  deletedBy?: string;
+}
+
+/**
+ * What deleting a topic does with its subtopics and resources
+ *
+ * Rejecting refuses to delete a topic that has any. Cascading trashes the whole subtree with
+ * all its resources. Re-parenting moves the children and resources to the deleted topic's parent.
+ */
+export enum TopicDeletePolicy {
+  REJECT = 'reject',
+  CASCADE = 'cascade',
+  REPARENT = 'reparent'
+}
+
+/**
+ * Interface for Trash repository
+ */
+export interface ITrashRepository {
+  save(entry: ITrashEntry, reparented?: ITopic[], moved?: IResource[]): Promise<ITrashEntry>;
+  findById(id: string): Promise<ITrashEntry | null>;
+  findAll(): Promise<ITrashEntry[]>;
+  restore(id: string): Promise<boolean>;
+  purge(id: string): Promise<boolean>;
+}
\ No newline at end of file
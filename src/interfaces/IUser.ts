@@ -9,13 +9,20 @@ export enum UserRole {
   VIEWER = 'Viewer'
 }
 
+/**
+ * Name of a built-in role or of a custom role defined through the API
+ */
+export type RoleName = UserRole | string;
+
 /**
  * Interface for User entity
  */
 export interface IUser extends IEntity, IValidatable {
   name: string;
   email: string;
-  role: UserRole;
+  role: RoleName;
+  active?: boolean;
+  deactivatedAt?: Date;
 }
 
 /**
@@ -45,8 +52,9 @@ export interface IUserRepository {
  * Interface for permission checking
  */
 export interface IPermissionService {
-  canRead(user: IUser, resourceType: string): boolean;
-  canWrite(user: IUser, resourceType: string): boolean;
-  canDelete(user: IUser, resourceType: string): boolean;
+  canRead(user: IUser, resourceType: string, entity?: IEntity): boolean;
+  canWrite(user: IUser, resourceType: string, entity?: IEntity): boolean;
+  canDelete(user: IUser, resourceType: string, entity?: IEntity): boolean;
   canManageUsers(user: IUser): boolean;
+  canPublish(user: IUser, resourceType: string): boolean;
 }
\ No newline at end of file
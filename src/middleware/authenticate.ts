@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserService } from '../services/UserService';
+import { UnauthorizedError } from '../types/errors';
+
+const userService = new UserService();
+
+/**
+ * Resolves the bearer token in the Authorization header into `req.user`
+ */
+export const authenticate = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    next(new UnauthorizedError('Authentication token is required'));
+    return;
+  }
+
+  try {
+    req.user = await userService.findByAccessToken(header.slice('Bearer '.length).trim());
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
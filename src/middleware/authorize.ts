@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { PermissionService, PermissionAction } from '../services/PermissionService';
+import { IEntity } from '../interfaces/IEntity';
+import { TopicRepository } from '../database/TopicRepository';
+import { ResourceRepository } from '../database/ResourceRepository';
+import { UserRepository } from '../database/UserRepository';
+import { TopicAccessService } from '../services/TopicAccessService';
+import { TopicAccessLevel } from '../interfaces/ITopic';
+import { UserRole } from '../interfaces/IUser';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../types/errors';
+
+const permissionService = new PermissionService();
+const topicAccessService = new TopicAccessService();
+
+/**
+ * Loaders used to resolve the entity targeted by `req.params.id`, per resource type
+ */
+const entityLoaders: Record<string, (id: string) => Promise<IEntity | null>> = {
+  topic: (id) => new TopicRepository().findById(id),
+  resource: (id) => new ResourceRepository().findById(id),
+  user: (id) => new UserRepository().findById(id)
+};
+
+/**
+ * Options for the requirePermission middleware
+ */
+export interface RequirePermissionOptions {
+  /**
+   * Also allow the request when `req.params.id` is the caller's own user id
+   */
+  allowSelf?: boolean;
+
+  /**
+   * Evaluate the permission against the entity identified by `req.params.id`,
+   * so strategies can apply ownership rules
+   */
+  withEntity?: boolean;
+}
+
+/**
+ * Creates a middleware that rejects callers whose role lacks the given permission
+ */
+export const requirePermission = (
+  action: PermissionAction,
+  resourceType: string,
+  options: RequirePermissionOptions = {}
+) => async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+  const user = req.user;
+  if (!user) {
+    next(new UnauthorizedError('Authentication token is required'));
+    return;
+  }
+
+  if (options.allowSelf && req.params.id === user.id) {
+    next();
+    return;
+  }
+
+  try {
+    let entity: IEntity | undefined;
+    if (options.withEntity && entityLoaders[resourceType]) {
+      // A missing entity is left for the route handler to report as 404
+      entity = (await entityLoaders[resourceType](req.params.id)) || undefined;
+    }
+
+    if (!permissionService.hasPermission(user, action, resourceType, entity)) {
+      const target = entity ? `this ${resourceType}` : `${resourceType}s`;
+      next(new ForbiddenError(`Role ${user.role} is not allowed to ${action} ${target}`));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a middleware that only lets callers holding one of the given built-in roles through
+ *
+ * For operations no capability of a custom role or group should grant, e.g. backups.
+ */
+export const requireRole = (...roles: UserRole[]) => (req: Request, _res: Response, next: NextFunction): void => {
+  const user = req.user;
+  if (!user) {
+    next(new UnauthorizedError('Authentication token is required'));
+    return;
+  }
+
+  if (!roles.includes(user.role as UserRole)) {
+    next(new ForbiddenError(`Role ${user.role} is not allowed to do this (requires ${roles.join(' or ')})`));
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Creates a middleware that enforces a topic's access control list
+ *
+ * The topic defaults to `req.params.id`; a custom selector can point at e.g. a parent id in
+ * the body, or resolve one asynchronously. Topics the caller cannot read are reported as 404 so their existence is not
+ * disclosed, and a missing topic is left for the route handler to report.
+ */
+export const requireTopicAccess = (
+  level: TopicAccessLevel,
+  selectTopicId: (req: Request) => string | undefined | Promise<string | undefined> = (req) => req.params.id
+) => async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+  const user = req.user;
+  if (!user) {
+    next(new UnauthorizedError('Authentication token is required'));
+    return;
+  }
+
+  try {
+    const topicId = await selectTopicId(req);
+    const topic = topicId ? await new TopicRepository().findById(topicId) : null;
+    if (!topic) {
+      next();
+      return;
+    }
+
+    const cache = new Map();
+    if (!(await topicAccessService.canAccess(user, topic, TopicAccessLevel.READ, cache))) {
+      next(new NotFoundError('Topic'));
+      return;
+    }
+
+    if (level !== TopicAccessLevel.READ && !(await topicAccessService.canAccess(user, topic, level, cache))) {
+      next(new ForbiddenError(`Access level ${level} is required on topic ${topic.id}`));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Topic selector for routes that address a topic by its slug in `req.params.slug`
+ */
+export const topicIdFromSlug = async (req: Request): Promise<string | undefined> => {
+  const topic = await new TopicRepository().findBySlug(req.params.slug);
+  return topic?.id;
+};
+
+/**
+ * Topic selector for routes that address a resource by `req.params.id`, resolving to its topic
+ */
+export const topicIdOfResource = async (req: Request): Promise<string | undefined> => {
+  const resource = await new ResourceRepository().findById(req.params.id);
+  return resource?.topicId;
+};
\ No newline at end of file
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import Database from 'better-sqlite3';
+import { MigrationRunner } from './database/MigrationRunner';
+
+// Load environment variables
+dotenv.config();
+
+// Get the database file from environment or use default
+const filename = process.env.SQLITE_PATH || path.join('data', 'knowledge-base.sqlite');
+
+fs.mkdirSync(path.dirname(filename), { recursive: true });
+const db = new Database(filename);
+
+try {
+  const runner = new MigrationRunner(db);
+  const applied = runner.migrate();
+
+  if (applied.length === 0) {
+    console.log(`✅ ${filename} is up to date at schema version ${runner.getCurrentVersion()}`);
+  } else {
+    for (const migration of applied) {
+      console.log(`⬆️  Applied migration ${migration.version} (${migration.name})`);
+    }
+    console.log(`✅ ${filename} migrated to schema version ${runner.getCurrentVersion()}`);
+  }
+} catch (error) {
+  console.error('💥 Migration failed:', error);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
\ No newline at end of file
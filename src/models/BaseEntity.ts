@@ -8,6 +8,8 @@ export abstract class BaseEntity implements IEntity, IValidatable {
   public readonly id: string;
   public readonly createdAt: Date;
   public updatedAt: Date;
+  public createdBy?: string;
+  public updatedBy?: string;
 
   constructor(id?: string) {
     this.id = id || uuidv4();
@@ -22,6 +24,40 @@ export abstract class BaseEntity implements IEntity, IValidatable {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Records the user who created the entity (ignored when no user is known)
+   */
+  setCreatedBy(userId?: string): void {
+    if (!userId) return;
+    this.createdBy = userId;
+    this.updatedBy = userId;
+  }
+
+  /**
+   * Records the user who last updated the entity (ignored when no user is known)
+   */
+  setUpdatedBy(userId?: string): void {
+    if (!userId) return;
+    this.updatedBy = userId;
+  }
+
+  /**
+   * Restores the timestamps and authors of an entity loaded from storage
+   */
+  restoreAuditFields(data: { createdAt?: string | Date; updatedAt?: string | Date; createdBy?: string; updatedBy?: string }): void {
+    if (data.createdAt) (this as { createdAt: Date }).createdAt = new Date(data.createdAt);
+    if (data.updatedAt) this.updatedAt = new Date(data.updatedAt);
+    this.createdBy = data.createdBy ?? this.createdBy;
+    this.updatedBy = data.updatedBy ?? this.updatedBy;
+  }
+
+  /**
+   * Checks if the entity was created by the given user
+   */
+  isOwnedBy(userId: string): boolean {
+    return this.createdBy !== undefined && this.createdBy === userId;
+  }
+
   /**
    * Abstract method for validation - must be implemented by subclasses
    */
@@ -39,7 +75,9 @@ export abstract class BaseEntity implements IEntity, IValidatable {
     return {
       id: this.id,
       createdAt: this.createdAt,
-      updatedAt: this.updatedAt
+      updatedAt: this.updatedAt,
+      createdBy: this.createdBy,
+      updatedBy: this.updatedBy
     };
   }
 
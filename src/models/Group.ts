@@ -0,0 +1,116 @@
+import { BaseEntity } from './BaseEntity';
+import { Role } from './Role';
+import { IGroup } from '../interfaces/IGroup';
+import { RolePermissions } from '../interfaces/IRole';
+
+/**
+ * Group of users sharing a set of capabilities per resource type
+ */
+export class Group extends BaseEntity implements IGroup {
+  public name: string;
+  public description?: string;
+  public memberIds: string[];
+  public permissions: RolePermissions;
+
+  constructor(
+    name: string,
+    permissions: RolePermissions = {},
+    description?: string,
+    memberIds: string[] = [],
+    id?: string
+  ) {
+    super(id);
+    this.name = name;
+    this.permissions = permissions;
+    this.description = description;
+    this.memberIds = memberIds;
+  }
+
+  /**
+   * Validates the group
+   */
+  async validate(): Promise<boolean> {
+    const errors = this.getValidationErrors();
+    return errors.length === 0;
+  }
+
+  /**
+   * Gets validation errors
+   */
+  getValidationErrors(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    }
+
+    if (this.name && this.name.length > 100) {
+      errors.push('Name must be less than 100 characters');
+    }
+
+    if (this.description && this.description.length > 500) {
+      errors.push('Description must be less than 500 characters');
+    }
+
+    if (!Array.isArray(this.memberIds) || this.memberIds.some(id => typeof id !== 'string')) {
+      errors.push('Member ids must be an array of strings');
+    }
+
+    errors.push(...Role.getPermissionErrors(this.permissions));
+
+    return errors;
+  }
+
+  /**
+   * Checks if a user belongs to the group
+   */
+  hasMember(userId: string): boolean {
+    return this.memberIds.includes(userId);
+  }
+
+  /**
+   * Adds a user to the group (no-op if already a member)
+   */
+  addMember(userId: string): void {
+    if (!this.hasMember(userId)) {
+      this.memberIds.push(userId);
+      this.touch();
+    }
+  }
+
+  /**
+   * Removes a user from the group, returning whether they were a member
+   */
+  removeMember(userId: string): boolean {
+    if (!this.hasMember(userId)) {
+      return false;
+    }
+    this.memberIds = this.memberIds.filter(id => id !== userId);
+    this.touch();
+    return true;
+  }
+
+  /**
+   * Updates group properties
+   */
+  update(updateData: Partial<Pick<IGroup, 'name' | 'description' | 'permissions'>>): void {
+    if (updateData.name !== undefined) this.name = updateData.name;
+    if (updateData.description !== undefined) this.description = updateData.description;
+    if (updateData.permissions !== undefined) this.permissions = updateData.permissions;
+
+    this.touch();
+  }
+
+  /**
+   * Converts group to JSON representation
+   */
+  toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this.name,
+      description: this.description,
+      memberIds: [...this.memberIds],
+      permissions: this.permissions
+    };
+  }
+}
\ No newline at end of file
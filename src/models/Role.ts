@@ -0,0 +1,136 @@
+import { BaseEntity } from './BaseEntity';
+import { IRole, RoleCapability, RolePermissions } from '../interfaces/IRole';
+import { UserRole } from '../interfaces/IUser';
+
+/**
+ * Custom role defined at runtime as a named set of capabilities per resource type
+ */
+export class Role extends BaseEntity implements IRole {
+  static readonly RESOURCE_TYPES = ['topic', 'resource', 'user', 'role', 'group'];
+  static readonly CAPABILITIES: RoleCapability[] = ['read', 'write', 'delete', 'deleteOwn', 'manage', 'publish'];
+  static readonly MANAGED_TYPES = ['user', 'role', 'group'];
+
+  public name: string;
+  public description?: string;
+  public permissions: RolePermissions;
+
+  constructor(
+    name: string,
+    permissions: RolePermissions = {},
+    description?: string,
+    id?: string
+  ) {
+    super(id);
+    this.name = name;
+    this.permissions = permissions;
+    this.description = description;
+  }
+
+  /**
+   * Validates the role
+   */
+  async validate(): Promise<boolean> {
+    const errors = this.getValidationErrors();
+    return errors.length === 0;
+  }
+
+  /**
+   * Gets validation errors
+   */
+  getValidationErrors(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    }
+
+    if (this.name && this.name.length > 50) {
+      errors.push('Name must be less than 50 characters');
+    }
+
+    if (this.name && Role.isBuiltIn(this.name)) {
+      errors.push(`Name ${this.name} is reserved for a built-in role`);
+    }
+
+    if (this.description && this.description.length > 500) {
+      errors.push('Description must be less than 500 characters');
+    }
+
+    errors.push(...Role.getPermissionErrors(this.permissions));
+
+    return errors;
+  }
+
+  /**
+   * Gets validation errors for a set of capabilities per resource type
+   */
+  static getPermissionErrors(permissions: RolePermissions): string[] {
+    const errors: string[] = [];
+
+    if (!permissions || typeof permissions !== 'object' || Array.isArray(permissions)) {
+      errors.push('Permissions must be an object keyed by resource type');
+      return errors;
+    }
+
+    for (const [resourceType, capabilities] of Object.entries(permissions)) {
+      if (!Role.RESOURCE_TYPES.includes(resourceType)) {
+        errors.push(`Unknown resource type: ${resourceType}`);
+        continue;
+      }
+
+      if (!Array.isArray(capabilities)) {
+        errors.push(`Capabilities for ${resourceType} must be an array`);
+        continue;
+      }
+
+      for (const capability of capabilities) {
+        if (!Role.CAPABILITIES.includes(capability)) {
+          errors.push(`Unknown capability ${capability} for ${resourceType}`);
+        } else if (capability === 'manage' && !Role.MANAGED_TYPES.includes(resourceType)) {
+          errors.push(`Capability manage only applies to ${Role.MANAGED_TYPES.join(', ')}`);
+        } else if (capability === 'publish' && resourceType !== 'topic') {
+          errors.push('Capability publish only applies to topic');
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks if the role grants a capability on a resource type
+   */
+  allows(resourceType: string, capability: RoleCapability): boolean {
+    return (this.permissions[resourceType] || []).includes(capability);
+  }
+
+  /**
+   * Updates role properties
+   */
+  update(updateData: Partial<Pick<IRole, 'name' | 'description' | 'permissions'>>): void {
+    if (updateData.name !== undefined) this.name = updateData.name;
+    if (updateData.description !== undefined) this.description = updateData.description;
+    if (updateData.permissions !== undefined) this.permissions = updateData.permissions;
+
+    this.touch();
+  }
+
+  /**
+   * Checks if a name belongs to a built-in role (case-insensitive)
+   */
+  static isBuiltIn(name: string): boolean {
+    return Object.values(UserRole).some(role => role.toLowerCase() === name.trim().toLowerCase());
+  }
+
+  /**
+   * Converts role to JSON representation
+   */
+  toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      name: this.name,
+      description: this.description,
+      permissions: this.permissions
+    };
+  }
+}
\ No newline at end of file
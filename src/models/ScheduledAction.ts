@@ -0,0 +1,124 @@
+import { BaseEntity } from './BaseEntity';
+import { IScheduledAction, ScheduledActionStatus, ScheduledActionType } from '../interfaces/IScheduledAction';
+
+/**
+ * Action on a topic version that the scheduler runs at a given time
+ */
+export class ScheduledAction extends BaseEntity implements IScheduledAction {
+  public topicId: string;
+  public version: number;
+  public action: ScheduledActionType;
+  public runAt: Date;
+  public status: ScheduledActionStatus = ScheduledActionStatus.PENDING;
+  public executedAt?: Date;
+  public error?: string;
+
+  constructor(
+    topicId: string,
+    version: number,
+    action: ScheduledActionType,
+    runAt: Date,
+    id?: string
+  ) {
+    super(id);
+    this.topicId = topicId;
+    this.version = version;
+    this.action = action;
+    this.runAt = runAt;
+  }
+
+  /**
+   * Validates the scheduled action
+   */
+  async validate(): Promise<boolean> {
+    const errors = this.getValidationErrors();
+    return errors.length === 0;
+  }
+
+  /**
+   * Gets validation errors
+   */
+  getValidationErrors(): string[] {
+    const errors: string[] = [];
+
+    if (!this.topicId || this.topicId.trim().length === 0) {
+      errors.push('Topic id is required');
+    }
+
+    if (!Number.isInteger(this.version) || this.version < 1) {
+      errors.push('Version must be a positive integer');
+    }
+
+    if (!Object.values(ScheduledActionType).includes(this.action)) {
+      errors.push(`Action must be one of: ${Object.values(ScheduledActionType).join(', ')}`);
+    }
+
+    if (!(this.runAt instanceof Date) || isNaN(this.runAt.getTime())) {
+      errors.push('Run time must be a valid date');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks if the action is waiting to run
+   */
+  isPending(): boolean {
+    return this.status === ScheduledActionStatus.PENDING;
+  }
+
+  /**
+   * Checks if the action is pending and its time has come
+   */
+  isDue(now: Date): boolean {
+    return this.isPending() && this.runAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Marks the action as run successfully
+   */
+  complete(): void {
+    this.finish(ScheduledActionStatus.COMPLETED);
+  }
+
+  /**
+   * Marks the action as run unsuccessfully, keeping the reason
+   */
+  fail(error: string): void {
+    this.finish(ScheduledActionStatus.FAILED);
+    this.error = error;
+  }
+
+  /**
+   * Cancels the action so it never runs
+   */
+  cancel(): void {
+    this.status = ScheduledActionStatus.CANCELLED;
+    this.touch();
+  }
+
+  /**
+   * Records the outcome of running the action
+   */
+  private finish(status: ScheduledActionStatus): void {
+    this.status = status;
+    this.executedAt = new Date();
+    this.touch();
+  }
+
+  /**
+   * Converts scheduled action to JSON representation
+   */
+  toJSON(): Record<string, any> {
+    return {
+      ...super.toJSON(),
+      topicId: this.topicId,
+      version: this.version,
+      action: this.action,
+      runAt: this.runAt,
+      status: this.status,
+      executedAt: this.executedAt,
+      error: this.error
+    };
+  }
+}
\ No newline at end of file
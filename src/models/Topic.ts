@@ -1,15 +1,26 @@
 import { BaseEntity } from './BaseEntity';
-import { ITopic, ITopicRepository } from '../interfaces/ITopic';
+import { ITopic, ITopicRepository, TopicStatus } from '../interfaces/ITopic';
 import { IVersionable, IHierarchical } from '../interfaces/IEntity';
+import { TopicSlug } from '../utils/TopicSlug';
 
 /**
  * Topic entity with versioning and hierarchical structure
  */
 export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarchical {
   public name: string;
+  public slug: string;
   public content: string;
   public version: number;
   public parentTopicId?: string;
+  public topicCreatedAt: Date;
+  public authorId?: string;
+  public changeMessage?: string;
+  public status: TopicStatus = TopicStatus.DRAFT;
+  public reviewedBy?: string;
+  public reviewedAt?: Date;
+  public reviewComment?: string;
+  public publishedAt?: Date;
+  public expiresAt?: Date;
   private repository?: ITopicRepository;
 
   constructor(
@@ -21,9 +32,11 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
   ) {
     super(id);
     this.name = name;
+    this.slug = TopicSlug.fromName(name);
     this.content = content;
     this.parentTopicId = parentTopicId;
     this.version = version;
+    this.topicCreatedAt = this.createdAt;
   }
 
   /**
@@ -33,6 +46,86 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
     this.repository = repository;
   }
 
+  /**
+   * Records the user who created the topic as the author of this version
+   */
+  setCreatedBy(userId?: string): void {
+    super.setCreatedBy(userId);
+    if (userId) this.authorId = userId;
+  }
+
+  /**
+   * Records the user who updated the topic as the author of this version
+   */
+  setUpdatedBy(userId?: string): void {
+    super.setUpdatedBy(userId);
+    if (userId) this.authorId = userId;
+  }
+
+  /**
+   * Sets the change message describing this version
+   */
+  setChangeMessage(message?: string): void {
+    this.changeMessage = message?.trim() || undefined;
+  }
+
+  /**
+   * Submits this version for review
+   */
+  submitForReview(): void {
+    this.status = TopicStatus.IN_REVIEW;
+    this.reviewedBy = undefined;
+    this.reviewedAt = undefined;
+    this.reviewComment = undefined;
+  }
+
+  /**
+   * Approves this version and publishes it
+   */
+  approve(reviewerId?: string, comment?: string): void {
+    this.recordReview(reviewerId, comment);
+    this.status = TopicStatus.PUBLISHED;
+    this.publishedAt = new Date();
+  }
+
+  /**
+   * Rejects this version, sending it back to draft
+   */
+  reject(reviewerId: string | undefined, comment: string): void {
+    this.recordReview(reviewerId, comment);
+    this.status = TopicStatus.DRAFT;
+  }
+
+  /**
+   * Archives this version, taking it out of publication
+   */
+  archive(): void {
+    this.status = TopicStatus.ARCHIVED;
+  }
+
+  /**
+   * Checks if this version is the live one
+   */
+  isPublished(): boolean {
+    return this.status === TopicStatus.PUBLISHED;
+  }
+
+  /**
+   * Checks if this version has ever been published
+   */
+  wasPublished(): boolean {
+    return this.publishedAt !== undefined;
+  }
+
+  /**
+   * Records the outcome of a review
+   */
+  private recordReview(reviewerId?: string, comment?: string): void {
+    this.reviewedBy = reviewerId;
+    this.reviewedAt = new Date();
+    this.reviewComment = comment?.trim() || undefined;
+  }
+
   /**
    * Validates the topic
    */
@@ -55,6 +148,10 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
       errors.push('Name must be less than 255 characters');
     }
 
+    if (!TopicSlug.isValid(this.slug)) {
+      errors.push('Slug must be lowercase letters and digits separated by single hyphens, at most 100 characters');
+    }
+
     if (!this.content || this.content.trim().length === 0) {
       errors.push('Content is required');
     }
@@ -63,6 +160,10 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
       errors.push('Version must be greater than 0');
     }
 
+    if (this.changeMessage && this.changeMessage.length > 500) {
+      errors.push('Change message must be less than 500 characters');
+    }
+
     return errors;
   }
 
@@ -75,6 +176,9 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
 
   /**
    * Creates a new version of the topic
+   *
+   * The new version keeps the topic's slug and original creation time; its author and change message
+   * start empty and are recorded by whoever makes the change. It starts as a draft.
    */
   createNewVersion(): Topic {
     const newTopic = new Topic(
@@ -84,6 +188,10 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
       this.version + 1,
       this.id // Keep the same ID for versioning
     );
+    newTopic.slug = this.slug;
+    newTopic.createdBy = this.createdBy;
+    newTopic.updatedBy = this.updatedBy;
+    newTopic.topicCreatedAt = this.topicCreatedAt;
     newTopic.setRepository(this.repository!);
     return newTopic;
   }
@@ -160,9 +268,19 @@ export class Topic extends BaseEntity implements ITopic, IVersionable, IHierarch
     return {
       ...super.toJSON(),
       name: this.name,
+      slug: this.slug,
       content: this.content,
       version: this.version,
-      parentTopicId: this.parentTopicId
+      parentTopicId: this.parentTopicId,
+      topicCreatedAt: this.topicCreatedAt,
+      authorId: this.authorId,
+      changeMessage: this.changeMessage,
+      status: this.status,
+      reviewedBy: this.reviewedBy,
+      reviewedAt: this.reviewedAt,
+      reviewComment: this.reviewComment,
+      publishedAt: this.publishedAt,
+      expiresAt: this.expiresAt
     };
   }
 }
\ No newline at end of file
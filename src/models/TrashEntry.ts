@@ -0,0 +1,81 @@
+import { BaseEntity } from './BaseEntity';
+import { ITrashEntry, TopicDeletePolicy } from '../interfaces/ITrash';
+
+/**
+ * Topic moved to the trash, with the ids of the subtopics and resources trashed along with it
+ */
+export class TrashEntry extends BaseEntity implements ITrashEntry {
+  public name: string;
+  public parentTopicId?: string;
+  public topicIds: string[];
+  public resourceIds: string[];
+  public policy: TopicDeletePolicy;
+  public deletedAt: Date;
+  public deletedBy?: string;
+
+  constructor(
+    topicId: string,
+    name: string,
+    parentTopicId?: string,
+    topicIds: string[] = [topicId],
+    resourceIds: string[] = [],
+    policy: TopicDeletePolicy = TopicDeletePolicy.REJECT
+  ) {
+    super(topicId);
+    this.name = name;
+    this.parentTopicId = parentTopicId;
+    this.topicIds = topicIds;
+    this.resourceIds = resourceIds;
+    this.policy = policy;
+    this.deletedAt = this.createdAt;
+  }
+
+  /**
+   * Records the user who deleted the topic
+   */
+  setCreatedBy(userId?: string): void {
+    super.setCreatedBy(userId);
+    if (userId) this.deletedBy = userId;
+  }
+
+  /**
+   * Validates the trash entry
+   */
+  async validate(): Promise<boolean> {
+    const errors = this.getValidationErrors();
+    return errors.length === 0;
+  }
+
+  /**
+   * Gets validation errors
+   */
+  getValidationErrors(): string[] {
+    const errors: string[] = [];
+
+    if (this.topicIds[0] !== this.id) {
+      errors.push('Trashed topic ids must start with the deleted topic');
+    }
+
+    if (new Set(this.topicIds).size !== this.topicIds.length) {
+      errors.push('Trashed topic ids must be unique');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Converts trash entry to JSON representation
+   */
+  toJSON(): Record<string, any> {
+    return {
+      id: this.id,
+      name: this.name,
+      parentTopicId: this.parentTopicId,
+      topicIds: [...this.topicIds],
+      resourceIds: [...this.resourceIds],
+      policy: this.policy,
+      deletedAt: this.deletedAt,
+      deletedBy: this.deletedBy
+    };
+  }
+}
\ No newline at end of file
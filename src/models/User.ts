@@ -1,5 +1,6 @@
 import { BaseEntity } from './BaseEntity';
-import { IUser, UserRole } from '../interfaces/IUser';
+import { IUser, RoleName, UserRole } from '../interfaces/IUser';
+import { PasswordHasher } from '../utils/PasswordHasher';
 
 /**
  * User entity with role-based permissions
@@ -7,12 +8,16 @@ import { IUser, UserRole } from '../interfaces/IUser';
 export class User extends BaseEntity implements IUser {
   public name: string;
   public email: string;
-  public role: UserRole;
+  public role: RoleName;
+  public active: boolean = true;
+  public deactivatedAt?: Date;
+  public deactivationReason?: string;
+  private passwordHash?: string;
 
   constructor(
     name: string,
     email: string,
-    role: UserRole = UserRole.VIEWER,
+    role: RoleName = UserRole.VIEWER,
     id?: string
   ) {
     super(id);
@@ -30,9 +35,9 @@ export class User extends BaseEntity implements IUser {
   }
 
   /**
-   * Gets validation errors
+   * Gets validation errors, accepting the given custom role names besides the built-in roles
    */
-  getValidationErrors(): string[] {
+  getValidationErrors(customRoles: string[] = []): string[] {
     const errors: string[] = [];
 
     if (!this.name || this.name.trim().length === 0) {
@@ -51,7 +56,7 @@ export class User extends BaseEntity implements IUser {
       errors.push('Email must be a valid email format');
     }
 
-    if (!Object.values(UserRole).includes(this.role)) {
+    if (!Object.values(UserRole).includes(this.role as UserRole) && !customRoles.includes(this.role)) {
       errors.push('Invalid user role');
     }
 
@@ -77,6 +82,72 @@ export class User extends BaseEntity implements IUser {
     this.touch();
   }
 
+  /**
+   * Sets a new password, storing only its salted hash
+   */
+  async setPassword(password: string): Promise<void> {
+    this.passwordHash = await PasswordHasher.hash(password);
+    this.touch();
+  }
+
+  /**
+   * Verifies a plain-text password against the stored hash
+   */
+  async verifyPassword(password: string): Promise<boolean> {
+    if (!this.passwordHash) {
+      return false;
+    }
+    return await PasswordHasher.verify(password, this.passwordHash);
+  }
+
+  /**
+   * Checks if user has a password set
+   */
+  hasPassword(): boolean {
+    return this.passwordHash !== undefined;
+  }
+
+  /**
+   * Gets the stored password hash, for persisting the user
+   */
+  getPasswordHash(): string | undefined {
+    return this.passwordHash;
+  }
+
+  /**
+   * Restores a password hash loaded from storage
+   */
+  setPasswordHash(passwordHash?: string): void {
+    this.passwordHash = passwordHash;
+  }
+
+  /**
+   * Checks if the account is active
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Deactivates the account, keeping the user and everything attributed to them
+   */
+  deactivate(reason?: string): void {
+    this.active = false;
+    this.deactivatedAt = new Date();
+    this.deactivationReason = reason;
+    this.touch();
+  }
+
+  /**
+   * Reactivates a deactivated account
+   */
+  reactivate(): void {
+    this.active = true;
+    this.deactivatedAt = undefined;
+    this.deactivationReason = undefined;
+    this.touch();
+  }
+
   /**
    * Checks if user is an admin
    */
@@ -134,6 +205,9 @@ export class User extends BaseEntity implements IUser {
       name: this.name,
       email: this.email,
       role: this.role,
+      active: this.active,
+      deactivatedAt: this.deactivatedAt,
+      deactivationReason: this.deactivationReason,
       permissions: this.getPermissions()
     };
   }
@@ -146,6 +220,7 @@ export class User extends BaseEntity implements IUser {
       id: this.id,
       name: this.name,
       role: this.role,
+      active: this.active,
       createdAt: this.createdAt
     };
   }
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { authenticate } from '../middleware/authenticate';
+import { requireRole } from '../middleware/authorize';
+import { UserRole } from '../interfaces/IUser';
+
+const router = Router();
+const adminController = new AdminController();
+
+router.use(authenticate);
+router.use(requireRole(UserRole.ADMIN));
+
+// Backups
+
+/**
+ * @swagger
+ * /api/admin/backup:
+ *   get:
+ *     summary: Download a backup of the database
+ *     description: |
+ *       Returns every topic version, resource, user (including password hashes), role, group,
+ *       scheduled action, access control list and trash entry, with their timestamps as stored,
+ *       in a versioned archive with a SHA-256 checksum of its data. Admins only.
+ *     tags: [Admin]
+ *     responses:
+ *       200:
+ *         description: Backup created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BackupArchive'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/backup', adminController.backup.bind(adminController));
+
+/**
+ * @swagger
+ * /api/admin/restore:
+ *   post:
+ *     summary: Restore the database from a backup
+ *     description: |
+ *       Replaces all data with the backup in one step, after checking its format, schema version
+ *       and checksum. The restore is undone if the restored data references a missing parent
+ *       topic, topic or group member, or has no active admin. With `dryRun=true` nothing is
+ *       changed; the report lists the records the restore would add, update or remove. Admins only.
+ *     tags: [Admin]
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only report what the restore would change
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BackupArchive'
+ *     responses:
+ *       200:
+ *         description: Backup restored, or dry run reported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RestoreReport'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/restore', adminController.restore.bind(adminController));
+
+export default router;
\ No newline at end of file
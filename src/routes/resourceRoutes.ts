@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { ResourceController } from '../controllers/ResourceController';
+import { authenticate } from '../middleware/authenticate';
+import { requirePermission, requireTopicAccess, topicIdOfResource } from '../middleware/authorize';
+import { TopicAccessLevel } from '../interfaces/ITopic';
 
 const router = Router();
 const resourceController = new ResourceController();
 
+router.use(authenticate);
+
 // Resource CRUD
 
 /**
@@ -52,10 +57,12 @@ const resourceController = new ResourceController();
  *                       $ref: '#/components/schemas/Resource'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/', resourceController.createResource.bind(resourceController));
+router.post('/', requirePermission('write', 'resource'), requireTopicAccess(TopicAccessLevel.WRITE, (req) => req.body?.topicId), resourceController.createResource.bind(resourceController));
 
 /**
  * @swagger
@@ -96,7 +103,7 @@ router.post('/', resourceController.createResource.bind(resourceController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/', resourceController.getAllResources.bind(resourceController));
+router.get('/', requirePermission('read', 'resource'), resourceController.getAllResources.bind(resourceController));
 
 /**
  * @swagger
@@ -128,7 +135,7 @@ router.get('/', resourceController.getAllResources.bind(resourceController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/statistics', resourceController.getResourceStatistics.bind(resourceController));
+router.get('/statistics', requirePermission('read', 'resource'), resourceController.getResourceStatistics.bind(resourceController));
 
 /**
  * @swagger
@@ -155,7 +162,7 @@ router.get('/statistics', resourceController.getResourceStatistics.bind(resource
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/grouped', resourceController.getResourcesByTypeGrouped.bind(resourceController));
+router.get('/grouped', requirePermission('read', 'resource'), resourceController.getResourcesByTypeGrouped.bind(resourceController));
 
 /**
  * @swagger
@@ -194,7 +201,7 @@ router.get('/grouped', resourceController.getResourcesByTypeGrouped.bind(resourc
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/validate', resourceController.validateAllResources.bind(resourceController));
+router.get('/validate', requirePermission('read', 'resource'), resourceController.validateAllResources.bind(resourceController));
 
 /**
  * @swagger
@@ -229,7 +236,7 @@ router.get('/validate', resourceController.validateAllResources.bind(resourceCon
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/search', resourceController.searchByUrlPattern.bind(resourceController));
+router.get('/search', requirePermission('read', 'resource'), resourceController.searchByUrlPattern.bind(resourceController));
 
 /**
  * @swagger
@@ -262,7 +269,7 @@ router.get('/search', resourceController.searchByUrlPattern.bind(resourceControl
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id', resourceController.getResourceById.bind(resourceController));
+router.get('/:id', requirePermission('read', 'resource'), requireTopicAccess(TopicAccessLevel.READ, topicIdOfResource), resourceController.getResourceById.bind(resourceController));
 
 /**
  * @swagger
@@ -313,12 +320,14 @@ router.get('/:id', resourceController.getResourceById.bind(resourceController));
  *                       $ref: '#/components/schemas/Resource'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.put('/:id', resourceController.updateResource.bind(resourceController));
+router.put('/:id', requirePermission('write', 'resource', { withEntity: true }), requireTopicAccess(TopicAccessLevel.WRITE, topicIdOfResource), resourceController.updateResource.bind(resourceController));
 
 /**
  * @swagger
@@ -341,12 +350,14 @@ router.put('/:id', resourceController.updateResource.bind(resourceController));
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.delete('/:id', resourceController.deleteResource.bind(resourceController));
+router.delete('/:id', requirePermission('delete', 'resource', { withEntity: true }), requireTopicAccess(TopicAccessLevel.WRITE, topicIdOfResource), resourceController.deleteResource.bind(resourceController));
 
 // Resource operations by topic
 
@@ -383,7 +394,7 @@ router.delete('/:id', resourceController.deleteResource.bind(resourceController)
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/topic/:topicId', resourceController.getResourcesByTopic.bind(resourceController));
+router.get('/topic/:topicId', requirePermission('read', 'resource'), requireTopicAccess(TopicAccessLevel.READ, (req) => req.params.topicId), resourceController.getResourcesByTopic.bind(resourceController));
 
 // Resource operations by type
 
@@ -421,7 +432,7 @@ router.get('/topic/:topicId', resourceController.getResourcesByTopic.bind(resour
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/type/:type', resourceController.getResourcesByType.bind(resourceController));
+router.get('/type/:type', requirePermission('read', 'resource'), resourceController.getResourcesByType.bind(resourceController));
 
 // Resource validation
 
@@ -471,7 +482,7 @@ router.get('/type/:type', resourceController.getResourcesByType.bind(resourceCon
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/validate-url', resourceController.validateUrl.bind(resourceController));
+router.post('/validate-url', requirePermission('read', 'resource'), resourceController.validateUrl.bind(resourceController));
 
 /**
  * @swagger
@@ -514,7 +525,7 @@ router.post('/validate-url', resourceController.validateUrl.bind(resourceControl
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/accessibility', resourceController.checkAccessibility.bind(resourceController));
+router.get('/:id/accessibility', requirePermission('read', 'resource'), requireTopicAccess(TopicAccessLevel.READ, topicIdOfResource), resourceController.checkAccessibility.bind(resourceController));
 
 // Bulk operations
 
@@ -533,6 +544,10 @@ router.get('/:id/accessibility', resourceController.checkAccessibility.bind(reso
  *             required:
  *               - resources
  *             properties:
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Create all resources or, if any fails, none of them (400 with the failing index)
  *               resources:
  *                 type: array
  *                 items:
@@ -584,7 +599,7 @@ router.get('/:id/accessibility', resourceController.checkAccessibility.bind(reso
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/bulk', resourceController.bulkCreateResources.bind(resourceController));
+router.post('/bulk', requirePermission('write', 'resource'), resourceController.bulkCreateResources.bind(resourceController));
 
 /**
  * @swagger
@@ -625,7 +640,7 @@ router.post('/bulk', resourceController.bulkCreateResources.bind(resourceControl
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/export', resourceController.exportResources.bind(resourceController));
+router.get('/export', requirePermission('read', 'resource'), resourceController.exportResources.bind(resourceController));
 
 /**
  * @swagger
@@ -642,6 +657,10 @@ router.get('/export', resourceController.exportResources.bind(resourceController
  *             required:
  *               - resources
  *             properties:
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Create all resources or, if any fails, none of them (400 with the failing index)
  *               resources:
  *                 type: array
  *                 items:
@@ -697,6 +716,6 @@ router.get('/export', resourceController.exportResources.bind(resourceController
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/import', resourceController.importResources.bind(resourceController));
+router.post('/import', requirePermission('write', 'resource'), resourceController.importResources.bind(resourceController));
 
 export default router;
\ No newline at end of file
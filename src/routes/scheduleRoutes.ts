@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { ScheduleController } from '../controllers/ScheduleController';
+import { authenticate } from '../middleware/authenticate';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const scheduleController = new ScheduleController();
+
+router.use(authenticate);
+
+// Scheduled actions
+
+/**
+ * @swagger
+ * /api/schedule:
+ *   get:
+ *     summary: List scheduled actions
+ *     description: Returns scheduled actions on the topics the caller can write, soonest first. Requires the publish capability on topics.
+ *     tags: [Schedule]
+ *     parameters:
+ *       - in: query
+ *         name: topicId
+ *         schema:
+ *           type: string
+ *         description: Only list actions on this topic
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled]
+ *         description: Only list actions with this status
+ *     responses:
+ *       200:
+ *         description: Scheduled actions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ScheduledAction'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/', requirePermission('publish', 'topic'), scheduleController.getScheduledActions.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/{id}:
+ *   get:
+ *     summary: Get a scheduled action
+ *     tags: [Schedule]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled action ID
+ *     responses:
+ *       200:
+ *         description: Scheduled action retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ScheduledAction'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/:id', requirePermission('publish', 'topic'), scheduleController.getScheduledAction.bind(scheduleController));
+
+/**
+ * @swagger
+ * /api/schedule/{id}/cancel:
+ *   post:
+ *     summary: Cancel a scheduled action
+ *     description: Cancels a pending action. Cancelling an expiry also clears `expiresAt` on its version.
+ *     tags: [Schedule]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled action ID
+ *     responses:
+ *       200:
+ *         description: Scheduled action cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ScheduledAction'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The action has already run or was cancelled
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/cancel', requirePermission('publish', 'topic'), scheduleController.cancelScheduledAction.bind(scheduleController));
+
+export default router;
\ No newline at end of file
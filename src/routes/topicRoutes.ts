@@ -1,8 +1,15 @@
 import { Router } from 'express';
 import { TopicController } from '../controllers/TopicController';
+import { ScheduleController } from '../controllers/ScheduleController';
+import { authenticate } from '../middleware/authenticate';
+import { requirePermission, requireTopicAccess, topicIdFromSlug } from '../middleware/authorize';
+import { TopicAccessLevel } from '../interfaces/ITopic';
 
 const router = Router();
 const topicController = new TopicController();
+const scheduleController = new ScheduleController();
+
+router.use(authenticate);
 
 // Topic CRUD
 
@@ -25,6 +32,10 @@ const topicController = new TopicController();
  *               name:
  *                 type: string
  *                 example: "JavaScript Fundamentals"
+ *               slug:
+ *                 type: string
+ *                 description: URL-friendly name; generated from the name when omitted
+ *                 example: "javascript-fundamentals"
  *               content:
  *                 type: string
  *                 example: "Introduction to JavaScript programming language"
@@ -46,10 +57,14 @@ const topicController = new TopicController();
  *                       $ref: '#/components/schemas/Topic'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: The slug is already used by another topic
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/', topicController.createTopic.bind(topicController));
+router.post('/', requirePermission('write', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE, (req) => req.body?.parentTopicId), topicController.createTopic.bind(topicController));
 
 /**
  * @swagger
@@ -90,7 +105,7 @@ router.post('/', topicController.createTopic.bind(topicController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/', topicController.getAllTopics.bind(topicController));
+router.get('/', requirePermission('read', 'topic'), topicController.getAllTopics.bind(topicController));
 
 /**
  * @swagger
@@ -115,7 +130,7 @@ router.get('/', topicController.getAllTopics.bind(topicController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/root', topicController.getRootTopics.bind(topicController));
+router.get('/root', requirePermission('read', 'topic'), topicController.getRootTopics.bind(topicController));
 
 /**
  * @swagger
@@ -147,7 +162,7 @@ router.get('/root', topicController.getRootTopics.bind(topicController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/statistics', topicController.getTopicStatistics.bind(topicController));
+router.get('/statistics', requirePermission('read', 'topic'), topicController.getTopicStatistics.bind(topicController));
 
 /**
  * @swagger
@@ -177,7 +192,7 @@ router.get('/statistics', topicController.getTopicStatistics.bind(topicControlle
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/validate', topicController.validateHierarchy.bind(topicController));
+router.get('/validate', requirePermission('read', 'topic'), topicController.validateHierarchy.bind(topicController));
 
 // Topic algorithms
 
@@ -221,7 +236,52 @@ router.get('/validate', topicController.validateHierarchy.bind(topicController))
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/path', topicController.findShortestPath.bind(topicController));
+router.get('/path', requirePermission('read', 'topic'), topicController.findShortestPath.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/by-slug/{slug}:
+ *   get:
+ *     summary: Get a topic by slug
+ *     description: Resolves a topic by its current slug, or by a slug it had before being renamed.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic slug
+ *         example: "javascript-fundamentals"
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: integer
+ *         description: Specific version to retrieve
+ *     responses:
+ *       200:
+ *         description: Topic retrieved successfully
+ *         headers:
+ *           ETag:
+ *             description: Entity tag of the topic version, for use in If-Match
+ *             schema:
+ *               type: string
+ *               example: '"v2"'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/by-slug/:slug', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ, topicIdFromSlug), topicController.getTopicBySlug.bind(topicController));
 
 // Topic versioning
 
@@ -258,7 +318,7 @@ router.get('/path', topicController.findShortestPath.bind(topicController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/versions', topicController.getTopicVersions.bind(topicController));
+router.get('/:id/versions', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ), topicController.getTopicVersions.bind(topicController));
 
 /**
  * @swagger
@@ -299,7 +359,123 @@ router.get('/:id/versions', topicController.getTopicVersions.bind(topicControlle
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/versions/:version', topicController.getTopicVersion.bind(topicController));
+router.get('/:id/versions/:version', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ), topicController.getTopicVersion.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/{id}/versions/{a}/diff/{b}:
+ *   get:
+ *     summary: Get the differences between two versions of a topic
+ *     description: Field-level changes of name and parentTopicId plus a line and word-level diff of the content. With format=unified, the content changes are returned as unified diff text.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *       - in: path
+ *         name: a
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version to diff from
+ *         example: 1
+ *       - in: path
+ *         name: b
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version to diff to
+ *         example: 2
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, unified]
+ *           default: json
+ *         description: Response format
+ *     responses:
+ *       200:
+ *         description: Topic version diff retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TopicVersionDiff'
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *               example: "--- topic_123@v1\n+++ topic_123@v2\n@@ -1,1 +1,1 @@\n-Old content\n+New content\n"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/:id/versions/:a/diff/:b', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ), topicController.diffTopicVersions.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/{id}/versions/{version}/restore:
+ *   post:
+ *     summary: Restore a previous version of a topic
+ *     description: Creates a new version whose name, content and parent equal the chosen version. The restored parent must still exist and must not create a circular reference.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version number to restore
+ *         example: 2
+ *     responses:
+ *       200:
+ *         description: Topic version restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Restoring the version would create a circular reference
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  '/:id/versions/:version/restore',
+  requirePermission('write', 'topic', { withEntity: true }),
+  requireTopicAccess(TopicAccessLevel.WRITE),
+  topicController.restoreTopicVersion.bind(topicController)
+);
 
 /**
  * @swagger
@@ -318,6 +494,12 @@ router.get('/:id/versions/:version', topicController.getTopicVersion.bind(topicC
  *     responses:
  *       200:
  *         description: Topic retrieved successfully
+ *         headers:
+ *           ETag:
+ *             description: Entity tag of the topic version, for use in If-Match
+ *             schema:
+ *               type: string
+ *               example: '"v2"'
  *         content:
  *           application/json:
  *             schema:
@@ -332,7 +514,7 @@ router.get('/:id/versions/:version', topicController.getTopicVersion.bind(topicC
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id', topicController.getTopicById.bind(topicController));
+router.get('/:id', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ), topicController.getTopicById.bind(topicController));
 
 /**
  * @swagger
@@ -348,6 +530,7 @@ router.get('/:id', topicController.getTopicById.bind(topicController));
  *           type: string
  *         description: Topic ID
  *         example: "topic_123"
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -358,6 +541,10 @@ router.get('/:id', topicController.getTopicById.bind(topicController));
  *               name:
  *                 type: string
  *                 example: "Advanced JavaScript"
+ *               slug:
+ *                 type: string
+ *                 description: New URL-friendly name; renaming regenerates it when omitted. Former slugs keep resolving.
+ *                 example: "advanced-javascript"
  *               content:
  *                 type: string
  *                 example: "Advanced concepts in JavaScript programming"
@@ -365,6 +552,16 @@ router.get('/:id', topicController.getTopicById.bind(topicController));
  *                 type: string
  *                 nullable: true
  *                 example: "topic_456"
+ *               changeMessage:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Commit-style summary of the change, recorded on the new version
+ *                 example: "Add section on closures"
+ *               expectedVersion:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Version the edit is based on; if the topic has moved on, the edit is merged into the latest version
+ *                 example: 2
  *     responses:
  *       200:
  *         description: Topic updated successfully (new version created)
@@ -381,16 +578,29 @@ router.get('/:id', topicController.getTopicById.bind(topicController));
  *         $ref: '#/components/responses/ValidationError'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/MergeConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.put('/:id', topicController.updateTopic.bind(topicController));
+router.put(
+  '/:id',
+  requirePermission('write', 'topic', { withEntity: true }),
+  requireTopicAccess(TopicAccessLevel.WRITE),
+  requireTopicAccess(TopicAccessLevel.WRITE, (req) => req.body?.parentTopicId),
+  topicController.updateTopic.bind(topicController)
+);
 
 /**
  * @swagger
  * /api/topics/{id}:
  *   delete:
- *     summary: Delete a topic and all its versions
+ *     summary: Move a topic and all its versions to the trash
+ *     description: The topic is hidden everywhere until an admin restores or purges it through `/api/trash`. The policy decides what happens to its subtopics and resources, and is applied completely or not at all.
  *     tags: [Topics]
  *     parameters:
  *       - in: path
@@ -400,19 +610,56 @@ router.put('/:id', topicController.updateTopic.bind(topicController));
  *           type: string
  *         description: Topic ID
  *         example: "topic_123"
+ *       - in: query
+ *         name: policy
+ *         schema:
+ *           type: string
+ *           enum: [reject, cascade, reparent]
+ *           default: reject
+ *         description: "reject: fail if the topic has subtopics or resources; cascade: trash the whole subtree and its resources; reparent: move the children and resources to the topic's parent"
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               expectedVersion:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Alternative to If-Match; only delete if the topic is still at this version
+ *                 example: 2
  *     responses:
  *       200:
- *         description: Topic deleted successfully
+ *         description: Topic moved to trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TrashEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Write access is missing on the topic or, under the cascade policy, on one of its subtopics
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ApiResponse'
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The version changed (see VersionConflict), the topic has subtopics or resources under the reject policy, or a root topic with resources cannot be re-parented
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.delete('/:id', topicController.deleteTopic.bind(topicController));
+router.delete('/:id', requirePermission('delete', 'topic', { withEntity: true }), requireTopicAccess(TopicAccessLevel.WRITE), topicController.deleteTopic.bind(topicController));
 
 // Topic hierarchy and relationships
 
@@ -447,7 +694,7 @@ router.delete('/:id', topicController.deleteTopic.bind(topicController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/tree', topicController.getTopicTree.bind(topicController));
+router.get('/:id/tree', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.READ), topicController.getTopicTree.bind(topicController));
 
 /**
  * @swagger
@@ -463,6 +710,7 @@ router.get('/:id/tree', topicController.getTopicTree.bind(topicController));
  *           type: string
  *         description: Topic ID to move
  *         example: "topic_123"
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -475,6 +723,11 @@ router.get('/:id/tree', topicController.getTopicTree.bind(topicController));
  *                 nullable: true
  *                 description: New parent topic ID (null for root level)
  *                 example: "topic_456"
+ *               expectedVersion:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Alternative to If-Match; only move if the topic is still at this version
+ *                 example: 2
  *     responses:
  *       200:
  *         description: Topic moved successfully
@@ -491,9 +744,389 @@ router.get('/:id/tree', topicController.getTopicTree.bind(topicController));
  *         $ref: '#/components/responses/ValidationError'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         $ref: '#/components/responses/VersionConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  '/:id/move',
+  requirePermission('write', 'topic', { withEntity: true }),
+  requireTopicAccess(TopicAccessLevel.WRITE),
+  requireTopicAccess(TopicAccessLevel.WRITE, (req) => req.body?.newParentId),
+  topicController.moveTopic.bind(topicController)
+);
+
+// Topic workflow
+
+/**
+ * @swagger
+ * /api/topics/{id}/submit:
+ *   post:
+ *     summary: Submit a topic for review
+ *     description: Moves the latest version from draft to in review.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     responses:
+ *       200:
+ *         description: Topic version submitted for review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The version is not in the state the transition requires
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  '/:id/submit',
+  requirePermission('write', 'topic', { withEntity: true }),
+  requireTopicAccess(TopicAccessLevel.WRITE),
+  topicController.submitTopicForReview.bind(topicController)
+);
+
+/**
+ * @swagger
+ * /api/topics/{id}/approve:
+ *   post:
+ *     summary: Approve a topic version
+ *     description: Publishes the latest version, which must be in review. The previously published version is archived. Requires the publish capability on topics.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Optional review comment
+ *                 example: "Looks good"
+ *     responses:
+ *       200:
+ *         description: Topic version published
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The version is not in the state the transition requires
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/approve', requirePermission('publish', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE), topicController.approveTopic.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/{id}/reject:
+ *   post:
+ *     summary: Reject a topic version
+ *     description: Sends the latest version, which must be in review, back to draft. Requires the publish capability on topics.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [comment]
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 description: Reason for the rejection
+ *                 example: "Looks good"
+ *     responses:
+ *       200:
+ *         description: Topic version returned to draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The version is not in the state the transition requires
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/reject', requirePermission('publish', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE), topicController.rejectTopic.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/{id}/archive:
+ *   post:
+ *     summary: Archive a topic
+ *     description: Archives the published version, withdrawing the topic from viewers. Requires the publish capability on topics.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     responses:
+ *       200:
+ *         description: Published version archived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The version is not in the state the transition requires
+ *       422:
+ *         $ref: '#/components/responses/MissingReference'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/archive', requirePermission('publish', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE), topicController.archiveTopic.bind(topicController));
+
+/**
+ * @swagger
+ * /api/topics/{id}/schedule:
+ *   post:
+ *     summary: Schedule a publish or expiry of a topic version
+ *     description: At `runAt`, `publish` makes the version the published one and `expire` archives it if it is still published. Publishing defaults to the latest version and expiring to the published one. Requires the publish capability on topics.
+ *     tags: [Topics, Schedule]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action, runAt]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [publish, expire]
+ *               runAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-01-01T00:00:00Z"
+ *               version:
+ *                 type: number
+ *                 example: 2
+ *     responses:
+ *       201:
+ *         description: Action scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ScheduledAction'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The same action is already pending for the version, or there is no published version to expire
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   get:
+ *     summary: List the scheduled actions of a topic
+ *     tags: [Topics, Schedule]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled]
+ *     responses:
+ *       200:
+ *         description: Scheduled actions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ScheduledAction'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/schedule', requirePermission('publish', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE), scheduleController.scheduleTopicAction.bind(scheduleController));
+router.get('/:id/schedule', requirePermission('write', 'topic'), requireTopicAccess(TopicAccessLevel.WRITE), scheduleController.getTopicSchedule.bind(scheduleController));
+
+// Topic access control
+
+/**
+ * @swagger
+ * /api/topics/{id}/acl:
+ *   get:
+ *     summary: Get the access control list of a topic
+ *     description: Returns the entries attached to the topic and the list in effect for it, which may be inherited from an ancestor. Requires admin access to the topic.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     responses:
+ *       200:
+ *         description: Access control list retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TopicAccessControl'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     summary: Replace the access control list of a topic
+ *     description: An empty list removes the topic's own entries so it inherits from its ancestors again. Requires admin access to the topic.
+ *     tags: [Topics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Topic ID
+ *         example: "topic_123"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entries
+ *             properties:
+ *               entries:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TopicAclEntry'
+ *     responses:
+ *       200:
+ *         description: Access control list updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TopicAccessControl'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/:id/move', topicController.moveTopic.bind(topicController));
+router.get('/:id/acl', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.ADMIN), topicController.getTopicAcl.bind(topicController));
+router.put('/:id/acl', requirePermission('read', 'topic'), requireTopicAccess(TopicAccessLevel.ADMIN), topicController.updateTopicAcl.bind(topicController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/TrashController';
+import { authenticate } from '../middleware/authenticate';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const trashController = new TrashController();
+
+router.use(authenticate);
+
+// Trash
+
+/**
+ * @swagger
+ * /api/trash:
+ *   get:
+ *     summary: List deleted topics
+ *     description: Returns the topics in the trash, most recently deleted first. Requires permission to delete topics.
+ *     tags: [Trash]
+ *     responses:
+ *       200:
+ *         description: Trash retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TrashEntry'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Empty the trash
+ *     description: Permanently removes every deleted topic with its subtopics and resources.
+ *     tags: [Trash]
+ *     responses:
+ *       200:
+ *         description: Trash emptied
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/', requirePermission('delete', 'topic'), trashController.getTrash.bind(trashController));
+router.delete('/', requirePermission('delete', 'topic'), trashController.emptyTrash.bind(trashController));
+
+/**
+ * @swagger
+ * /api/trash/{id}:
+ *   get:
+ *     summary: Get a deleted topic
+ *     tags: [Trash]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the deleted topic
+ *     responses:
+ *       200:
+ *         description: Trash entry retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TrashEntry'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Permanently delete a topic from the trash
+ *     description: Removes the topic with every version, its access control list, and the subtopics and resources trashed with it.
+ *     tags: [Trash]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the deleted topic
+ *     responses:
+ *       200:
+ *         description: Topic permanently deleted
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get('/:id', requirePermission('delete', 'topic'), trashController.getTrashEntry.bind(trashController));
+router.delete('/:id', requirePermission('delete', 'topic'), trashController.purgeTrashEntry.bind(trashController));
+
+/**
+ * @swagger
+ * /api/trash/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted topic
+ *     description: Brings back the topic with the subtopics and resources trashed with it. It returns under its old parent unless `parentTopicId` names another one, or `null` for the root.
+ *     tags: [Trash]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the deleted topic
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               parentTopicId:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "topic_456"
+ *     responses:
+ *       200:
+ *         description: Topic restored from trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Topic'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The old parent is in the trash or no longer exists
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/restore', requirePermission('delete', 'topic'), trashController.restoreTrashEntry.bind(trashController));
+
+export default router;
\ No newline at end of file
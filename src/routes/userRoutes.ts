@@ -1,9 +1,141 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
+import { authenticate } from '../middleware/authenticate';
+import { requirePermission } from '../middleware/authorize';
 
 const router = Router();
 const userController = new UserController();
 
+// User authentication
+
+/**
+ * @swagger
+ * /api/users/authenticate:
+ *   post:
+ *     summary: Authenticate a user
+ *     tags: [Users]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "user@example.com"
+ *               password:
+ *                 type: string
+ *                 example: "password123"
+ *     responses:
+ *       200:
+ *         description: User authenticated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Invalid credentials
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/authenticate', userController.authenticateUser.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new session
+ *     tags: [Users]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/refresh', userController.refreshSession.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/logout:
+ *   post:
+ *     summary: Revoke a refresh token
+ *     tags: [Users]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session ended successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Invalid, expired or revoked refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/logout', userController.logout.bind(userController));
+
+// Every route below requires a valid access token
+router.use(authenticate);
+
 // User CRUD
 
 /**
@@ -34,6 +166,12 @@ const userController = new UserController();
  *                 type: string
  *                 enum: [Admin, Editor, Viewer]
  *                 example: "Editor"
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *                 description: Optional; users without a password cannot authenticate
+ *                 example: "s3cure-passw0rd"
  *     responses:
  *       201:
  *         description: User created successfully
@@ -51,7 +189,7 @@ const userController = new UserController();
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/', userController.createUser.bind(userController));
+router.post('/', requirePermission('manage', 'user'), userController.createUser.bind(userController));
 
 /**
  * @swagger
@@ -75,6 +213,12 @@ router.post('/', userController.createUser.bind(userController));
  *           maximum: 100
  *           default: 10
  *         description: Number of users per page
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include deactivated users
  *     responses:
  *       200:
  *         description: List of users retrieved successfully
@@ -92,7 +236,7 @@ router.post('/', userController.createUser.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/', userController.getAllUsers.bind(userController));
+router.get('/', requirePermission('manage', 'user'), userController.getAllUsers.bind(userController));
 
 /**
  * @swagger
@@ -124,7 +268,7 @@ router.get('/', userController.getAllUsers.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/statistics', userController.getUserStatistics.bind(userController));
+router.get('/statistics', requirePermission('manage', 'user'), userController.getUserStatistics.bind(userController));
 
 /**
  * @swagger
@@ -157,7 +301,7 @@ router.get('/statistics', userController.getUserStatistics.bind(userController))
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id', userController.getUserById.bind(userController));
+router.get('/:id', requirePermission('manage', 'user', { allowSelf: true }), userController.getUserById.bind(userController));
 
 /**
  * @swagger
@@ -210,7 +354,7 @@ router.get('/:id', userController.getUserById.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.put('/:id', userController.updateUser.bind(userController));
+router.put('/:id', requirePermission('manage', 'user', { allowSelf: true }), userController.updateUser.bind(userController));
 
 /**
  * @swagger
@@ -238,16 +382,23 @@ router.put('/:id', userController.updateUser.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.delete('/:id', userController.deleteUser.bind(userController));
-
-// User authentication
+router.delete('/:id', requirePermission('manage', 'user'), userController.deleteUser.bind(userController));
 
 /**
  * @swagger
- * /api/users/authenticate:
+ * /api/users/{id}/password:
  *   post:
- *     summary: Authenticate a user
+ *     summary: Change a user's password
+ *     description: Users change their own password with the current one; only admins can reset another user's password.
  *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *         example: "user_123"
  *     requestBody:
  *       required: true
  *       content:
@@ -255,46 +406,41 @@ router.delete('/:id', userController.deleteUser.bind(userController));
  *           schema:
  *             type: object
  *             required:
- *               - email
- *               - password
+ *               - newPassword
  *             properties:
- *               email:
+ *               currentPassword:
  *                 type: string
- *                 format: email
- *                 example: "user@example.com"
- *               password:
+ *                 format: password
+ *                 description: Required when the user already has a password
+ *                 example: "old-passw0rd"
+ *               newPassword:
  *                 type: string
- *                 example: "password123"
+ *                 format: password
+ *                 minLength: 8
+ *                 example: "new-passw0rd"
  *     responses:
  *       200:
- *         description: User authenticated successfully
+ *         description: Password changed successfully
  *         content:
  *           application/json:
  *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       type: object
- *                       properties:
- *                         user:
- *                           $ref: '#/components/schemas/User'
- *                         token:
- *                           type: string
- *                         expiresAt:
- *                           type: string
- *                           format: date-time
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
- *         description: Invalid credentials
+ *         description: Current password is incorrect
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/authenticate', userController.authenticateUser.bind(userController));
+router.post('/:id/password', requirePermission('manage', 'user', { allowSelf: true }), userController.changePassword.bind(userController));
 
 // User role operations
 
@@ -332,7 +478,7 @@ router.post('/authenticate', userController.authenticateUser.bind(userController
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/role/:role', userController.getUsersByRole.bind(userController));
+router.get('/role/:role', requirePermission('manage', 'user'), userController.getUsersByRole.bind(userController));
 
 /**
  * @swagger
@@ -380,7 +526,7 @@ router.get('/role/:role', userController.getUsersByRole.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/:id/role', userController.changeUserRole.bind(userController));
+router.post('/:id/role', requirePermission('manage', 'user'), userController.changeUserRole.bind(userController));
 
 // User search and lookup
 
@@ -416,7 +562,7 @@ router.post('/:id/role', userController.changeUserRole.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/email/:email', userController.getUserByEmail.bind(userController));
+router.get('/email/:email', requirePermission('manage', 'user'), userController.getUserByEmail.bind(userController));
 
 /**
  * @swagger
@@ -456,7 +602,7 @@ router.get('/email/:email', userController.getUserByEmail.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/check-email/:email', userController.checkEmailAvailability.bind(userController));
+router.get('/check-email/:email', requirePermission('manage', 'user'), userController.checkEmailAvailability.bind(userController));
 
 // User permissions
 
@@ -464,7 +610,8 @@ router.get('/check-email/:email', userController.checkEmailAvailability.bind(use
  * @swagger
  * /api/users/{id}/permissions:
  *   get:
- *     summary: Check user permissions
+ *     summary: Get effective user permissions
+ *     description: Without `action`, returns the union of the permissions granted by the user's role and groups. With `action`, checks that single permission.
  *     tags: [Users]
  *     parameters:
  *       - in: path
@@ -474,6 +621,17 @@ router.get('/check-email/:email', userController.checkEmailAvailability.bind(use
  *           type: string
  *         description: User ID
  *         example: "user_123"
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [read, create, update, delete, manage_users, publish]
+ *         description: Single action to check
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *         description: Resource type the action applies to (defaults to topic)
  *     responses:
  *       200:
  *         description: User permissions retrieved successfully
@@ -487,23 +645,29 @@ router.get('/check-email/:email', userController.checkEmailAvailability.bind(use
  *                     data:
  *                       type: object
  *                       properties:
- *                         canRead:
- *                           type: boolean
- *                         canWrite:
- *                           type: boolean
- *                         canDelete:
- *                           type: boolean
- *                         canManageUsers:
- *                           type: boolean
+ *                         userId:
+ *                           type: string
  *                         role:
  *                           type: string
- *                           enum: [Admin, Editor, Viewer]
+ *                         groups:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                         permissions:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: boolean
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/permissions', userController.checkUserPermissions.bind(userController));
+router.get('/:id/permissions', requirePermission('manage', 'user', { allowSelf: true }), userController.checkUserPermissions.bind(userController));
 
 /**
  * @swagger
@@ -549,7 +713,7 @@ router.get('/:id/permissions', userController.checkUserPermissions.bind(userCont
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/:id/profile', userController.getUserProfile.bind(userController));
+router.get('/:id/profile', requirePermission('read', 'user'), userController.getUserProfile.bind(userController));
 
 // User management operations
 
@@ -596,12 +760,51 @@ router.get('/:id/profile', userController.getUserProfile.bind(userController));
  *                           format: date-time
  *                         reason:
  *                           type: string
+ *       400:
+ *         description: Users cannot deactivate their own account
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: User is already deactivated
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/:id/deactivate', userController.deactivateUser.bind(userController));
+router.post('/:id/deactivate', requirePermission('manage', 'user'), userController.deactivateUser.bind(userController));
+
+/**
+ * @swagger
+ * /api/users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate a deactivated user account
+ *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *         example: "user_123"
+ *     responses:
+ *       200:
+ *         description: User reactivated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/User'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: User is already active
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post('/:id/reactivate', requirePermission('manage', 'user'), userController.reactivateUser.bind(userController));
 
 // Bulk operations
 
@@ -620,6 +823,10 @@ router.post('/:id/deactivate', userController.deactivateUser.bind(userController
  *             required:
  *               - users
  *             properties:
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Create all users or, if any fails, none of them (400 with the failing index)
  *               users:
  *                 type: array
  *                 items:
@@ -668,7 +875,7 @@ router.post('/:id/deactivate', userController.deactivateUser.bind(userController
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/bulk', userController.bulkCreateUsers.bind(userController));
+router.post('/bulk', requirePermission('manage', 'user'), userController.bulkCreateUsers.bind(userController));
 
 /**
  * @swagger
@@ -709,7 +916,7 @@ router.post('/bulk', userController.bulkCreateUsers.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get('/export', userController.exportUsers.bind(userController));
+router.get('/export', requirePermission('manage', 'user'), userController.exportUsers.bind(userController));
 
 /**
  * @swagger
@@ -726,6 +933,10 @@ router.get('/export', userController.exportUsers.bind(userController));
  *             required:
  *               - users
  *             properties:
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Create all users or, if any fails, none of them (400 with the failing index)
  *               users:
  *                 type: array
  *                 items:
@@ -778,6 +989,6 @@ router.get('/export', userController.exportUsers.bind(userController));
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post('/import', userController.importUsers.bind(userController));
+router.post('/import', requirePermission('manage', 'user'), userController.importUsers.bind(userController));
 
 export default router;
\ No newline at end of file
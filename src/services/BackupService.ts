@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { IBackupArchive, IRestoreChanges, IRestoreReport } from '../interfaces/IBackup';
+import { BackupRepository } from '../database/BackupRepository';
+import { UserRepository } from '../database/UserRepository';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { ValidationError } from '../types/errors';
+
+const BACKUP_FORMAT = 'knowledge-base-backup';
+const BACKUP_SCHEMA_VERSION = 1;
+
+/**
+ * Where the records of each collection sit in exported data, keyed by id
+ */
+const COLLECTIONS: Record<string, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  topics: data => (isObject(data.topics) ? data.topics : {}),
+  resources: data => byId(data.resources),
+  users: data => byId(data.users),
+  topicAcls: data => (isObject(data.topicAcls) ? data.topicAcls : {}),
+  roles: data => byId(data.roles),
+  groups: data => byId(data.groups),
+  scheduledActions: data => byId(data.scheduledActions),
+  trash: data => byId(isObject(data.trash) ? data.trash.entries : undefined)
+};
+
+/**
+ * Service implementation for backing up and restoring the whole database
+ *
+ * A backup holds every topic version, record and trash entry with their timestamps and
+ * authors as stored, including password hashes, so it must be kept as safe as the database.
+ * Restoring replaces all data in one unit of work, and is rolled back if the restored data has
+ * missing references or no active admin.
+ */
+export class BackupService {
+  private repository: BackupRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.repository = new BackupRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Creates a backup of all data
+   */
+  async createBackup(): Promise<IBackupArchive> {
+    const data = toJson(await this.repository.exportAll());
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      checksum: checksum(data),
+      data
+    };
+  }
+
+  /**
+   * Replaces all data with a backup, or with a dry run only reports what would change
+   */
+  async restore(archive: IBackupArchive, dryRun: boolean = false): Promise<IRestoreReport> {
+    this.assertValid(archive);
+
+    return await UnitOfWork.run(async () => {
+      const current = toJson(await this.repository.exportAll());
+      const changes: Record<string, IRestoreChanges> = {};
+      for (const [collection, records] of Object.entries(COLLECTIONS)) {
+        changes[collection] = compare(records(current), records(archive.data));
+      }
+
+      if (!dryRun) {
+        await this.repository.importAll(archive.data);
+        await this.assertActiveAdmin();
+      }
+      return { dryRun, schemaVersion: archive.schemaVersion, createdAt: archive.createdAt, changes };
+    });
+  }
+
+  /**
+   * Throws unless the data keeps an active admin, so a restore cannot lock every admin out
+   */
+  private async assertActiveAdmin(): Promise<void> {
+    const admins = await this.userRepository.findAdmins();
+    if (!admins.some(admin => admin.isActive())) {
+      throw new ValidationError('Backup has no active admin; restoring it would lock every admin out');
+    }
+  }
+
+  /**
+   * Throws unless a backup is in the supported format and its data matches its checksum
+   */
+  private assertValid(archive: IBackupArchive): void {
+    const errors = getArchiveErrors(archive);
+    if (errors.length > 0) {
+      throw new ValidationError(`Backup validation failed: ${errors.join(', ')}`);
+    }
+
+    if (checksum(archive.data) !== archive.checksum) {
+      throw new ValidationError('Backup checksum does not match its data; the backup is damaged or was edited');
+    }
+  }
+}
+
+/**
+ * Gets the errors in the shape of a backup
+ */
+function getArchiveErrors(archive: IBackupArchive): string[] {
+  if (!isObject(archive)) {
+    return ['Backup must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  if (archive.format !== BACKUP_FORMAT) {
+    errors.push(`Format must be ${BACKUP_FORMAT}`);
+  }
+  if (archive.schemaVersion !== BACKUP_SCHEMA_VERSION) {
+    errors.push(`Schema version ${archive.schemaVersion} is not supported (expected ${BACKUP_SCHEMA_VERSION})`);
+  }
+  if (typeof archive.checksum !== 'string') {
+    errors.push('Checksum is required');
+  }
+  if (!isObject(archive.data)) {
+    errors.push('Data must be an object');
+    return errors;
+  }
+
+  const { data } = archive;
+  for (const key of ['topics', 'topicAcls', 'trash']) {
+    if (data[key] !== undefined && !isObject(data[key])) {
+      errors.push(`Data ${key} must be an object`);
+    }
+  }
+  for (const key of ['resources', 'users', 'roles', 'groups', 'scheduledActions']) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) {
+      errors.push(`Data ${key} must be an array`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Compares the records of a collection by id
+ */
+function compare(current: Record<string, unknown>, incoming: Record<string, unknown>): IRestoreChanges {
+  const changes: IRestoreChanges = { added: [], updated: [], removed: [], unchanged: 0 };
+  for (const [id, record] of Object.entries(incoming)) {
+    if (!(id in current)) {
+      changes.added.push(id);
+    } else if (JSON.stringify(current[id]) !== JSON.stringify(record)) {
+      changes.updated.push(id);
+    } else {
+      changes.unchanged++;
+    }
+  }
+  changes.removed = Object.keys(current).filter(id => !(id in incoming));
+  return changes;
+}
+
+function byId(records: unknown): Record<string, unknown> {
+  const list = Array.isArray(records) ? records.filter(isObject) : [];
+  return Object.fromEntries(list.map(record => [String(record.id), record]));
+}
+
+/**
+ * Converts exported data to the JSON it is sent as, e.g. dates to ISO strings
+ */
+function toJson(data: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(data));
+}
+
+function checksum(data: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { IGroup } from '../interfaces/IGroup';
+import { Group } from '../models/Group';
+import { GroupRepository } from '../database/GroupRepository';
+import { UserRepository } from '../database/UserRepository';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+/**
+ * Service implementation for Group business logic
+ */
+export class GroupService {
+  private repository: GroupRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.repository = new GroupRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Creates a new group
+   */
+  async create(data: Partial<IGroup>, userId?: string): Promise<Group> {
+    const memberIds = data.memberIds || [];
+    await this.assertUsersExist(memberIds);
+
+    const group = new Group((data.name || '').trim(), data.permissions, data.description, [...new Set(memberIds)]);
+    group.setCreatedBy(userId);
+
+    await this.assertValid(group);
+    return await this.repository.save(group);
+  }
+
+  /**
+   * Updates a group's name, description or permissions
+   */
+  async update(id: string, data: Partial<IGroup>, userId?: string): Promise<Group> {
+    const group = await this.repository.findById(id);
+    if (!group) {
+      throw new NotFoundError(`Group with id ${id}`);
+    }
+
+    const candidate = group.clone();
+    candidate.update({
+      name: data.name !== undefined ? data.name.trim() : undefined,
+      description: data.description,
+      permissions: data.permissions
+    });
+    await this.assertValid(candidate);
+
+    group.update({
+      name: candidate.name,
+      description: candidate.description,
+      permissions: candidate.permissions
+    });
+    group.setUpdatedBy(userId);
+    return await this.repository.save(group);
+  }
+
+  /**
+   * Finds a group by ID
+   */
+  async findById(id: string): Promise<Group | null> {
+    return await this.repository.findById(id);
+  }
+
+  /**
+   * Finds all groups
+   */
+  async findAll(): Promise<Group[]> {
+    return await this.repository.findAll();
+  }
+
+  /**
+   * Finds all groups a user belongs to
+   */
+  async findByMember(userId: string): Promise<Group[]> {
+    return await this.repository.findByMember(userId);
+  }
+
+  /**
+   * Deletes a group
+   */
+  async delete(id: string): Promise<boolean> {
+    return await this.repository.delete(id);
+  }
+
+  /**
+   * Adds a user to a group
+   */
+  async addMember(id: string, memberId: string, userId?: string): Promise<Group> {
+    const group = await this.repository.findById(id);
+    if (!group) {
+      throw new NotFoundError(`Group with id ${id}`);
+    }
+    await this.assertUsersExist([memberId]);
+
+    group.addMember(memberId);
+    group.setUpdatedBy(userId);
+    return await this.repository.save(group);
+  }
+
+  /**
+   * Removes a user from a group
+   */
+  async removeMember(id: string, memberId: string, userId?: string): Promise<Group> {
+    const group = await this.repository.findById(id);
+    if (!group) {
+      throw new NotFoundError(`Group with id ${id}`);
+    }
+
+    if (!group.removeMember(memberId)) {
+      throw new NotFoundError(`Member ${memberId} of group ${id}`);
+    }
+    group.setUpdatedBy(userId);
+    return await this.repository.save(group);
+  }
+
+  /**
+   * Throws unless every id belongs to an existing user
+   */
+  private async assertUsersExist(userIds: string[]): Promise<void> {
+    for (const userId of userIds) {
+      if (!(await this.userRepository.exists(userId))) {
+        throw new NotFoundError(`User with id ${userId}`);
+      }
+    }
+  }
+
+  /**
+   * Throws if a group is invalid or its name is already taken
+   */
+  private async assertValid(group: Group): Promise<void> {
+    const errors = group.getValidationErrors();
+    if (errors.length > 0) {
+      throw new ValidationError(`Group validation failed: ${errors.join(', ')}`);
+    }
+
+    const existingGroup = await this.repository.findByName(group.name);
+    if (existingGroup && existingGroup.id !== group.id) {
+      throw new ConflictError(`Group with name ${group.name} already exists`);
+    }
+  }
+}
\ No newline at end of file
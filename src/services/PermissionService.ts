@@ -1,55 +1,79 @@
-import { IUser, UserRole } from '../interfaces/IUser';
+import { IUser, RoleName, UserRole } from '../interfaces/IUser';
 import { IPermissionService } from '../interfaces/IUser';
+import { IEntity } from '../interfaces/IEntity';
+import { RoleCapability, RolePermissions } from '../interfaces/IRole';
+import { RoleRepository } from '../database/RoleRepository';
+import { GroupRepository } from '../database/GroupRepository';
+
+/**
+ * Actions that can be authorized against a resource type
+ */
+export type PermissionAction = 'read' | 'write' | 'delete' | 'manage' | 'publish';
 
 /**
  * Abstract strategy for permission checking
+ *
+ * When `entity` is given the check applies to that specific entity (e.g. for ownership
+ * rules); without it the strategy answers whether the action is possible on the type at all.
  */
 export abstract class PermissionStrategy {
-  abstract canRead(user: IUser, resourceType: string): boolean;
-  abstract canWrite(user: IUser, resourceType: string): boolean;
-  abstract canDelete(user: IUser, resourceType: string): boolean;
-  abstract canManageUsers(user: IUser): boolean;
+  abstract canRead(user: IUser, resourceType: string, entity?: IEntity): boolean;
+  abstract canWrite(user: IUser, resourceType: string, entity?: IEntity): boolean;
+  abstract canDelete(user: IUser, resourceType: string, entity?: IEntity): boolean;
+  abstract canManage(user: IUser, resourceType: string): boolean;
+  abstract canPublish(user: IUser, resourceType: string): boolean;
 }
 
 /**
  * Admin permission strategy - can do everything
  */
 export class AdminPermissionStrategy extends PermissionStrategy {
-  canRead(_user: IUser, _resourceType: string): boolean {
+  canRead(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canWrite(_user: IUser, _resourceType: string): boolean {
+  canWrite(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canDelete(_user: IUser, _resourceType: string): boolean {
+  canDelete(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canManageUsers(_user: IUser): boolean {
+  canManage(_user: IUser, _resourceType: string): boolean {
+    return true;
+  }
+
+  canPublish(_user: IUser, _resourceType: string): boolean {
     return true;
   }
 }
 
 /**
- * Editor permission strategy - can read and write, but not delete or manage users
+ * Editor permission strategy - can read and write, delete own resources, but not manage users
  */
 export class EditorPermissionStrategy extends PermissionStrategy {
-  canRead(_user: IUser, _resourceType: string): boolean {
+  canRead(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canWrite(_user: IUser, _resourceType: string): boolean {
+  canWrite(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canDelete(_user: IUser, resourceType: string): boolean {
-    // Editors can only delete resources they created (would need additional logic)
-    return resourceType === 'resource';
+  canDelete(user: IUser, resourceType: string, entity?: IEntity): boolean {
+    // Editors can only delete resources they created
+    if (resourceType !== 'resource') {
+      return false;
+    }
+    return !entity || (entity.createdBy !== undefined && entity.createdBy === user.id);
   }
 
-  canManageUsers(_user: IUser): boolean {
+  canManage(_user: IUser, _resourceType: string): boolean {
+    return false;
+  }
+
+  canPublish(_user: IUser, _resourceType: string): boolean {
     return false;
   }
 }
@@ -58,35 +82,87 @@ export class EditorPermissionStrategy extends PermissionStrategy {
  * Viewer permission strategy - can only read
  */
 export class ViewerPermissionStrategy extends PermissionStrategy {
-  canRead(_user: IUser, _resourceType: string): boolean {
+  canRead(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return true;
   }
 
-  canWrite(_user: IUser, _resourceType: string): boolean {
+  canWrite(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
+    return false;
+  }
+
+  canDelete(_user: IUser, _resourceType: string, _entity?: IEntity): boolean {
     return false;
   }
 
-  canDelete(_user: IUser, _resourceType: string): boolean {
+  canManage(_user: IUser, _resourceType: string): boolean {
     return false;
   }
 
-  canManageUsers(_user: IUser): boolean {
+  canPublish(_user: IUser, _resourceType: string): boolean {
     return false;
   }
 }
 
+/**
+ * Capability permission strategy - grants exactly the capabilities listed by a custom role or group
+ */
+export class CapabilityPermissionStrategy extends PermissionStrategy {
+  constructor(private grantor: { permissions: RolePermissions }) {
+    super();
+  }
+
+  canRead(_user: IUser, resourceType: string, _entity?: IEntity): boolean {
+    return this.allows(resourceType, 'read');
+  }
+
+  canWrite(_user: IUser, resourceType: string, _entity?: IEntity): boolean {
+    return this.allows(resourceType, 'write');
+  }
+
+  canDelete(user: IUser, resourceType: string, entity?: IEntity): boolean {
+    if (this.allows(resourceType, 'delete')) {
+      return true;
+    }
+    return this.allows(resourceType, 'deleteOwn') &&
+      (!entity || (entity.createdBy !== undefined && entity.createdBy === user.id));
+  }
+
+  canManage(_user: IUser, resourceType: string): boolean {
+    return this.allows(resourceType, 'manage');
+  }
+
+  canPublish(_user: IUser, resourceType: string): boolean {
+    return this.allows(resourceType, 'publish');
+  }
+
+  /**
+   * Checks if the grantor lists a capability for a resource type
+   */
+  private allows(resourceType: string, capability: RoleCapability): boolean {
+    return (this.grantor.permissions[resourceType] || []).includes(capability);
+  }
+}
+
 /**
  * Permission service that uses strategy pattern
+ *
+ * Built-in roles map to fixed strategies; any other role name is resolved against the
+ * custom roles stored in the database on every check, so role edits apply immediately.
+ * A user's effective permissions are the union of their role and the groups they belong to.
  */
 export class PermissionService implements IPermissionService {
-  private strategies: Map<UserRole, PermissionStrategy>;
+  private strategies: Map<RoleName, PermissionStrategy>;
+  private roleRepository: RoleRepository;
+  private groupRepository: GroupRepository;
 
   constructor() {
-    this.strategies = new Map([
+    this.strategies = new Map<RoleName, PermissionStrategy>([
       [UserRole.ADMIN, new AdminPermissionStrategy()],
       [UserRole.EDITOR, new EditorPermissionStrategy()],
       [UserRole.VIEWER, new ViewerPermissionStrategy()]
     ]);
+    this.roleRepository = new RoleRepository();
+    this.groupRepository = new GroupRepository();
   }
 
   /**
@@ -94,44 +170,93 @@ export class PermissionService implements IPermissionService {
    */
   private getStrategy(user: IUser): PermissionStrategy {
     const strategy = this.strategies.get(user.role);
-    if (!strategy) {
+    if (strategy) {
+      return strategy;
+    }
+
+    const customRole = this.roleRepository.resolve(user.role);
+    if (!customRole) {
       throw new Error(`No permission strategy found for role: ${user.role}`);
     }
-    return strategy;
+    return new CapabilityPermissionStrategy(customRole);
+  }
+
+  /**
+   * Gets the strategies granting permissions to a user: their role first, then their groups
+   */
+  private getStrategies(user: IUser): PermissionStrategy[] {
+    const groupStrategies = this.groupRepository
+      .resolveForMember(user.id)
+      .map(group => new CapabilityPermissionStrategy(group));
+    return [this.getStrategy(user), ...groupStrategies];
   }
 
   /**
-   * Checks if user can read a resource type
+   * Checks if user can read a resource type (or a specific entity of it)
    */
-  canRead(user: IUser, resourceType: string): boolean {
-    return this.getStrategy(user).canRead(user, resourceType);
+  canRead(user: IUser, resourceType: string, entity?: IEntity): boolean {
+    return this.getStrategies(user).some(strategy => strategy.canRead(user, resourceType, entity));
   }
 
   /**
-   * Checks if user can write to a resource type
+   * Checks if user can write to a resource type (or a specific entity of it)
    */
-  canWrite(user: IUser, resourceType: string): boolean {
-    return this.getStrategy(user).canWrite(user, resourceType);
+  canWrite(user: IUser, resourceType: string, entity?: IEntity): boolean {
+    return this.getStrategies(user).some(strategy => strategy.canWrite(user, resourceType, entity));
   }
 
   /**
-   * Checks if user can delete a resource type
+   * Checks if user can delete a resource type (or a specific entity of it)
    */
-  canDelete(user: IUser, resourceType: string): boolean {
-    return this.getStrategy(user).canDelete(user, resourceType);
+  canDelete(user: IUser, resourceType: string, entity?: IEntity): boolean {
+    return this.getStrategies(user).some(strategy => strategy.canDelete(user, resourceType, entity));
+  }
+
+  /**
+   * Checks if user can manage a resource type (users, roles or groups)
+   */
+  canManage(user: IUser, resourceType: string): boolean {
+    return this.getStrategies(user).some(strategy => strategy.canManage(user, resourceType));
   }
 
   /**
    * Checks if user can manage other users
    */
   canManageUsers(user: IUser): boolean {
-    return this.getStrategy(user).canManageUsers(user);
+    return this.canManage(user, 'user');
+  }
+
+  /**
+   * Checks if user can approve a resource type for publication
+   */
+  canPublish(user: IUser, resourceType: string): boolean {
+    return this.getStrategies(user).some(strategy => strategy.canPublish(user, resourceType));
+  }
+
+  /**
+   * Checks if user may perform an action on a resource type
+   */
+  hasPermission(user: IUser, action: PermissionAction, resourceType: string, entity?: IEntity): boolean {
+    switch (action) {
+      case 'read':
+        return this.canRead(user, resourceType, entity);
+      case 'write':
+        return this.canWrite(user, resourceType, entity);
+      case 'delete':
+        return this.canDelete(user, resourceType, entity);
+      case 'manage':
+        return this.canManage(user, resourceType);
+      case 'publish':
+        return this.canPublish(user, resourceType);
+      default:
+        return false;
+    }
   }
 
   /**
    * Registers a new permission strategy for a role
    */
-  registerStrategy(role: UserRole, strategy: PermissionStrategy): void {
+  registerStrategy(role: RoleName, strategy: PermissionStrategy): void {
     this.strategies.set(role, strategy);
   }
 
@@ -143,12 +268,14 @@ export class PermissionService implements IPermissionService {
       canReadTopics: this.canRead(user, 'topic'),
       canWriteTopics: this.canWrite(user, 'topic'),
       canDeleteTopics: this.canDelete(user, 'topic'),
+      canPublishTopics: this.canPublish(user, 'topic'),
       canReadResources: this.canRead(user, 'resource'),
       canWriteResources: this.canWrite(user, 'resource'),
       canDeleteResources: this.canDelete(user, 'resource'),
       canReadUsers: this.canRead(user, 'user'),
       canWriteUsers: this.canWrite(user, 'user'),
       canDeleteUsers: this.canDelete(user, 'user'),
+      canReadGroups: this.canRead(user, 'group'),
       canManageUsers: this.canManageUsers(user)
     };
   }
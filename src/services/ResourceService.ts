@@ -1,32 +1,47 @@
 import { IResourceService } from '../interfaces/IResource';
+import { IUser } from '../interfaces/IUser';
+import { TopicAccessLevel } from '../interfaces/ITopic';
 import { Resource } from '../models/Resource';
 import { ResourceRepository } from '../database/ResourceRepository';
+import { TopicRepository } from '../database/TopicRepository';
 import { StandardEntityFactory } from '../utils/EntityFactory';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { TopicAccessService, TopicAclCache } from './TopicAccessService';
+import { BulkOperationError, ForbiddenError, NotFoundError } from '../types/errors';
 
 /**
  * Service implementation for Resource business logic
  */
 export class ResourceService implements IResourceService {
   private repository: ResourceRepository;
+  private topicRepository: TopicRepository;
+  private topicAccessService: TopicAccessService;
   private factory: StandardEntityFactory;
 
   constructor() {
     this.repository = new ResourceRepository();
+    this.topicRepository = new TopicRepository();
+    this.topicAccessService = new TopicAccessService();
     this.factory = new StandardEntityFactory();
   }
 
   /**
-   * Creates a new resource
+   * Creates a new resource, provided the writer (if given) may write its topic
    */
-  async create(data: Partial<Resource>): Promise<Resource> {
+  async create(data: Partial<Resource>, userId?: string, writer?: IUser): Promise<Resource> {
+    if (writer && data.topicId) {
+      await this.assertCanWriteTopic(writer, data.topicId);
+    }
+
     const resource = this.factory.createResource(data);
+    resource.setCreatedBy(userId);
     return await this.repository.save(resource);
   }
 
   /**
    * Updates an existing resource
    */
-  async update(id: string, data: Partial<Resource>): Promise<Resource> {
+  async update(id: string, data: Partial<Resource>, userId?: string): Promise<Resource> {
     const existingResource = await this.repository.findById(id);
     if (!existingResource) {
       throw new Error(`Resource with id ${id} not found`);
@@ -38,6 +53,7 @@ export class ResourceService implements IResourceService {
       description: data.description,
       type: data.type
     });
+    existingResource.setUpdatedBy(userId);
 
     return await this.repository.save(existingResource);
   }
@@ -50,10 +66,10 @@ export class ResourceService implements IResourceService {
   }
 
   /**
-   * Finds all resources
+   * Finds all resources (of the topics the viewer can read, if a viewer is given)
    */
-  async findAll(): Promise<Resource[]> {
-    return await this.repository.findAll();
+  async findAll(viewer?: IUser): Promise<Resource[]> {
+    return await this.filterReadable(await this.repository.findAll(), viewer);
   }
 
   /**
@@ -66,29 +82,29 @@ export class ResourceService implements IResourceService {
   /**
    * Finds resources by topic ID
    */
-  async findByTopicId(topicId: string): Promise<Resource[]> {
-    return await this.repository.findByTopicId(topicId);
+  async findByTopicId(topicId: string, viewer?: IUser): Promise<Resource[]> {
+    return await this.filterReadable(await this.repository.findByTopicId(topicId), viewer);
   }
 
   /**
    * Finds resources by type
    */
-  async findByType(type: string): Promise<Resource[]> {
-    return await this.repository.findByType(type);
+  async findByType(type: string, viewer?: IUser): Promise<Resource[]> {
+    return await this.filterReadable(await this.repository.findByType(type), viewer);
   }
 
   /**
    * Searches resources by description
    */
-  async searchByDescription(query: string): Promise<Resource[]> {
-    return await this.repository.findByDescription(query);
+  async searchByDescription(query: string, viewer?: IUser): Promise<Resource[]> {
+    return await this.filterReadable(await this.repository.findByDescription(query), viewer);
   }
 
   /**
    * Finds resources by URL pattern
    */
-  async findByUrlPattern(pattern: string): Promise<Resource[]> {
-    return await this.repository.findByUrlPattern(pattern);
+  async findByUrlPattern(pattern: string, viewer?: IUser): Promise<Resource[]> {
+    return await this.filterReadable(await this.repository.findByUrlPattern(pattern), viewer);
   }
 
   /**
@@ -120,8 +136,10 @@ export class ResourceService implements IResourceService {
   /**
    * Validates all resources and returns invalid ones
    */
-  async validateAllResources(): Promise<{ resource: Resource; errors: string[] }[]> {
-    return await this.repository.findInvalidResources();
+  async validateAllResources(viewer?: IUser): Promise<{ resource: Resource; errors: string[] }[]> {
+    const invalid = await this.repository.findInvalidResources();
+    const readable = new Set(await this.filterReadable(invalid.map(entry => entry.resource), viewer));
+    return invalid.filter(entry => readable.has(entry.resource));
   }
 
   /**
@@ -139,8 +157,8 @@ export class ResourceService implements IResourceService {
   /**
    * Gets resources grouped by type
    */
-  async getResourcesByType(): Promise<Record<string, Resource[]>> {
-    const allResources = await this.repository.findAll();
+  async getResourcesByType(viewer?: IUser): Promise<Record<string, Resource[]>> {
+    const allResources = await this.findAll(viewer);
     const grouped: Record<string, Resource[]> = {};
 
     for (const resource of allResources) {
@@ -172,13 +190,20 @@ export class ResourceService implements IResourceService {
 
   /**
    * Bulk creates resources
+   *
+   * Resources that fail are skipped, unless the operation is atomic: then the first failure
+   * throws a BulkOperationError and none of the resources are kept.
    */
-  async bulkCreate(resourcesData: Partial<Resource>[]): Promise<Resource[]> {
+  async bulkCreate(resourcesData: Partial<Resource>[], userId?: string, atomic: boolean = false, writer?: IUser): Promise<Resource[]> {
+    if (atomic) {
+      return await this.createAllOrNothing(resourcesData, userId, writer);
+    }
+
     const createdResources: Resource[] = [];
 
     for (const data of resourcesData) {
       try {
-        const resource = await this.create(data);
+        const resource = await this.create(data, userId, writer);
         createdResources.push(resource);
       } catch (error) {
         // Log error but continue with other resources
@@ -192,20 +217,24 @@ export class ResourceService implements IResourceService {
   /**
    * Exports resources to JSON
    */
-  async exportResources(): Promise<any[]> {
-    const allResources = await this.repository.findAll();
+  async exportResources(viewer?: IUser): Promise<any[]> {
+    const allResources = await this.findAll(viewer);
     return allResources.map(resource => resource.toJSON());
   }
 
   /**
-   * Imports resources from JSON data
+   * Imports resources from JSON data, skipping those that fail unless the import is atomic
    */
-  async importResources(resourcesData: any[]): Promise<Resource[]> {
+  async importResources(resourcesData: any[], userId?: string, atomic: boolean = false, writer?: IUser): Promise<Resource[]> {
+    if (atomic) {
+      return await this.createAllOrNothing(resourcesData, userId, writer);
+    }
+
     const importedResources: Resource[] = [];
 
     for (const data of resourcesData) {
       try {
-        const resource = await this.create(data);
+        const resource = await this.create(data, userId, writer);
         importedResources.push(resource);
       } catch (error) {
         console.error(`Failed to import resource: ${error}`);
@@ -214,4 +243,62 @@ export class ResourceService implements IResourceService {
 
     return importedResources;
   }
+
+  /**
+   * Creates all resources in one unit of work, keeping none if any fails
+   */
+  private async createAllOrNothing(resourcesData: Partial<Resource>[], userId?: string, writer?: IUser): Promise<Resource[]> {
+    return await UnitOfWork.run(async () => {
+      const createdResources: Resource[] = [];
+      for (const [index, data] of resourcesData.entries()) {
+        try {
+          createdResources.push(await this.create(data, userId, writer));
+        } catch (error) {
+          throw new BulkOperationError(index, error instanceof Error ? error.message : String(error));
+        }
+      }
+      return createdResources;
+    });
+  }
+
+  /**
+   * Throws unless a user may write a topic; topics the user cannot read are reported as missing
+   */
+  private async assertCanWriteTopic(user: IUser, topicId: string): Promise<void> {
+    const topic = await this.topicRepository.findById(topicId);
+    if (!topic) {
+      return;
+    }
+
+    const cache: TopicAclCache = new Map();
+    if (!(await this.topicAccessService.canAccess(user, topic, TopicAccessLevel.READ, cache))) {
+      throw new NotFoundError('Topic');
+    }
+    if (!(await this.topicAccessService.canAccess(user, topic, TopicAccessLevel.WRITE, cache))) {
+      throw new ForbiddenError(`Access level ${TopicAccessLevel.WRITE} is required on topic ${topic.id}`);
+    }
+  }
+
+  /**
+   * Filters resources down to those whose topic the viewer can read (no viewer means no filtering)
+   */
+  private async filterReadable(resources: Resource[], viewer?: IUser): Promise<Resource[]> {
+    if (!viewer) {
+      return resources;
+    }
+
+    const cache: TopicAclCache = new Map();
+    const readableByTopic = new Map<string, boolean>();
+    const readable: Resource[] = [];
+    for (const resource of resources) {
+      if (!readableByTopic.has(resource.topicId)) {
+        const topic = await this.topicRepository.findById(resource.topicId);
+        readableByTopic.set(resource.topicId, topic !== null && await this.topicAccessService.canAccess(viewer, topic, TopicAccessLevel.READ, cache));
+      }
+      if (readableByTopic.get(resource.topicId)) {
+        readable.push(resource);
+      }
+    }
+    return readable;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { IRole } from '../interfaces/IRole';
+import { UserRole } from '../interfaces/IUser';
+import { Role } from '../models/Role';
+import { RoleRepository } from '../database/RoleRepository';
+import { UserRepository } from '../database/UserRepository';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+/**
+ * Service implementation for custom Role business logic
+ */
+export class RoleService {
+  private repository: RoleRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.repository = new RoleRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Creates a new custom role
+   */
+  async create(data: Partial<IRole>, userId?: string): Promise<Role> {
+    const role = new Role((data.name || '').trim(), data.permissions, data.description);
+    role.setCreatedBy(userId);
+
+    await this.assertValid(role);
+    return await this.repository.save(role);
+  }
+
+  /**
+   * Updates a custom role, renaming it on every user that holds it
+   *
+   * The role and its users are saved in one unit of work, so a failed rename leaves no user
+   * holding a role name that no longer resolves.
+   */
+  async update(id: string, data: Partial<IRole>, userId?: string): Promise<Role> {
+    const role = await this.repository.findById(id);
+    if (!role) {
+      throw new NotFoundError(`Role with id ${id}`);
+    }
+
+    const previousName = role.name;
+    const candidate = role.clone();
+    candidate.update({
+      name: data.name !== undefined ? data.name.trim() : undefined,
+      description: data.description,
+      permissions: data.permissions
+    });
+    await this.assertValid(candidate);
+    candidate.setUpdatedBy(userId);
+
+    return await UnitOfWork.run(async () => {
+      const saved = await this.repository.save(candidate);
+
+      if (saved.name !== previousName) {
+        for (const holder of await this.userRepository.findByRole(previousName)) {
+          const user = holder.clone();
+          user.update({ role: saved.name });
+          user.setUpdatedBy(userId);
+          await this.userRepository.save(user);
+        }
+      }
+
+      return saved;
+    });
+  }
+
+  /**
+   * Finds a custom role by ID
+   */
+  async findById(id: string): Promise<Role | null> {
+    return await this.repository.findById(id);
+  }
+
+  /**
+   * Finds all custom roles
+   */
+  async findAll(): Promise<Role[]> {
+    return await this.repository.findAll();
+  }
+
+  /**
+   * Gets the names of the built-in roles
+   */
+  getBuiltInRoles(): string[] {
+    return Object.values(UserRole);
+  }
+
+  /**
+   * Deletes a custom role that no user holds any more
+   */
+  async delete(id: string): Promise<boolean> {
+    const role = await this.repository.findById(id);
+    if (!role) {
+      return false;
+    }
+
+    const holders = await this.userRepository.findByRole(role.name);
+    if (holders.length > 0) {
+      throw new ConflictError(`Role ${role.name} is still assigned to ${holders.length} user(s)`);
+    }
+
+    return await this.repository.delete(id);
+  }
+
+  /**
+   * Throws if a role is invalid or its name is already taken
+   */
+  private async assertValid(role: Role): Promise<void> {
+    const errors = role.getValidationErrors();
+    if (errors.length > 0) {
+      throw new ValidationError(`Role validation failed: ${errors.join(', ')}`);
+    }
+
+    const existingRole = await this.repository.findByName(role.name);
+    if (existingRole && existingRole.id !== role.id) {
+      throw new ConflictError(`Role with name ${role.name} already exists`);
+    }
+  }
+}
\ No newline at end of file
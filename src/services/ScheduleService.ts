@@ -0,0 +1,208 @@
+import { IScheduledActionFilter, ScheduledActionType } from '../interfaces/IScheduledAction';
+import { IUser, UserRole } from '../interfaces/IUser';
+import { TopicAccessLevel } from '../interfaces/ITopic';
+import { ScheduledAction } from '../models/ScheduledAction';
+import { ScheduledActionRepository } from '../database/ScheduledActionRepository';
+import { TopicRepository } from '../database/TopicRepository';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { TopicAccessService } from './TopicAccessService';
+import { TopicService } from './TopicService';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+/**
+ * Data for scheduling an action on a topic version
+ */
+export interface ScheduleActionData {
+  action: ScheduledActionType;
+  runAt: Date;
+  version?: number;
+}
+
+/**
+ * Service implementation for scheduled publishing and expiry of topic versions
+ */
+export class ScheduleService {
+  private repository: ScheduledActionRepository;
+  private topicRepository: TopicRepository;
+  private topicService: TopicService;
+  private accessService: TopicAccessService;
+
+  constructor() {
+    this.repository = new ScheduledActionRepository();
+    this.topicRepository = new TopicRepository();
+    this.topicService = new TopicService();
+    this.accessService = new TopicAccessService();
+  }
+
+  /**
+   * Schedules an action on a topic version
+   *
+   * Publishing defaults to the latest version and expiring to the published one. Expiring a
+   * version also records the time on the version as `expiresAt`, in the same unit of work.
+   */
+  async schedule(topicId: string, data: ScheduleActionData, userId?: string, now: Date = new Date()): Promise<ScheduledAction> {
+    if (!Object.values(ScheduledActionType).includes(data.action)) {
+      throw new ValidationError(`Action must be one of: ${Object.values(ScheduledActionType).join(', ')}`);
+    }
+    if (!(data.runAt instanceof Date) || isNaN(data.runAt.getTime())) {
+      throw new ValidationError('Run time must be a valid date');
+    }
+    if (data.runAt.getTime() <= now.getTime()) {
+      throw new ValidationError('Run time must be in the future');
+    }
+
+    const version = await this.resolveVersion(topicId, data);
+
+    const duplicate = (await this.repository.findAll({ topicId }))
+      .find(action => action.isPending() && action.action === data.action && action.version === version);
+    if (duplicate) {
+      throw new ConflictError(`Version ${version} already has a pending ${data.action} scheduled for ${duplicate.runAt.toISOString()}`);
+    }
+
+    const action = new ScheduledAction(topicId, version, data.action, data.runAt);
+    action.setCreatedBy(userId);
+    return await UnitOfWork.run(async () => {
+      const saved = await this.repository.save(action);
+      if (data.action === ScheduledActionType.EXPIRE) {
+        await this.topicService.setVersionExpiry(topicId, version, data.runAt);
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Finds a scheduled action by ID, hiding actions on topics the viewer cannot write
+   */
+  async findById(id: string, viewer?: IUser): Promise<ScheduledAction | null> {
+    const action = await this.repository.findById(id);
+    if (!action || !(await this.canManage(action, viewer))) {
+      return null;
+    }
+    return action;
+  }
+
+  /**
+   * Finds scheduled actions, soonest first, hiding actions on topics the viewer cannot write
+   */
+  async findAll(filter: IScheduledActionFilter = {}, viewer?: IUser): Promise<ScheduledAction[]> {
+    const actions = await this.repository.findAll(filter);
+    if (!viewer) {
+      return actions;
+    }
+
+    const manageable: ScheduledAction[] = [];
+    for (const action of actions) {
+      if (await this.canManage(action, viewer)) {
+        manageable.push(action);
+      }
+    }
+    return manageable;
+  }
+
+  /**
+   * Cancels a pending action, clearing the expiry it recorded on its version
+   */
+  async cancel(id: string, userId?: string, viewer?: IUser): Promise<ScheduledAction> {
+    const action = await this.findById(id, viewer);
+    if (!action) {
+      throw new NotFoundError(`Scheduled action with id ${id}`);
+    }
+    if (!action.isPending()) {
+      throw new ConflictError(`Scheduled action ${id} is ${action.status} and cannot be cancelled`);
+    }
+
+    const cancelled = action.clone();
+    cancelled.cancel();
+    cancelled.setUpdatedBy(userId);
+    return await UnitOfWork.run(async () => {
+      const saved = await this.repository.save(cancelled);
+      if (saved.action === ScheduledActionType.EXPIRE) {
+        await this.clearExpiry(saved);
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Runs every pending action whose time has come, in order, and returns them
+   *
+   * An action that cannot be carried out, e.g. because its version was superseded, is marked
+   * as failed with the reason rather than retried.
+   */
+  async runDueActions(now: Date = new Date()): Promise<ScheduledAction[]> {
+    const due = await this.repository.findDue(now);
+
+    for (const action of due) {
+      try {
+        if (action.action === ScheduledActionType.PUBLISH) {
+          await this.topicService.publishVersion(action.topicId, action.version, action.createdBy, 'Scheduled publish');
+        } else {
+          await this.topicService.expireVersion(action.topicId, action.version);
+        }
+        action.complete();
+      } catch (error) {
+        action.fail(error instanceof Error ? error.message : String(error));
+      }
+      await this.repository.save(action);
+    }
+
+    return due;
+  }
+
+  /**
+   * Resolves the version an action targets, checking that it exists
+   */
+  private async resolveVersion(topicId: string, data: ScheduleActionData): Promise<number> {
+    const latest = await this.topicRepository.findById(topicId);
+    if (!latest) {
+      throw new NotFoundError(`Topic with id ${topicId}`);
+    }
+
+    if (data.version !== undefined) {
+      if (!Number.isInteger(data.version) || data.version < 1) {
+        throw new ValidationError('Version must be a positive integer');
+      }
+      if (!(await this.topicRepository.findById(topicId, data.version))) {
+        throw new NotFoundError(`Topic version ${data.version}`);
+      }
+      return data.version;
+    }
+
+    if (data.action === ScheduledActionType.PUBLISH) {
+      return latest.version;
+    }
+
+    const published = await this.topicRepository.findPublishedVersion(topicId);
+    if (!published) {
+      throw new ConflictError(`Topic ${topicId} has no published version to expire`);
+    }
+    return published.version;
+  }
+
+  /**
+   * Clears the expiry a cancelled action recorded, unless another action has set it since
+   */
+  private async clearExpiry(action: ScheduledAction): Promise<void> {
+    const topic = await this.topicRepository.findById(action.topicId, action.version);
+    if (topic && topic.expiresAt?.getTime() === action.runAt.getTime()) {
+      await this.topicService.setVersionExpiry(action.topicId, action.version, undefined);
+    }
+  }
+
+  /**
+   * Checks if a viewer has write access to the topic of an action (no viewer means no check)
+   *
+   * Once the topic is trashed or purged its access control list can no longer be checked, so
+   * only admins may manage its actions.
+   */
+  private async canManage(action: ScheduledAction, viewer?: IUser): Promise<boolean> {
+    if (!viewer) {
+      return true;
+    }
+    const topic = await this.topicRepository.findById(action.topicId);
+    if (!topic) {
+      return viewer.role === UserRole.ADMIN;
+    }
+    return await this.accessService.canAccess(viewer, topic, TopicAccessLevel.WRITE);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { IUser } from '../interfaces/IUser';
+import { UnauthorizedError } from '../types/errors';
+
+/**
+ * Kind of token, so a refresh token can never be used as an access token
+ */
+export type TokenType = 'access' | 'refresh';
+
+/**
+ * Claims carried by every issued token
+ */
+export interface TokenPayload {
+  sub: string;
+  role: string;
+  type: TokenType;
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Access/refresh token pair returned after authentication
+ */
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  expiresAt: Date;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes
+const DEFAULT_REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // 7 days
+
+/**
+ * Issues and verifies HMAC-SHA256 signed JSON Web Tokens
+ */
+export class TokenService {
+  private static instance: TokenService;
+  private secret: string;
+  private accessTokenTtl: number;
+  private refreshTokenTtl: number;
+  private revokedTokens: Map<string, number> = new Map(); // jti -> exp
+
+  private constructor() {
+    this.secret = process.env.JWT_SECRET || this.generateSecret();
+    this.accessTokenTtl = parseInt(process.env.JWT_ACCESS_TOKEN_TTL || '', 10) || DEFAULT_ACCESS_TOKEN_TTL;
+    this.refreshTokenTtl = parseInt(process.env.JWT_REFRESH_TOKEN_TTL || '', 10) || DEFAULT_REFRESH_TOKEN_TTL;
+  }
+
+  /**
+   * Singleton pattern implementation
+   */
+  static getInstance(): TokenService {
+    if (!TokenService.instance) {
+      TokenService.instance = new TokenService();
+    }
+    return TokenService.instance;
+  }
+
+  /**
+   * Issues a new access/refresh token pair for a user
+   */
+  issueTokenPair(user: IUser): TokenPair {
+    const now = Math.floor(Date.now() / 1000);
+
+    return {
+      accessToken: this.sign(user, 'access', now, this.accessTokenTtl),
+      refreshToken: this.sign(user, 'refresh', now, this.refreshTokenTtl),
+      tokenType: 'Bearer',
+      expiresIn: this.accessTokenTtl,
+      expiresAt: new Date((now + this.accessTokenTtl) * 1000)
+    };
+  }
+
+  /**
+   * Verifies an access token and returns its claims
+   */
+  verifyAccessToken(token: string): TokenPayload {
+    return this.verify(token, 'access');
+  }
+
+  /**
+   * Verifies a refresh token that has not been revoked and returns its claims
+   */
+  verifyRefreshToken(token: string): TokenPayload {
+    const payload = this.verify(token, 'refresh');
+    if (this.revokedTokens.has(payload.jti)) {
+      throw new UnauthorizedError('Refresh token has been revoked');
+    }
+    return payload;
+  }
+
+  /**
+   * Revokes a token so it can no longer be used
+   */
+  revoke(payload: TokenPayload): void {
+    this.pruneRevokedTokens();
+    this.revokedTokens.set(payload.jti, payload.exp);
+  }
+
+  /**
+   * Signs a token of the given type for a user
+   */
+  private sign(user: IUser, type: TokenType, issuedAt: number, ttl: number): string {
+    const payload: TokenPayload = {
+      sub: user.id,
+      role: user.role,
+      type,
+      jti: randomUUID(),
+      iat: issuedAt,
+      exp: issuedAt + ttl
+    };
+
+    const header = this.encode({ alg: 'HS256', typ: 'JWT' });
+    const body = this.encode(payload);
+    return `${header}.${body}.${this.signature(`${header}.${body}`)}`;
+  }
+
+  /**
+   * Verifies signature, expiry and type of a token
+   */
+  private verify(token: string, expectedType: TokenType): TokenPayload {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new UnauthorizedError('Malformed token');
+    }
+
+    const [header, body, signature] = parts;
+    const expected = Buffer.from(this.signature(`${header}.${body}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new UnauthorizedError('Invalid token signature');
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new UnauthorizedError('Malformed token');
+    }
+
+    if (payload.type !== expectedType) {
+      throw new UnauthorizedError('Invalid token type');
+    }
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new UnauthorizedError('Token has expired');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Computes the base64url HMAC signature of the signing input
+   */
+  private signature(input: string): string {
+    return createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+
+  /**
+   * Encodes an object as base64url JSON
+   */
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  /**
+   * Drops revoked entries whose tokens have expired anyway
+   */
+  private pruneRevokedTokens(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [jti, exp] of this.revokedTokens.entries()) {
+      if (exp <= now) {
+        this.revokedTokens.delete(jti);
+      }
+    }
+  }
+
+  /**
+   * Generates a per-process secret when none is configured
+   */
+  private generateSecret(): string {
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('⚠️  JWT_SECRET is not set; issued tokens will not survive a restart.');
+    }
+    return randomBytes(32).toString('hex');
+  }
+}
\ No newline at end of file
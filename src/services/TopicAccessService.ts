@@ -0,0 +1,193 @@
+import { IUser } from '../interfaces/IUser';
+import { IEffectiveTopicAcl, ITopicAclEntry, PrincipalType, TopicAccessLevel } from '../interfaces/ITopic';
+import { Topic } from '../models/Topic';
+import { TopicRepository } from '../database/TopicRepository';
+import { TopicAclRepository } from '../database/TopicAclRepository';
+import { GroupRepository } from '../database/GroupRepository';
+import { PermissionService } from './PermissionService';
+import { ValidationError } from '../types/errors';
+
+/**
+ * Cache of effective ACLs by topic id, shared across checks of a single request
+ */
+export type TopicAclCache = Map<string, IEffectiveTopicAcl | null>;
+
+const LEVEL_RANK: Record<TopicAccessLevel, number> = {
+  [TopicAccessLevel.READ]: 1,
+  [TopicAccessLevel.WRITE]: 2,
+  [TopicAccessLevel.ADMIN]: 3
+};
+
+/**
+ * Service resolving per-topic access control lists
+ *
+ * A topic without entries of its own inherits the list of its nearest ancestor that has
+ * some; a topic with no list anywhere up its hierarchy is governed by roles alone. Users
+ * who can manage users bypass topic lists entirely.
+ */
+export class TopicAccessService {
+  private topicRepository: TopicRepository;
+  private aclRepository: TopicAclRepository;
+  private groupRepository: GroupRepository;
+  private permissionService: PermissionService;
+
+  constructor() {
+    this.topicRepository = new TopicRepository();
+    this.aclRepository = new TopicAclRepository();
+    this.groupRepository = new GroupRepository();
+    this.permissionService = new PermissionService();
+  }
+
+  /**
+   * Gets the entries attached directly to a topic
+   */
+  async getOwnAcl(topicId: string): Promise<ITopicAclEntry[]> {
+    return await this.aclRepository.findByTopicId(topicId);
+  }
+
+  /**
+   * Replaces the entries attached directly to a topic (an empty list restores inheritance)
+   */
+  async setOwnAcl(topicId: string, entries: ITopicAclEntry[]): Promise<ITopicAclEntry[]> {
+    const errors = this.getValidationErrors(entries);
+    if (errors.length > 0) {
+      throw new ValidationError(`ACL validation failed: ${errors.join(', ')}`);
+    }
+
+    const normalized = entries.map(entry => ({
+      principalType: entry.principalType,
+      principalId: entry.principalId,
+      level: entry.level
+    }));
+    return await this.aclRepository.save(topicId, normalized);
+  }
+
+  /**
+   * Resolves the list in effect for a topic, walking up the hierarchy
+   */
+  async getEffectiveAcl(topicId: string, cache: TopicAclCache = new Map()): Promise<IEffectiveTopicAcl | null> {
+    const visited: string[] = [];
+    let currentId: string | undefined = topicId;
+    let result: IEffectiveTopicAcl | null = null;
+
+    while (currentId && !visited.includes(currentId)) {
+      if (cache.has(currentId)) {
+        result = cache.get(currentId)!;
+        break;
+      }
+
+      visited.push(currentId);
+      const entries = await this.aclRepository.findByTopicId(currentId);
+      if (entries.length > 0) {
+        result = { sourceTopicId: currentId, inherited: false, entries };
+        break;
+      }
+
+      const topic = await this.topicRepository.findById(currentId);
+      currentId = topic?.parentTopicId;
+    }
+
+    for (const id of visited) {
+      cache.set(id, result);
+    }
+
+    if (result && result.sourceTopicId !== topicId) {
+      return { ...result, inherited: true };
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a user holds at least the given access level on a topic
+   */
+  async canAccess(user: IUser, topic: Topic, level: TopicAccessLevel, cache?: TopicAclCache): Promise<boolean> {
+    if (this.permissionService.canManageUsers(user)) {
+      return true;
+    }
+
+    if (level === TopicAccessLevel.ADMIN && topic.isOwnedBy(user.id)) {
+      return true;
+    }
+
+    const acl = await this.getEffectiveAcl(topic.id, cache);
+    if (!acl) {
+      // Unrestricted topics are governed by roles, but only owners may restrict them
+      return level !== TopicAccessLevel.ADMIN;
+    }
+
+    const groupIds = (await this.groupRepository.findByMember(user.id)).map(group => group.id);
+    const granted = this.getGrantedLevel(user, groupIds, acl.entries);
+    return granted !== null && LEVEL_RANK[granted] >= LEVEL_RANK[level];
+  }
+
+  /**
+   * Filters topics down to those a user can read
+   */
+  async filterReadable(user: IUser, topics: Topic[], cache: TopicAclCache = new Map()): Promise<Topic[]> {
+    const readable: Topic[] = [];
+    for (const topic of topics) {
+      if (await this.canAccess(user, topic, TopicAccessLevel.READ, cache)) {
+        readable.push(topic);
+      }
+    }
+    return readable;
+  }
+
+  /**
+   * Gets the highest level granted to a user by a list of entries
+   */
+  private getGrantedLevel(user: IUser, groupIds: string[], entries: ITopicAclEntry[]): TopicAccessLevel | null {
+    let granted: TopicAccessLevel | null = null;
+
+    for (const entry of entries) {
+      if (!this.matchesPrincipal(user, groupIds, entry)) {
+        continue;
+      }
+      if (granted === null || LEVEL_RANK[entry.level] > LEVEL_RANK[granted]) {
+        granted = entry.level;
+      }
+    }
+
+    return granted;
+  }
+
+  /**
+   * Checks if an entry applies to a user, directly or through one of their groups
+   */
+  private matchesPrincipal(user: IUser, groupIds: string[], entry: ITopicAclEntry): boolean {
+    if (entry.principalType === PrincipalType.GROUP) {
+      return groupIds.includes(entry.principalId);
+    }
+    return entry.principalId === user.id;
+  }
+
+  /**
+   * Gets validation errors for a list of entries
+   */
+  private getValidationErrors(entries: ITopicAclEntry[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(entries)) {
+      errors.push('Entries must be an array');
+      return errors;
+    }
+
+    entries.forEach((entry, index) => {
+      if (!entry || typeof entry !== 'object') {
+        errors.push(`Entry ${index} must be an object`);
+        return;
+      }
+      if (!Object.values(PrincipalType).includes(entry.principalType)) {
+        errors.push(`Entry ${index} has invalid principalType`);
+      }
+      if (typeof entry.principalId !== 'string' || entry.principalId.trim().length === 0) {
+        errors.push(`Entry ${index} requires a principalId`);
+      }
+      if (!Object.values(TopicAccessLevel).includes(entry.level)) {
+        errors.push(`Entry ${index} has invalid level`);
+      }
+    });
+
+    return errors;
+  }
+}
\ No newline at end of file
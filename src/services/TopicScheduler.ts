@@ -0,0 +1,72 @@
+import { ScheduleService } from './ScheduleService';
+
+const DEFAULT_INTERVAL_MS = 10000;
+
+/**
+ * Background loop that runs scheduled topic actions once they are due
+ *
+ * The loop polls on an unref'd timer, so it never keeps the process alive on its own, and
+ * skips a tick while the previous one is still running.
+ */
+export class TopicScheduler {
+  private scheduleService: ScheduleService;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(intervalMs: number = parseInt(process.env.SCHEDULER_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS) {
+    this.scheduleService = new ScheduleService();
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Starts polling for due actions, running any that are already overdue right away
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    this.timer.unref();
+    void this.tick();
+  }
+
+  /**
+   * Stops polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Checks if the scheduler is polling
+   */
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Runs the actions that are due now
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const actions = await this.scheduleService.runDueActions(now);
+      for (const action of actions) {
+        console.log(`⏰ Scheduled ${action.action} of topic ${action.topicId} v${action.version}: ${action.status}${action.error ? ` (${action.error})` : ''}`);
+      }
+    } catch (error) {
+      console.error('Failed to run scheduled actions:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
\ No newline at end of file
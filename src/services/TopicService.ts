@@ -1,39 +1,86 @@
-import { ITopicService, ITopicTree, ITopic } from '../interfaces/ITopic';
+import { ITopicService, ITopicTree, ITopic, ITopicAclEntry, IEffectiveTopicAcl, ITopicFieldChange, ITopicFieldConflict, ITopicVersionDiff, TopicAccessLevel, TopicStatus } from '../interfaces/ITopic';
+import { IUser } from '../interfaces/IUser';
 import { Topic } from '../models/Topic';
 import { TopicRepository } from '../database/TopicRepository';
+import { ResourceRepository } from '../database/ResourceRepository';
+import { TrashRepository } from '../database/TrashRepository';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { TrashEntry } from '../models/TrashEntry';
+import { TopicDeletePolicy } from '../interfaces/ITrash';
 import { ShortestPathAlgorithm } from '../algorithms/ShortestPathAlgorithm';
+import { MergeResult, TextDiffAlgorithm } from '../algorithms/TextDiffAlgorithm';
+import { TopicAccessService, TopicAclCache } from './TopicAccessService';
+import { PermissionService } from './PermissionService';
 // import { TopicComponentFactory } from '../utils/TopicComposite';
 import { VersionedTopicFactory } from '../utils/EntityFactory';
+import { TopicSlug } from '../utils/TopicSlug';
+import { ConflictError, ForbiddenError, MergeConflictError, NotFoundError, ValidationError, VersionConflictError } from '../types/errors';
 
 /**
  * Service implementation for Topic business logic
  */
 export class TopicService implements ITopicService {
   private repository: TopicRepository;
+  private resourceRepository: ResourceRepository;
+  private trashRepository: TrashRepository;
   private pathAlgorithm: ShortestPathAlgorithm;
+  private diffAlgorithm: TextDiffAlgorithm;
   private topicFactory: VersionedTopicFactory;
+  private accessService: TopicAccessService;
+  private permissionService: PermissionService;
 
   constructor() {
     this.repository = new TopicRepository();
+    this.resourceRepository = new ResourceRepository();
+    this.trashRepository = new TrashRepository();
     this.pathAlgorithm = new ShortestPathAlgorithm(this.repository);
+    this.diffAlgorithm = new TextDiffAlgorithm();
     this.topicFactory = new VersionedTopicFactory();
+    this.accessService = new TopicAccessService();
+    this.permissionService = new PermissionService();
   }
 
   /**
    * Creates a new topic
+   *
+   * Without an explicit slug one is generated from the name, made unique with a counter.
    */
-  async create(data: Partial<ITopic>): Promise<Topic> {
+  async create(data: Partial<ITopic>, userId?: string): Promise<Topic> {
     const topic = this.topicFactory.createTopic(data);
+    if (data.slug !== undefined) {
+      if (!TopicSlug.isValid(data.slug)) {
+        throw new ValidationError('Slug must be lowercase letters and digits separated by single hyphens, at most 100 characters');
+      }
+      topic.slug = data.slug;
+    } else {
+      topic.slug = await this.repository.generateSlug(topic.name, topic.id);
+    }
+    topic.setCreatedBy(userId);
     return await this.repository.save(topic);
   }
 
   /**
    * Updates an existing topic (creates new version)
+   *
+   * With expected versions the update only applies if the topic is still at one of them. With
+   * a base version older than the latest, the edit is merged into the latest version instead.
+   * Renaming regenerates the slug unless one is given; former slugs keep resolving to the topic.
    */
-  async update(id: string, data: Partial<Topic>): Promise<Topic> {
+  async update(
+    id: string,
+    data: Partial<Topic>,
+    userId?: string,
+    expectedVersions?: number[],
+    baseVersion?: number
+  ): Promise<Topic> {
     const existingTopic = await this.repository.findById(id);
     if (!existingTopic) {
-      throw new Error(`Topic with id ${id} not found`);
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+    this.assertExpectedVersion(existingTopic, expectedVersions);
+
+    if (baseVersion !== undefined && baseVersion !== existingTopic.version) {
+      data = await this.mergeConcurrentEdit(existingTopic, baseVersion, data);
     }
 
     // Create new version
@@ -41,105 +88,261 @@ export class TopicService implements ITopicService {
     
     // Update properties
     if (data.name !== undefined) newVersion.name = data.name;
+    if (data.slug !== undefined) {
+      newVersion.slug = data.slug;
+    } else if (data.name !== undefined && data.name !== existingTopic.name) {
+      newVersion.slug = await this.repository.generateSlug(data.name, id);
+    }
     if (data.content !== undefined) newVersion.content = data.content;
     if (data.parentTopicId !== undefined) newVersion.parentTopicId = data.parentTopicId;
+    newVersion.setChangeMessage(data.changeMessage);
+    newVersion.setUpdatedBy(userId);
 
-    return await this.repository.save(newVersion);
+    const errors = newVersion.getValidationErrors();
+    if (errors.length > 0) {
+      throw new ValidationError(`Topic validation failed: ${errors.join(', ')}`);
+    }
+
+    return await this.repository.save(newVersion, existingTopic.version);
   }
 
   /**
-   * Finds a topic by ID
+   * Finds a topic by ID, as the viewer may see it when one is given
    */
-  async findById(id: string, version?: number): Promise<Topic | null> {
-    return await this.repository.findById(id, version);
+  async findById(id: string, version?: number, viewer?: IUser): Promise<Topic | null> {
+    if (!this.seesPublishedOnly(viewer)) {
+      return await this.repository.findById(id, version);
+    }
+
+    if (version === undefined) {
+      return await this.repository.findPublishedVersion(id);
+    }
+    const topic = await this.repository.findById(id, version);
+    return topic && topic.wasPublished() ? topic : null;
   }
 
   /**
-   * Finds all topics
+   * Finds a topic by its current or a former slug, as the viewer may see it when one is given
    */
-  async findAll(): Promise<Topic[]> {
-    return await this.repository.findAll();
+  async findBySlug(slug: string, version?: number, viewer?: IUser): Promise<Topic | null> {
+    const topic = await this.repository.findBySlug(slug);
+    return topic ? await this.findById(topic.id, version, viewer) : null;
   }
 
   /**
-   * Deletes a topic and all its versions
+   * Finds all topics, limited to those the viewer can read when one is given
    */
-  async delete(id: string): Promise<boolean> {
-    const topic = await this.repository.findById(id);
-    if (!topic) {
-      return false;
-    }
+  async findAll(viewer?: IUser): Promise<Topic[]> {
+    return await this.filterReadable(await this.findVisibleTopics(viewer), viewer);
+  }
+
+  /**
+   * Moves a topic with all its versions to the trash, handling its subtopics and resources by policy
+   *
+   * Subtopics and resources are never left pointing at a trashed topic: the default policy
+   * rejects deleting a topic that has any, cascading trashes them along with it, and
+   * re-parenting hands them to the topic's parent (children get a new version for the move).
+   * When a viewer is given, cascading requires write access on every subtopic it trashes.
+   */
+  async delete(
+    id: string,
+    expectedVersions?: number[],
+    policy: TopicDeletePolicy = TopicDeletePolicy.REJECT,
+    userId?: string,
+    viewer?: IUser
+  ): Promise<TrashEntry | null> {
+    // One unit of work, so no subtopic can be moved in or out while the deletion is planned
+    return await UnitOfWork.run(async () => {
+      const topic = await this.repository.findById(id);
+      if (!topic) {
+        return null;
+      }
+      this.assertExpectedVersion(topic, expectedVersions);
+
+      const children = await this.repository.findByParentId(id);
+      const resources = await this.resourceRepository.findByTopicId(id);
+
+      if (policy === TopicDeletePolicy.CASCADE) {
+        const topicIds = [id, ...(await this.collectDescendantIds(id))];
+        if (viewer) {
+          const cache: TopicAclCache = new Map();
+          for (const descendantId of topicIds.slice(1)) {
+            const descendant = await this.repository.findById(descendantId);
+            if (descendant && !(await this.accessService.canAccess(viewer, descendant, TopicAccessLevel.WRITE, cache))) {
+              throw new ForbiddenError(`Access level ${TopicAccessLevel.WRITE} is required on topic ${descendantId}`);
+            }
+          }
+        }
 
-    // Delete all versions of this topic
-    const versions = await this.repository.findVersions(topic.name);
-    let deletedCount = 0;
+        const resourceIds: string[] = [];
+        for (const topicId of topicIds) {
+          resourceIds.push(...(await this.resourceRepository.findByTopicId(topicId)).map(resource => resource.id));
+        }
 
-    for (const version of versions) {
-      const deleted = await this.repository.delete(version.id);
-      if (deleted) {
-        deletedCount++;
+        const entry = new TrashEntry(id, topic.name, topic.parentTopicId, topicIds, resourceIds, policy);
+        entry.setCreatedBy(userId);
+        return await this.trashRepository.save(entry);
+      }
+
+      if (policy === TopicDeletePolicy.REPARENT) {
+        if (resources.length > 0 && !topic.parentTopicId) {
+          throw new ConflictError(`Topic ${id} is a root topic, so its resources have no parent to move to`);
+        }
+
+        const reparented = children.map(child => {
+          const newVersion = child.createNewVersion();
+          newVersion.parentTopicId = topic.parentTopicId;
+          newVersion.setUpdatedBy(userId);
+          newVersion.setChangeMessage(`Moved up when parent ${topic.name} was deleted`);
+          return newVersion;
+        });
+        const moved = resources.map(resource => {
+          const movedResource = resource.clone();
+          movedResource.update({ topicId: topic.parentTopicId });
+          movedResource.setUpdatedBy(userId);
+          return movedResource;
+        });
+
+        const entry = new TrashEntry(id, topic.name, topic.parentTopicId, [id], [], policy);
+        entry.setCreatedBy(userId);
+        return await this.trashRepository.save(entry, reparented, moved);
+      }
+
+      if (children.length > 0 || resources.length > 0) {
+        throw new ConflictError(`Topic ${id} has subtopics or resources; delete it with the cascade or reparent policy`);
       }
-    }
 
-    return deletedCount > 0;
+      const entry = new TrashEntry(id, topic.name, topic.parentTopicId, [id], [], policy);
+      entry.setCreatedBy(userId);
+      return await this.trashRepository.save(entry);
+    });
   }
 
   /**
-   * Gets all versions of a topic
+   * Gets all versions of a topic the viewer may see
    */
-  async getVersions(id: string): Promise<Topic[]> {
-    // First find the topic by name to get its ID
+  async getVersions(id: string, viewer?: IUser): Promise<Topic[]> {
     const topic = await this.repository.findById(id);
     if (!topic) {
       return [];
     }
-    // Use the first matching topic's ID to get all versions
-    return await this.repository.findVersions(topic.id);
+    return this.filterVisibleVersions(await this.repository.findVersions(topic.id), viewer);
   }
 
   /**
-   * Gets a specific version of a topic
+   * Gets a specific version of a topic, if the viewer may see it
    */
-  async getVersion(id: string, version: number): Promise<Topic | null> {
-    // First find the topic by name to get its ID
+  async getVersion(id: string, version: number, viewer?: IUser): Promise<Topic | null> {
     const topic = await this.repository.findById(id);
     if (!topic) {
       return null;
     }
-    // Get all versions and find the specific version
-    const versions = await this.repository.findVersions(topic.id);
+    // Look among the visible versions only, so a viewer cannot fetch an unpublished one
+    const versions = this.filterVisibleVersions(await this.repository.findVersions(topic.id), viewer);
     return versions.find(t => t.version === version) || null;
   }
 
+  /**
+   * Restores a historical version of a topic as a new version
+   */
+  async restoreVersion(id: string, version: number, viewer?: IUser): Promise<Topic> {
+    const currentTopic = await this.repository.findById(id);
+    if (!currentTopic) {
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+
+    const versions = await this.repository.findVersions(id);
+    const target = versions.find(topic => topic.version === version);
+    if (!target) {
+      throw new NotFoundError(`Topic version ${version}`);
+    }
+
+    const parentTopicId = target.parentTopicId;
+    if (parentTopicId && parentTopicId !== currentTopic.parentTopicId) {
+      const parent = await this.repository.findById(parentTopicId);
+      if (!parent) {
+        throw new ValidationError(`Parent topic ${parentTopicId} of version ${version} no longer exists`);
+      }
+      if (await this.wouldCreateCircularReference(id, parentTopicId)) {
+        throw new ConflictError(`Restoring version ${version} would create a circular reference`);
+      }
+      if (viewer && !(await this.accessService.canAccess(viewer, parent, TopicAccessLevel.WRITE))) {
+        throw new ForbiddenError(`Access level ${TopicAccessLevel.WRITE} is required on topic ${parentTopicId}`);
+      }
+    }
+
+    const newVersion = currentTopic.createNewVersion();
+    newVersion.name = target.name;
+    newVersion.slug = target.slug;
+    newVersion.content = target.content;
+    newVersion.parentTopicId = parentTopicId;
+    newVersion.setChangeMessage(`Restored version ${version}`);
+    newVersion.setUpdatedBy(viewer?.id);
+
+    return await this.repository.save(newVersion, currentTopic.version);
+  }
+
+  /**
+   * Compares two versions of a topic field by field and line by line
+   */
+  async diffVersions(id: string, fromVersion: number, toVersion: number, viewer?: IUser): Promise<ITopicVersionDiff> {
+    const [from, to] = await this.findVersionPair(id, fromVersion, toVersion, viewer);
+
+    const fields: ITopicFieldChange[] = [];
+    for (const field of ['name', 'slug', 'parentTopicId'] as const) {
+      const before = from[field] ?? null;
+      const after = to[field] ?? null;
+      if (before !== after) {
+        fields.push({ field, from: before, to: after });
+      }
+    }
+
+    const lines = this.diffAlgorithm.diffLines(from.content, to.content);
+    return {
+      topicId: id,
+      fromVersion,
+      toVersion,
+      fields,
+      content: { lines, stats: this.diffAlgorithm.getStats(lines) }
+    };
+  }
+
+  /**
+   * Renders the content changes between two versions of a topic as a unified diff
+   */
+  async diffVersionsUnified(id: string, fromVersion: number, toVersion: number, viewer?: IUser): Promise<string> {
+    const [from, to] = await this.findVersionPair(id, fromVersion, toVersion, viewer);
+    return this.diffAlgorithm.toUnified(from.content, to.content, `${id}@v${fromVersion}`, `${id}@v${toVersion}`);
+  }
+
   /**
    * Gets the latest version of a topic
    */
-  async getLatestVersion(topicName: string): Promise<Topic | null> {
-    const versions = await this.repository.findVersions(topicName);
-    return versions.length > 0 ? versions[versions.length - 1] : null;
+  async getLatestVersion(id: string): Promise<Topic | null> {
+    return await this.repository.findById(id);
   }
 
   /**
-   * Gets topic tree structure recursively
+   * Gets topic tree structure recursively, pruning subtrees the viewer cannot read
    */
-  async getTopicTree(id: string): Promise<ITopicTree> {
-    const rootTopic = await this.repository.findById(id);
+  async getTopicTree(id: string, viewer?: IUser): Promise<ITopicTree> {
+    const rootTopic = await this.findById(id, undefined, viewer);
     if (!rootTopic) {
       throw new Error(`Topic with id ${id} not found`);
     }
 
-    return await this.buildTopicTree(rootTopic);
+    return await this.buildTopicTree(rootTopic, viewer, new Map());
   }
 
   /**
    * Builds a topic tree recursively
    */
-  private async buildTopicTree(topic: Topic): Promise<ITopicTree> {
-    const children = await this.repository.findByParentId(topic.id);
+  private async buildTopicTree(topic: Topic, viewer: IUser | undefined, cache: TopicAclCache): Promise<ITopicTree> {
+    const children = await this.filterReadable(await this.findVisibleChildren(topic.id, viewer), viewer, cache);
     const childTrees: ITopicTree[] = [];
 
     for (const child of children) {
-      const childTree = await this.buildTopicTree(child);
+      const childTree = await this.buildTopicTree(child, viewer, cache);
       childTrees.push(childTree);
     }
 
@@ -166,6 +369,17 @@ export class TopicService implements ITopicService {
     return depth;
   }
 
+  /**
+   * Collects the ids of all descendants of a topic, parents before their children
+   */
+  private async collectDescendantIds(topicId: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (const child of await this.repository.findByParentId(topicId)) {
+      ids.push(child.id, ...(await this.collectDescendantIds(child.id)));
+    }
+    return ids;
+  }
+
   /**
    * Counts all descendants of a topic recursively
    */
@@ -181,10 +395,16 @@ export class TopicService implements ITopicService {
   }
 
   /**
-   * Finds the shortest path between two topics
+   * Finds the shortest path between two topics, only through topics the viewer can read
    */
-  async findShortestPath(fromTopicId: string, toTopicId: string): Promise<Topic[]> {
-    return await this.pathAlgorithm.findShortestPath(fromTopicId, toTopicId);
+  async findShortestPath(fromTopicId: string, toTopicId: string, viewer?: IUser): Promise<Topic[]> {
+    let visibleIds: Set<string> | undefined;
+    if (viewer) {
+      const readable = await this.findAll(viewer);
+      visibleIds = new Set(readable.map(topic => topic.id));
+    }
+
+    return await this.pathAlgorithm.findShortestPath(fromTopicId, toTopicId, visibleIds);
   }
 
   /**
@@ -204,7 +424,15 @@ export class TopicService implements ITopicService {
   /**
    * Searches topics by keyword in both name and content
    */
-  async searchTopics(query: string): Promise<Topic[]> {
+  async searchTopics(query: string, viewer?: IUser): Promise<Topic[]> {
+    if (this.seesPublishedOnly(viewer)) {
+      const searchQuery = query.toLowerCase();
+      const matches = (await this.findVisibleTopics(viewer)).filter(topic =>
+        topic.name.toLowerCase().includes(searchQuery) || topic.content.toLowerCase().includes(searchQuery)
+      );
+      return await this.filterReadable(matches, viewer);
+    }
+
     const nameResults = await this.searchByName(query);
     const contentResults = await this.searchByContent(query);
     
@@ -214,42 +442,345 @@ export class TopicService implements ITopicService {
       index === self.findIndex(t => t.id === topic.id)
     );
     
-    return uniqueResults;
+    return await this.filterReadable(uniqueResults, viewer);
   }
 
   /**
    * Gets all child topics of a parent
    */
-  async getChildren(parentId: string): Promise<Topic[]> {
-    return await this.repository.findByParentId(parentId);
+  async getChildren(parentId: string, viewer?: IUser): Promise<Topic[]> {
+    return await this.filterReadable(await this.findVisibleChildren(parentId, viewer), viewer);
   }
 
   /**
    * Gets all root topics (topics without parents)
    */
-  async getRootTopics(): Promise<Topic[]> {
-    return await this.repository.findRootTopics();
+  async getRootTopics(viewer?: IUser): Promise<Topic[]> {
+    if (this.seesPublishedOnly(viewer)) {
+      const roots = (await this.findVisibleTopics(viewer)).filter(topic => !topic.parentTopicId);
+      return await this.filterReadable(roots, viewer);
+    }
+    return await this.filterReadable(await this.repository.findRootTopics(), viewer);
   }
 
   /**
-   * Moves a topic to a new parent
+   * Gets the access control entries of a topic and the list in effect for it
    */
-  async moveTopic(topicId: string, newParentId: string | null): Promise<Topic> {
-    const topic = await this.repository.findById(topicId);
+  async getAccessControl(id: string): Promise<{ entries: ITopicAclEntry[]; effective: IEffectiveTopicAcl | null }> {
+    const topic = await this.repository.findById(id);
     if (!topic) {
-      throw new Error(`Topic with id ${topicId} not found`);
+      throw new NotFoundError(`Topic with id ${id}`);
     }
 
-    // Validate that we're not creating a circular reference
-    if (newParentId && await this.wouldCreateCircularReference(topicId, newParentId)) {
-      throw new Error('Moving topic would create a circular reference');
+    return {
+      entries: await this.accessService.getOwnAcl(id),
+      effective: await this.accessService.getEffectiveAcl(id)
+    };
+  }
+
+  /**
+   * Replaces the access control entries of a topic
+   */
+  async setAccessControl(id: string, entries: ITopicAclEntry[]): Promise<{ entries: ITopicAclEntry[]; effective: IEffectiveTopicAcl | null }> {
+    const topic = await this.repository.findById(id);
+    if (!topic) {
+      throw new NotFoundError(`Topic with id ${id}`);
     }
 
-    // Create new version with updated parent
-    const newVersion = topic.createNewVersion();
-    newVersion.parentTopicId = newParentId || undefined;
+    await this.accessService.setOwnAcl(id, entries);
+    return await this.getAccessControl(id);
+  }
+
+  /**
+   * Submits the latest version of a topic for review
+   */
+  async submitForReview(id: string): Promise<Topic> {
+    const topic = (await this.findLatestInStatus(id, TopicStatus.DRAFT, 'submitted for review')).clone();
+    topic.submitForReview();
+    return await this.repository.save(topic, topic.version);
+  }
+
+  /**
+   * Approves the latest version of a topic, publishing it in place of the published version
+   */
+  async approve(id: string, reviewerId?: string, comment?: string): Promise<Topic> {
+    const topic = await this.findLatestInStatus(id, TopicStatus.IN_REVIEW, 'approved');
+    return await this.promote(topic, reviewerId, comment);
+  }
+
+  /**
+   * Publishes a specific version of a topic in place of the published version, whatever its status
+   */
+  async publishVersion(id: string, version: number, reviewerId?: string, comment?: string): Promise<Topic> {
+    const topic = await this.findExistingVersion(id, version);
+    if (topic.isPublished()) {
+      return topic;
+    }
+    return await this.promote(topic, reviewerId, comment);
+  }
+
+  /**
+   * Archives a version of a topic once its content expires, provided it is still the published one
+   */
+  async expireVersion(id: string, version: number): Promise<Topic> {
+    const topic = await this.findExistingVersion(id, version);
+    if (!topic.isPublished()) {
+      throw new ConflictError(`Version ${version} is ${topic.status} and cannot be expired`);
+    }
+
+    const archived = topic.clone();
+    archived.archive();
+    return await this.repository.save(archived);
+  }
+
+  /**
+   * Records when a version of a topic expires, or clears it
+   */
+  async setVersionExpiry(id: string, version: number, expiresAt?: Date): Promise<Topic> {
+    const topic = (await this.findExistingVersion(id, version)).clone();
+    topic.expiresAt = expiresAt;
+    return await this.repository.save(topic);
+  }
 
-    return await this.repository.save(newVersion);
+  /**
+   * Rejects the latest version of a topic, sending it back to draft with the reviewer's comment
+   */
+  async reject(id: string, reviewerId: string | undefined, comment: string): Promise<Topic> {
+    if (!comment || comment.trim().length === 0) {
+      throw new ValidationError('A comment is required to reject a version');
+    }
+
+    const topic = (await this.findLatestInStatus(id, TopicStatus.IN_REVIEW, 'rejected')).clone();
+    topic.reject(reviewerId, comment);
+    return await this.repository.save(topic, topic.version);
+  }
+
+  /**
+   * Archives the published version of a topic, withdrawing the topic from viewers
+   */
+  async archive(id: string): Promise<Topic> {
+    if (!(await this.repository.exists(id))) {
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+
+    const published = await this.repository.findPublishedVersion(id);
+    if (!published) {
+      throw new ConflictError(`Topic ${id} has no published version`);
+    }
+
+    const archived = published.clone();
+    archived.archive();
+    return await this.repository.save(archived);
+  }
+
+  /**
+   * Publishes a version, archiving the version that was published until now
+   *
+   * Both saves happen in one unit of work, on copies of the stored versions, so if publishing
+   * fails the previous version stays published.
+   */
+  private async promote(topic: Topic, reviewerId?: string, comment?: string): Promise<Topic> {
+    return await UnitOfWork.run(async () => {
+      const previous = await this.repository.findPublishedVersion(topic.id);
+      if (previous) {
+        const archived = previous.clone();
+        archived.archive();
+        await this.repository.save(archived);
+      }
+
+      const approved = topic.clone();
+      approved.approve(reviewerId, comment);
+      return await this.repository.save(approved);
+    });
+  }
+
+  /**
+   * Finds a version of a topic, throwing if the topic or the version does not exist
+   */
+  private async findExistingVersion(id: string, version: number): Promise<Topic> {
+    if (!(await this.repository.exists(id))) {
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+
+    const topic = await this.repository.findById(id, version);
+    if (!topic) {
+      throw new NotFoundError(`Topic version ${version}`);
+    }
+    return topic;
+  }
+
+  /**
+   * Finds the latest version of a topic, throwing unless it is in the status a transition requires
+   */
+  private async findLatestInStatus(id: string, status: TopicStatus, transition: string): Promise<Topic> {
+    const topic = await this.repository.findById(id);
+    if (!topic) {
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+    if (topic.status !== status) {
+      throw new ConflictError(`Version ${topic.version} is ${topic.status} and cannot be ${transition}`);
+    }
+    return topic;
+  }
+
+  /**
+   * Checks if a viewer only sees published versions (users who can write topics also see drafts)
+   */
+  private seesPublishedOnly(viewer?: IUser): boolean {
+    return viewer !== undefined && !this.permissionService.canWrite(viewer, 'topic');
+  }
+
+  /**
+   * Gets every topic in the version the viewer sees: the latest, or the published one
+   */
+  private async findVisibleTopics(viewer?: IUser): Promise<Topic[]> {
+    const topics = await this.repository.findAll();
+    if (!this.seesPublishedOnly(viewer)) {
+      return topics;
+    }
+
+    const published: Topic[] = [];
+    for (const topic of topics) {
+      const version = topic.isPublished() ? topic : await this.repository.findPublishedVersion(topic.id);
+      if (version) {
+        published.push(version);
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Gets the children of a topic in the versions the viewer sees
+   */
+  private async findVisibleChildren(parentId: string, viewer?: IUser): Promise<Topic[]> {
+    if (!this.seesPublishedOnly(viewer)) {
+      return await this.repository.findByParentId(parentId);
+    }
+    return (await this.findVisibleTopics(viewer)).filter(topic => topic.parentTopicId === parentId);
+  }
+
+  /**
+   * Filters versions down to those the viewer may see (viewers only see published ones)
+   */
+  private filterVisibleVersions(versions: Topic[], viewer?: IUser): Topic[] {
+    if (!this.seesPublishedOnly(viewer)) {
+      return versions;
+    }
+    return versions.filter(topic => topic.wasPublished());
+  }
+
+  /**
+   * Filters topics down to those the viewer can read (no viewer means no filtering)
+   */
+  private async filterReadable(topics: Topic[], viewer?: IUser, cache?: TopicAclCache): Promise<Topic[]> {
+    if (!viewer) {
+      return topics;
+    }
+    return await this.accessService.filterReadable(viewer, topics, cache);
+  }
+
+  /**
+   * Moves a topic to a new parent, optionally only if it is still at one of the expected versions
+   */
+  async moveTopic(topicId: string, newParentId: string | null, userId?: string, expectedVersions?: number[]): Promise<Topic> {
+    // One unit of work, so two concurrent moves cannot both pass the circular reference check
+    return await UnitOfWork.run(async () => {
+      const topic = await this.repository.findById(topicId);
+      if (!topic) {
+        throw new NotFoundError(`Topic with id ${topicId}`);
+      }
+      this.assertExpectedVersion(topic, expectedVersions);
+
+      // Validate that we're not creating a circular reference
+      if (newParentId && await this.wouldCreateCircularReference(topicId, newParentId)) {
+        throw new Error('Moving topic would create a circular reference');
+      }
+
+      // Create new version with updated parent
+      const newVersion = topic.createNewVersion();
+      newVersion.parentTopicId = newParentId || undefined;
+      newVersion.setUpdatedBy(userId);
+
+      return await this.repository.save(newVersion, topic.version);
+    });
+  }
+
+  /**
+   * Three-way merges an edit built on an older version into the latest version
+   *
+   * Fields and content lines the edit left as they were in the base keep their latest value.
+   * Throws a MergeConflictError when both changed the same field or lines differently.
+   */
+  private async mergeConcurrentEdit(head: Topic, baseVersion: number, data: Partial<Topic>): Promise<Partial<Topic>> {
+    const versions = await this.repository.findVersions(head.id);
+    const base = baseVersion < head.version ? versions.find(topic => topic.version === baseVersion) : undefined;
+    if (!base) {
+      throw new VersionConflictError(head.version);
+    }
+
+    const merged: Partial<Topic> = { ...data };
+    const fields: ITopicFieldConflict[] = [];
+    for (const field of ['name', 'slug', 'parentTopicId'] as const) {
+      if (data[field] === undefined) {
+        continue;
+      }
+
+      const baseValue = base[field] || null;
+      const currentValue = head[field] || null;
+      const incomingValue = data[field] || null;
+      if (incomingValue === baseValue) {
+        delete merged[field];
+      } else if (currentValue !== baseValue && currentValue !== incomingValue) {
+        fields.push({ field, base: baseValue, current: currentValue, incoming: incomingValue });
+      }
+    }
+
+    let content: MergeResult | undefined;
+    if (data.content !== undefined) {
+      content = this.diffAlgorithm.merge(base.content, head.content, data.content, `version ${head.version}`, 'incoming');
+      merged.content = content.text;
+    }
+
+    if (fields.length > 0 || (content && !content.clean)) {
+      throw new MergeConflictError({
+        baseVersion,
+        currentVersion: head.version,
+        fields,
+        content: content && !content.clean ? content.text : undefined,
+        hunks: content ? content.conflicts : []
+      });
+    }
+
+    return merged;
+  }
+
+  /**
+   * Throws if expected versions are given and the topic is at none of them
+   */
+  private assertExpectedVersion(topic: Topic, expectedVersions?: number[]): void {
+    if (expectedVersions && !expectedVersions.includes(topic.version)) {
+      throw new VersionConflictError(topic.version);
+    }
+  }
+
+  /**
+   * Loads two versions of a topic, throwing if either does not exist
+   */
+  private async findVersionPair(id: string, fromVersion: number, toVersion: number, viewer?: IUser): Promise<[Topic, Topic]> {
+    const versions = this.filterVisibleVersions(await this.repository.findVersions(id), viewer);
+    if (versions.length === 0) {
+      throw new NotFoundError(`Topic with id ${id}`);
+    }
+
+    const from = versions.find(topic => topic.version === fromVersion);
+    const to = versions.find(topic => topic.version === toVersion);
+    if (!from) {
+      throw new NotFoundError(`Topic version ${fromVersion}`);
+    }
+    if (!to) {
+      throw new NotFoundError(`Topic version ${toVersion}`);
+    }
+    return [from, to];
   }
 
   /**
@@ -0,0 +1,102 @@
+import { Topic } from '../models/Topic';
+import { TrashEntry } from '../models/TrashEntry';
+import { TrashRepository } from '../database/TrashRepository';
+import { TopicRepository } from '../database/TopicRepository';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { TopicService } from './TopicService';
+import { ConflictError, NotFoundError } from '../types/errors';
+
+/**
+ * Service implementation for restoring and purging deleted topics
+ */
+export class TrashService {
+  private repository: TrashRepository;
+  private topicRepository: TopicRepository;
+  private topicService: TopicService;
+
+  constructor() {
+    this.repository = new TrashRepository();
+    this.topicRepository = new TopicRepository();
+    this.topicService = new TopicService();
+  }
+
+  /**
+   * Finds all trash entries, most recently deleted first
+   */
+  async findAll(): Promise<TrashEntry[]> {
+    return await this.repository.findAll();
+  }
+
+  /**
+   * Finds the trash entry of a deleted topic
+   */
+  async findById(id: string): Promise<TrashEntry | null> {
+    return await this.repository.findById(id);
+  }
+
+  /**
+   * Restores a deleted topic with the subtopics and resources trashed along with it
+   *
+   * The topic goes back under its old parent unless another parent (or `null` for the root) is
+   * given, in which case it is moved there as a new version.
+   */
+  async restore(id: string, parentTopicId?: string | null, userId?: string): Promise<Topic> {
+    // One unit of work, so a failed move leaves the topic in the trash
+    return await UnitOfWork.run(async () => {
+      const entry = await this.repository.findById(id);
+      if (!entry) {
+        throw new NotFoundError(`Trash entry for topic ${id}`);
+      }
+
+      const targetParentId = parentTopicId === undefined ? entry.parentTopicId : parentTopicId || undefined;
+      if (targetParentId && !(await this.topicRepository.exists(targetParentId))) {
+        if (await this.repository.findTopic(targetParentId)) {
+          throw new ConflictError(`Parent topic ${targetParentId} is in the trash; restore it first or choose another parent`);
+        }
+        if (parentTopicId !== undefined) {
+          throw new NotFoundError(`Parent topic ${targetParentId}`);
+        }
+        throw new ConflictError(`Parent topic ${targetParentId} no longer exists; choose another parent`);
+      }
+
+      await this.repository.restore(id);
+
+      if (targetParentId !== entry.parentTopicId) {
+        return await this.topicService.moveTopic(id, targetParentId || null, userId);
+      }
+
+      const topic = await this.topicRepository.findById(id);
+      if (!topic) {
+        throw new NotFoundError(`Topic with id ${id}`);
+      }
+      return topic;
+    });
+  }
+
+  /**
+   * Permanently removes a deleted topic with everything trashed along with it
+   */
+  async purge(id: string): Promise<TrashEntry> {
+    const entry = await this.repository.findById(id);
+    if (!entry) {
+      throw new NotFoundError(`Trash entry for topic ${id}`);
+    }
+
+    await this.repository.purge(id);
+    return entry;
+  }
+
+  /**
+   * Permanently removes everything in the trash in one unit of work, returning the number of
+   * entries removed
+   */
+  async empty(): Promise<number> {
+    return await UnitOfWork.run(async () => {
+      const entries = await this.repository.findAll();
+      for (const entry of entries) {
+        await this.repository.purge(entry.id);
+      }
+      return entries.length;
+    });
+  }
+}
\ No newline at end of file
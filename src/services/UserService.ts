@@ -1,28 +1,36 @@
 import { IUserService } from '../interfaces/IUser';
 import { User } from '../models/User';
 import { UserRepository } from '../database/UserRepository';
+import { GroupRepository } from '../database/GroupRepository';
 import { StandardEntityFactory } from '../utils/EntityFactory';
 import { PermissionService } from './PermissionService';
-import { ConflictError } from '../types/errors';
+import { TokenService, TokenPair } from './TokenService';
+import { PasswordHasher } from '../utils/PasswordHasher';
+import { UnitOfWork } from '../database/UnitOfWork';
+import { BulkOperationError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../types/errors';
 
 /**
  * Service implementation for User business logic
  */
 export class UserService implements IUserService {
   private repository: UserRepository;
+  private groupRepository: GroupRepository;
   private factory: StandardEntityFactory;
   private permissionService: PermissionService;
+  private tokenService: TokenService;
 
   constructor() {
     this.repository = new UserRepository();
+    this.groupRepository = new GroupRepository();
     this.factory = new StandardEntityFactory();
     this.permissionService = new PermissionService();
+    this.tokenService = TokenService.getInstance();
   }
 
   /**
-   * Creates a new user
+   * Creates a new user, hashing the password if one is supplied
    */
-  async create(data: Partial<User>): Promise<User> {
+  async create(data: Partial<User> & { password?: string }, userId?: string): Promise<User> {
     // Check for duplicate email
     if (data.email) {
       const existingUser = await this.repository.findByEmail(data.email);
@@ -32,13 +40,18 @@ export class UserService implements IUserService {
     }
     
     const user = this.factory.createUser(data);
+    user.setCreatedBy(userId);
+    if (data.password !== undefined) {
+      this.assertValidPassword(data.password);
+      await user.setPassword(data.password);
+    }
     return await this.repository.save(user);
   }
 
   /**
    * Updates an existing user
    */
-  async update(id: string, data: Partial<User>): Promise<User> {
+  async update(id: string, data: Partial<User>, userId?: string): Promise<User> {
     const existingUser = await this.repository.findById(id);
     if (!existingUser) {
       throw new Error(`User with id ${id} not found`);
@@ -50,6 +63,7 @@ export class UserService implements IUserService {
       email: data.email,
       role: data.role
     });
+    existingUser.setUpdatedBy(userId);
 
     return await this.repository.save(existingUser);
   }
@@ -69,31 +83,31 @@ export class UserService implements IUserService {
   }
 
   /**
-   * Finds all users
+   * Finds all users, leaving out deactivated ones unless asked for
    */
-  async findAll(): Promise<User[]> {
-    return await this.repository.findAll();
+  async findAll(includeInactive: boolean = false): Promise<User[]> {
+    return this.filterActive(await this.repository.findAll(), includeInactive);
   }
 
   /**
-   * Deletes a user
+   * Deletes a user, which also removes them from their groups
    */
   async delete(id: string): Promise<boolean> {
     return await this.repository.delete(id);
   }
 
   /**
-   * Finds users by role
+   * Finds users by role, leaving out deactivated ones unless asked for
    */
-  async findByRole(role: string): Promise<User[]> {
-    return await this.repository.findByRole(role);
+  async findByRole(role: string, includeInactive: boolean = false): Promise<User[]> {
+    return this.filterActive(await this.repository.findByRole(role), includeInactive);
   }
 
   /**
-   * Searches users by name
+   * Searches users by name, leaving out deactivated ones unless asked for
    */
-  async searchByName(query: string): Promise<User[]> {
-    return await this.repository.findByName(query);
+  async searchByName(query: string, includeInactive: boolean = false): Promise<User[]> {
+    return this.filterActive(await this.repository.findByName(query), includeInactive);
   }
 
   /**
@@ -105,10 +119,121 @@ export class UserService implements IUserService {
   }
 
   /**
-   * Authenticates a user (simplified for demo)
+   * Authenticates a user by email and password
    */
-  async authenticate(email: string): Promise<User | null> {
-    return await this.repository.findByEmail(email);
+  async authenticate(email: string, password: string): Promise<User | null> {
+    const user = await this.repository.findByEmail(email);
+    if (!user) {
+      return null;
+    }
+
+    const isValid = await user.verifyPassword(password);
+    if (!isValid) {
+      return null;
+    }
+
+    this.assertActive(user);
+    return user;
+  }
+
+  /**
+   * Issues a new session (access and refresh tokens) for an authenticated user
+   */
+  async createSession(user: User): Promise<TokenPair> {
+    return this.tokenService.issueTokenPair(user);
+  }
+
+  /**
+   * Exchanges a refresh token for a new session, revoking the old refresh token
+   */
+  async refreshSession(refreshToken: string): Promise<{ user: User; tokens: TokenPair }> {
+    const payload = this.tokenService.verifyRefreshToken(refreshToken);
+    const user = await this.repository.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedError('User no longer exists');
+    }
+    this.assertActive(user);
+
+    this.tokenService.revoke(payload);
+    return { user, tokens: this.tokenService.issueTokenPair(user) };
+  }
+
+  /**
+   * Revokes a refresh token, ending the session
+   */
+  async revokeSession(refreshToken: string): Promise<void> {
+    const payload = this.tokenService.verifyRefreshToken(refreshToken);
+    this.tokenService.revoke(payload);
+  }
+
+  /**
+   * Resolves the user owning a valid access token
+   */
+  async findByAccessToken(accessToken: string): Promise<User> {
+    const payload = this.tokenService.verifyAccessToken(accessToken);
+    const user = await this.repository.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedError('User no longer exists');
+    }
+    this.assertActive(user);
+    return user;
+  }
+
+  /**
+   * Changes a user's password, verifying the current one if set
+   */
+  async changePassword(userId: string, newPassword: string, currentPassword?: string): Promise<User> {
+    const user = await this.repository.findById(userId);
+    if (!user) {
+      throw new NotFoundError(`User with id ${userId}`);
+    }
+
+    if (user.hasPassword()) {
+      const isValid = currentPassword !== undefined && await user.verifyPassword(currentPassword);
+      if (!isValid) {
+        throw new UnauthorizedError('Current password is incorrect');
+      }
+    }
+
+    this.assertValidPassword(newPassword);
+    await user.setPassword(newPassword);
+    return await this.repository.save(user);
+  }
+
+  /**
+   * Sets a user's password without verifying the current one (administrative reset)
+   *
+   * Only admins may reset another user's password; user managers could otherwise take over
+   * accounts more privileged than their own.
+   */
+  async resetPassword(userId: string, newPassword: string, requestingUserId: string): Promise<User> {
+    const requestingUser = await this.repository.findById(requestingUserId);
+    if (!requestingUser) {
+      throw new Error('Requesting user not found');
+    }
+
+    if (!requestingUser.isAdmin()) {
+      throw new ForbiddenError('Only admins can reset another user\'s password');
+    }
+
+    const user = await this.repository.findById(userId);
+    if (!user) {
+      throw new NotFoundError(`User with id ${userId}`);
+    }
+
+    this.assertValidPassword(newPassword);
+    await user.setPassword(newPassword);
+    return await this.repository.save(user);
+  }
+
+  /**
+   * Throws a ValidationError if the password does not meet the policy
+   */
+  private assertValidPassword(password: string): void {
+    const errors = PasswordHasher.getValidationErrors(password);
+    if (errors.length > 0) {
+      throw new ValidationError(`Password validation failed: ${errors.join(', ')}`);
+    }
   }
 
   /**
@@ -122,15 +247,17 @@ export class UserService implements IUserService {
 
     // Check if requesting user has permission to manage users
     if (!this.permissionService.canManageUsers(requestingUser)) {
-      throw new Error('Insufficient permissions to change user roles');
+      throw new ForbiddenError('Insufficient permissions to change user roles');
     }
 
-    const updatedUser = await this.repository.updateRole(userId, newRole);
-    if (!updatedUser) {
+    const user = await this.repository.findById(userId);
+    if (!user) {
       throw new Error(`User with id ${userId} not found`);
     }
 
-    return updatedUser;
+    user.update({ role: newRole });
+    user.setUpdatedBy(requestingUserId);
+    return await this.repository.save(user);
   }
 
   /**
@@ -164,8 +291,8 @@ export class UserService implements IUserService {
   /**
    * Gets recently created users
    */
-  async getRecentUsers(days: number = 7): Promise<User[]> {
-    return await this.repository.findRecentUsers(days);
+  async getRecentUsers(days: number = 7, includeInactive: boolean = false): Promise<User[]> {
+    return this.filterActive(await this.repository.findRecentUsers(days), includeInactive);
   }
 
   /**
@@ -201,11 +328,36 @@ export class UserService implements IUserService {
         return this.permissionService.canDelete(user, resourceId || 'topic');
       case 'manage_users':
         return this.permissionService.canManageUsers(user);
+      case 'publish':
+        return this.permissionService.canPublish(user, resourceId || 'topic');
       default:
         return false;
     }
   }
 
+  /**
+   * Gets a user's effective permissions: the union of their role and group grants
+   */
+  async getEffectivePermissions(userId: string): Promise<{
+    userId: string;
+    role: string;
+    groups: { id: string; name: string }[];
+    permissions: Record<string, boolean>;
+  } | null> {
+    const user = await this.repository.findById(userId);
+    if (!user) {
+      return null;
+    }
+
+    const groups = await this.groupRepository.findByMember(userId);
+    return {
+      userId: user.id,
+      role: user.role,
+      groups: groups.map(group => ({ id: group.id, name: group.name })),
+      permissions: this.permissionService.getUserPermissions(user)
+    };
+  }
+
   /**
    * Gets user profile (safe version without sensitive data)
    */
@@ -220,13 +372,20 @@ export class UserService implements IUserService {
 
   /**
    * Bulk creates users
+   *
+   * Users that fail are skipped, unless the operation is atomic: then the first failure throws
+   * a BulkOperationError and none of the users are kept.
    */
-  async bulkCreate(usersData: Partial<User>[]): Promise<User[]> {
+  async bulkCreate(usersData: Partial<User>[], userId?: string, atomic: boolean = false): Promise<User[]> {
+    if (atomic) {
+      return await this.createAllOrNothing(usersData, userId);
+    }
+
     const createdUsers: User[] = [];
 
     for (const data of usersData) {
       try {
-        const user = await this.create(data);
+        const user = await this.create(data, userId);
         createdUsers.push(user);
       } catch (error) {
         console.error(`Failed to create user: ${error}`);
@@ -245,14 +404,18 @@ export class UserService implements IUserService {
   }
 
   /**
-   * Imports users from JSON data
+   * Imports users from JSON data, skipping those that fail unless the import is atomic
    */
-  async importUsers(usersData: any[]): Promise<User[]> {
+  async importUsers(usersData: any[], userId?: string, atomic: boolean = false): Promise<User[]> {
+    if (atomic) {
+      return await this.createAllOrNothing(usersData, userId);
+    }
+
     const importedUsers: User[] = [];
 
     for (const data of usersData) {
       try {
-        const user = await this.create(data);
+        const user = await this.create(data, userId);
         importedUsers.push(user);
       } catch (error) {
         console.error(`Failed to import user: ${error}`);
@@ -263,21 +426,90 @@ export class UserService implements IUserService {
   }
 
   /**
-   * Deactivates a user (soft delete)
+   * Deactivates a user (soft delete), keeping the topics and versions they authored attributed to them
    */
-  async deactivateUser(userId: string, requestingUserId: string): Promise<boolean> {
+  async deactivateUser(userId: string, requestingUserId: string, reason?: string): Promise<User> {
+    const user = await this.findManagedUser(userId, requestingUserId, 'deactivate');
+
+    if (user.id === requestingUserId) {
+      throw new ValidationError('Users cannot deactivate their own account');
+    }
+
+    if (!user.isActive()) {
+      throw new ConflictError('User is already deactivated');
+    }
+
+    user.deactivate(reason);
+    user.setUpdatedBy(requestingUserId);
+    return await this.repository.save(user);
+  }
+
+  /**
+   * Reactivates a deactivated user
+   */
+  async reactivateUser(userId: string, requestingUserId: string): Promise<User> {
+    const user = await this.findManagedUser(userId, requestingUserId, 'reactivate');
+
+    if (user.isActive()) {
+      throw new ConflictError('User is already active');
+    }
+
+    user.reactivate();
+    user.setUpdatedBy(requestingUserId);
+    return await this.repository.save(user);
+  }
+
+  /**
+   * Loads a user on behalf of a requester who must be allowed to manage users
+   */
+  private async findManagedUser(userId: string, requestingUserId: string, action: string): Promise<User> {
     const requestingUser = await this.repository.findById(requestingUserId);
     if (!requestingUser) {
       throw new Error('Requesting user not found');
     }
 
     if (!this.permissionService.canManageUsers(requestingUser)) {
-      throw new Error('Insufficient permissions to deactivate users');
+      throw new ForbiddenError(`Insufficient permissions to ${action} users`);
     }
 
-    // In a real implementation, this would set an 'active' flag to false
-    // For now, we'll just delete the user
-    return await this.repository.delete(userId);
+    const user = await this.repository.findById(userId);
+    if (!user) {
+      throw new NotFoundError(`User with id ${userId}`);
+    }
+    return user;
+  }
+
+  /**
+   * Throws if a user's account has been deactivated
+   */
+  private assertActive(user: User): void {
+    if (!user.isActive()) {
+      throw new UnauthorizedError('User account is deactivated');
+    }
+  }
+
+  /**
+   * Leaves out deactivated users unless asked to include them
+   */
+  private filterActive(users: User[], includeInactive: boolean): User[] {
+    return includeInactive ? users : users.filter(user => user.isActive());
+  }
+
+  /**
+   * Creates all users in one unit of work, keeping none if any fails
+   */
+  private async createAllOrNothing(usersData: (Partial<User> & { password?: string })[], userId?: string): Promise<User[]> {
+    return await UnitOfWork.run(async () => {
+      const createdUsers: User[] = [];
+      for (const [index, data] of usersData.entries()) {
+        try {
+          createdUsers.push(await this.create(data, userId));
+        } catch (error) {
+          throw new BulkOperationError(index, error instanceof Error ? error.message : String(error));
+        }
+      }
+      return createdUsers;
+    });
   }
 
   /**
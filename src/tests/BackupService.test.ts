@@ -0,0 +1,178 @@
+import { createHash } from 'crypto';
+import { BackupService } from '../services/BackupService';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { Topic } from '../models/Topic';
+import { TopicService } from '../services/TopicService';
+import { ResourceService } from '../services/ResourceService';
+import { UserService } from '../services/UserService';
+import { GroupService } from '../services/GroupService';
+import { RoleService } from '../services/RoleService';
+import { TopicAccessService } from '../services/TopicAccessService';
+import { ScheduleService } from '../services/ScheduleService';
+import { ResourceType } from '../interfaces/IResource';
+import { PrincipalType, TopicAccessLevel } from '../interfaces/ITopic';
+import { ScheduledActionType } from '../interfaces/IScheduledAction';
+import { UserRole } from '../interfaces/IUser';
+import { IBackupArchive } from '../interfaces/IBackup';
+import { MissingReferenceError, ValidationError } from '../types/errors';
+
+describe('BackupService', () => {
+  let backupService: BackupService;
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    backupService = new BackupService();
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  const seed = async () => {
+    const topicService = new TopicService();
+    const author = await new UserService().create({
+      name: 'Ada',
+      email: 'ada@example.com',
+      role: UserRole.EDITOR,
+      password: 'backup-password'
+    });
+    await new UserService().create({ name: 'Root', email: 'root@example.com', role: UserRole.ADMIN });
+
+    const topic = await topicService.create({ name: 'Versioned', content: 'v1' }, author.id);
+    await topicService.update(topic.id, { content: 'v2' }, author.id);
+    await topicService.submitForReview(topic.id);
+    await topicService.approve(topic.id);
+    await topicService.create({ name: 'Child', content: 'content', parentTopicId: topic.id });
+    await new ResourceService().create({
+      topicId: topic.id,
+      url: 'https://example.com',
+      description: 'Docs',
+      type: ResourceType.LINK
+    });
+
+    const group = await new GroupService().create({ name: 'Legal', memberIds: [author.id] });
+    await new RoleService().create({ name: 'Reviewer', permissions: { topic: ['read'] } });
+    await new TopicAccessService().setOwnAcl(topic.id, [
+      { principalType: PrincipalType.GROUP, principalId: group.id, level: TopicAccessLevel.WRITE }
+    ]);
+    await new ScheduleService().schedule(topic.id, {
+      action: ScheduledActionType.EXPIRE,
+      runAt: new Date(Date.now() + 60 * 60 * 1000)
+    });
+
+    const trashed = await topicService.create({ name: 'Trashed', content: 'content' });
+    await topicService.delete(trashed.id);
+
+    return { author, topic: database.findTopicById(topic.id)! };
+  };
+
+  const copy = (archive: IBackupArchive): IBackupArchive => JSON.parse(JSON.stringify(archive));
+
+  const sign = (archive: IBackupArchive): IBackupArchive => ({
+    ...archive,
+    checksum: createHash('sha256').update(JSON.stringify(archive.data)).digest('hex')
+  });
+
+  describe('createBackup', () => {
+    it('should describe its format, schema version and checksum', async () => {
+      await seed();
+
+      const archive = await backupService.createBackup();
+
+      expect(archive.format).toBe('knowledge-base-backup');
+      expect(archive.schemaVersion).toBe(1);
+      expect(archive.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(Object.keys(archive.data.topics)).toHaveLength(2);
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore every version, timestamp and relation exactly', async () => {
+      const { author, topic } = await seed();
+      const archive = JSON.parse(JSON.stringify(await backupService.createBackup()));
+
+      database.clear();
+      const report = await backupService.restore(archive);
+
+      const restored = await backupService.createBackup();
+      expect(restored.data).toEqual(archive.data);
+      expect(restored.checksum).toBe(archive.checksum);
+      expect(database.findTopicVersions(topic.id)).toHaveLength(topic.version);
+      expect(database.findTopicById(topic.id)?.createdAt).toEqual(topic.createdAt);
+      expect(database.findResourcesByTopicId(topic.id)).toHaveLength(1);
+      expect(await database.findUserById(author.id)?.verifyPassword('backup-password')).toBe(true);
+      expect(report.changes.topics.added).toHaveLength(2);
+      expect(report.changes.trash.added).toHaveLength(1);
+    });
+
+    it('should only report changes on a dry run', async () => {
+      const { topic } = await seed();
+      const archive = await backupService.createBackup();
+
+      const added = new Topic('Added later', 'content');
+      database.saveTopic(added);
+      database.saveTopic(topic.updateContent(undefined, 'v3'));
+      const before = await backupService.createBackup();
+
+      const report = await backupService.restore(archive, true);
+
+      expect(report.dryRun).toBe(true);
+      expect(report.changes.topics.removed).toEqual([added.id]);
+      expect(report.changes.topics.updated).toEqual([topic.id]);
+      expect(report.changes.topics.unchanged).toBe(1);
+      expect(report.changes.resources).toEqual({ added: [], updated: [], removed: [], unchanged: 1 });
+      expect((await backupService.createBackup()).data).toEqual(before.data);
+    });
+
+    it('should reject a backup whose data does not match its checksum', async () => {
+      await seed();
+      const archive = await backupService.createBackup();
+      archive.data.users[0].role = UserRole.ADMIN;
+
+      await expect(backupService.restore(archive)).rejects.toThrow('Backup checksum does not match its data');
+    });
+
+    it('should roll back a restore whose data references missing records', async () => {
+      const { topic } = await seed();
+      const archive = await backupService.createBackup();
+      const before = (await backupService.createBackup()).data;
+
+      const orphaned = copy(archive);
+      const child = Object.values(orphaned.data.topics as Record<string, { parentTopicId?: string }[]>)
+        .find(versions => versions[versions.length - 1].parentTopicId === topic.id)!;
+      child[child.length - 1].parentTopicId = 'missing-topic';
+
+      const homeless = copy(archive);
+      homeless.data.resources[0].topicId = 'missing-topic';
+
+      const haunted = copy(archive);
+      haunted.data.groups[0].memberIds = ['missing-user'];
+
+      for (const tampered of [orphaned, homeless, haunted]) {
+        await expect(backupService.restore(sign(tampered))).rejects.toThrow(MissingReferenceError);
+        expect((await backupService.createBackup()).data).toEqual(before);
+      }
+    });
+
+    it('should refuse a restore that leaves no active admin', async () => {
+      await seed();
+      const archive = copy(await backupService.createBackup());
+      const before = (await backupService.createBackup()).data;
+
+      archive.data.users = archive.data.users.filter((user: { role: string }) => user.role !== UserRole.ADMIN);
+
+      await expect(backupService.restore(sign(archive))).rejects.toThrow(ValidationError);
+      await expect(backupService.restore(sign(archive))).rejects.toThrow('no active admin');
+      expect((await backupService.createBackup()).data).toEqual(before);
+    });
+
+    it('should reject an unsupported schema version', async () => {
+      const archive = await backupService.createBackup();
+
+      await expect(backupService.restore({ ...archive, schemaVersion: 2 }))
+        .rejects.toThrow('Schema version 2 is not supported');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { DataSeeder } from '../utils/seedData';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { UserService } from '../services/UserService';
+
+describe('DataSeeder', () => {
+  const variables = ['NODE_ENV', 'SEED_ADMIN_PASSWORD', 'SEED_EDITOR_PASSWORD', 'SEED_VIEWER_PASSWORD'];
+  let saved: Record<string, string | undefined>;
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(variables.map(name => [name, process.env[name]]));
+    variables.forEach(name => delete process.env[name]);
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    database.clear();
+  });
+
+  it('should not seed outside development without the seed passwords', async () => {
+    process.env.NODE_ENV = 'production';
+    process.env.SEED_ADMIN_PASSWORD = 'configured-admin';
+
+    await new DataSeeder().seedDatabase();
+
+    expect(database.getStats()).toMatchObject({ users: 0, uniqueTopics: 0 });
+  });
+
+  it('should give the sample users the configured passwords', async () => {
+    process.env.NODE_ENV = 'production';
+    process.env.SEED_ADMIN_PASSWORD = 'configured-admin';
+    process.env.SEED_EDITOR_PASSWORD = 'configured-editor';
+    process.env.SEED_VIEWER_PASSWORD = 'configured-viewer';
+
+    await new DataSeeder().seedDatabase();
+
+    const userService = new UserService();
+    expect(await userService.authenticate('admin@example.com', 'configured-admin')).not.toBeNull();
+    expect(await userService.authenticate('admin@example.com', 'admin-password')).toBeNull();
+  });
+
+  it('should fall back to the sample passwords in development', async () => {
+    process.env.NODE_ENV = 'development';
+
+    await new DataSeeder().seedDatabase();
+
+    expect(await new UserService().authenticate('viewer@example.com', 'viewer-password')).not.toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDatabase } from '../database/FileDatabase';
+import { Storage } from '../database/Storage';
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { TrashEntry } from '../models/TrashEntry';
+import { StorageType } from '../interfaces/IStorageAdapter';
+import { UserRole } from '../interfaces/IUser';
+
+describe('FileDatabase', () => {
+  let directory: string;
+  let openDatabases: FileDatabase[];
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-storage-'));
+    openDatabases = [];
+  });
+
+  afterEach(async () => {
+    for (const database of openDatabases) {
+      await database.close();
+    }
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const open = async (compactEvery?: number): Promise<FileDatabase> => {
+    const database = new FileDatabase(directory, compactEvery);
+    await database.open();
+    openDatabases.push(database);
+    return database;
+  };
+
+  const logPath = () => path.join(directory, 'wal.log');
+  const snapshotPath = () => path.join(directory, 'snapshot.json');
+
+  it('should replay the write-ahead log after a crash', async () => {
+    const database = await open();
+    const topic = new Topic('Durable Topic', 'v1');
+    database.saveTopic(topic);
+    database.saveTopic(topic.updateContent(undefined, 'v2'));
+    database.saveTopicAcl(topic.id, []);
+
+    const reopened = await open();
+
+    expect(reopened.findTopicVersions(topic.id).map(version => version.content)).toEqual(['v1', 'v2']);
+    expect(reopened.findTopicById(topic.id)?.slug).toBe('durable-topic');
+  });
+
+  it('should compact the log into a snapshot', async () => {
+    const database = await open(2);
+    const first = new Topic('First', 'content');
+    const second = new Topic('Second', 'content');
+    database.saveTopic(first);
+    database.saveTopic(second);
+    database.trashTopics(new TrashEntry(second.id, second.name));
+
+    expect(fs.readFileSync(logPath(), 'utf8').trim().split('\n')).toHaveLength(1);
+    expect(JSON.parse(fs.readFileSync(snapshotPath(), 'utf8')).data.topics[first.id]).toHaveLength(1);
+
+    const reopened = await open();
+    expect(reopened.findTopicById(first.id)).not.toBeNull();
+    expect(reopened.findTopicById(second.id)).toBeNull();
+    expect(reopened.findTrashedTopic(second.id)?.name).toBe('Second');
+  });
+
+  it('should keep password hashes across restarts', async () => {
+    const database = await open();
+    const user = new User('Ada', 'ada@example.com', UserRole.ADMIN);
+    await user.setPassword('correct horse');
+    database.saveUser(user);
+    await database.close();
+
+    const reopened = await open();
+
+    expect(await reopened.findUserByEmail('ada@example.com')?.verifyPassword('correct horse')).toBe(true);
+  });
+
+  it('should drop a torn record at the end of the log', async () => {
+    const database = await open();
+    const topic = new Topic('Survivor', 'content');
+    database.saveTopic(topic);
+    const intactSize = fs.statSync(logPath()).size;
+    fs.appendFileSync(logPath(), '0badc0de {"seq":2,"op":"saveTo');
+
+    const reopened = await open();
+
+    expect(reopened.findTopicById(topic.id)).not.toBeNull();
+    expect(fs.statSync(logPath()).size).toBe(intactSize);
+  });
+
+  it('should refuse to open a log damaged before its end', async () => {
+    const database = await open();
+    database.saveTopic(new Topic('First', 'content'));
+    database.saveTopic(new Topic('Second', 'content'));
+    const [first, ...rest] = fs.readFileSync(logPath(), 'utf8').split('\n');
+    fs.writeFileSync(logPath(), [first.replace('First', 'Fir5t'), ...rest].join('\n'));
+
+    await expect(new FileDatabase(directory).open()).rejects.toThrow('is corrupt at byte 0');
+  });
+
+  it('should refuse to open a snapshot that fails its checksum', async () => {
+    const database = await open();
+    database.saveTopic(new Topic('Snapshotted', 'content'));
+    await database.close();
+    openDatabases = [];
+    fs.writeFileSync(snapshotPath(), fs.readFileSync(snapshotPath(), 'utf8').replace('Snapshotted', 'Tampered'));
+
+    await expect(new FileDatabase(directory).open()).rejects.toThrow('checksum mismatch');
+  });
+
+  it('should log a committed transaction as one record and drop a rolled back one', async () => {
+    const database = await open();
+    const kept = new Topic('Kept', 'content');
+    const dropped = new Topic('Dropped', 'content');
+
+    database.begin();
+    database.saveTopic(kept);
+    database.saveTopicAcl(kept.id, []);
+    database.commit();
+    database.begin();
+    database.saveTopic(dropped);
+    database.rollback();
+
+    expect(fs.readFileSync(logPath(), 'utf8').trim().split('\n')).toHaveLength(1);
+    const reopened = await open();
+    expect(reopened.findTopicById(kept.id)).not.toBeNull();
+    expect(reopened.findTopicById(dropped.id)).toBeNull();
+  });
+
+  it('should not log a mutation that fails its referential integrity checks', async () => {
+    const database = await open();
+    const parent = new Topic('Parent', 'content');
+    database.saveTopic(parent);
+    database.saveTopic(new Topic('Child', 'content', parent.id));
+
+    expect(() => database.deleteTopic(parent.id)).toThrow('still has 1 subtopic(s)');
+    expect(() => database.saveTopic(new Topic('Orphan', 'content', 'missing-topic'))).toThrow('does not exist');
+
+    expect(fs.readFileSync(logPath(), 'utf8').trim().split('\n')).toHaveLength(2);
+    const reopened = await open();
+    expect(reopened.findAllTopics().map(topic => topic.name)).toEqual(['Parent', 'Child']);
+  });
+
+  it('should be selectable as a storage type', () => {
+    expect(Storage.create(StorageType.FILE)).toBeInstanceOf(FileDatabase);
+  });
+});
\ No newline at end of file
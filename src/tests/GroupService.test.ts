@@ -0,0 +1,111 @@
+import { GroupService } from '../services/GroupService';
+import { UserService } from '../services/UserService';
+import { TopicService } from '../services/TopicService';
+import { PermissionService } from '../services/PermissionService';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { UserRole } from '../interfaces/IUser';
+import { PrincipalType, TopicAccessLevel } from '../interfaces/ITopic';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+describe('GroupService', () => {
+  let groupService: GroupService;
+  let userService: UserService;
+  let permissionService: PermissionService;
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+    groupService = new GroupService();
+    userService = new UserService();
+    permissionService = new PermissionService();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  describe('create', () => {
+    it('should create a group with members', async () => {
+      const user = await userService.create({ name: 'Dana', email: 'dana@example.com', role: UserRole.VIEWER });
+
+      const group = await groupService.create({ name: 'Legal', memberIds: [user.id, user.id] });
+
+      expect(group.memberIds).toEqual([user.id]);
+      expect(await groupService.findByMember(user.id)).toHaveLength(1);
+    });
+
+    it('should reject unknown members, invalid permissions and duplicate names', async () => {
+      await expect(groupService.create({ name: 'Legal', memberIds: ['missing-user'] }))
+        .rejects.toThrow(NotFoundError);
+
+      await expect(groupService.create({ name: 'Legal', permissions: { topic: ['manage'] } }))
+        .rejects.toThrow(ValidationError);
+
+      await groupService.create({ name: 'Legal' });
+      await expect(groupService.create({ name: 'legal' }))
+        .rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('membership', () => {
+    it('should add and remove members', async () => {
+      const user = await userService.create({ name: 'Dana', email: 'dana@example.com', role: UserRole.VIEWER });
+      const group = await groupService.create({ name: 'Legal' });
+
+      await groupService.addMember(group.id, user.id);
+      expect((await groupService.findById(group.id))!.hasMember(user.id)).toBe(true);
+
+      await groupService.removeMember(group.id, user.id);
+      expect((await groupService.findById(group.id))!.hasMember(user.id)).toBe(false);
+
+      await expect(groupService.removeMember(group.id, user.id)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should drop memberships when a user is deleted', async () => {
+      const user = await userService.create({ name: 'Dana', email: 'dana@example.com', role: UserRole.VIEWER });
+      const group = await groupService.create({ name: 'Legal', memberIds: [user.id] });
+
+      await userService.delete(user.id);
+
+      expect((await groupService.findById(group.id))!.memberIds).toHaveLength(0);
+    });
+  });
+
+  describe('effective permissions', () => {
+    it('should grant the union of role and group permissions', async () => {
+      const user = await userService.create({ name: 'Dana', email: 'dana@example.com', role: UserRole.VIEWER });
+      expect(permissionService.canWrite(user, 'resource')).toBe(false);
+
+      const group = await groupService.create({
+        name: 'Librarians',
+        permissions: { resource: ['read', 'write'] },
+        memberIds: [user.id]
+      });
+
+      expect(permissionService.canWrite(user, 'resource')).toBe(true);
+      expect(permissionService.canWrite(user, 'topic')).toBe(false);
+
+      const effective = await userService.getEffectivePermissions(user.id);
+      expect(effective!.groups).toEqual([{ id: group.id, name: 'Librarians' }]);
+      expect(effective!.permissions.canWriteResources).toBe(true);
+    });
+
+    it('should match group entries in topic access control lists', async () => {
+      const topicService = new TopicService();
+      const member = await userService.create({ name: 'Dana', email: 'dana@example.com', role: UserRole.VIEWER });
+      const outsider = await userService.create({ name: 'Eli', email: 'eli@example.com', role: UserRole.VIEWER });
+      const group = await groupService.create({ name: 'Legal', memberIds: [member.id] });
+
+      const topic = await topicService.create({ name: 'Contracts', content: 'Confidential' });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+      await topicService.setAccessControl(topic.id, [
+        { principalType: PrincipalType.GROUP, principalId: group.id, level: TopicAccessLevel.READ }
+      ]);
+
+      expect(await topicService.findAll(member)).toHaveLength(1);
+      expect(await topicService.findAll(outsider)).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { TopicService } from '../services/TopicService';
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { TrashEntry } from '../models/TrashEntry';
+import { Group } from '../models/Group';
+import { ResourceType } from '../interfaces/IResource';
+import { UserRole } from '../interfaces/IUser';
+import { MissingReferenceError, ReferenceInUseError } from '../types/errors';
+
+describe('InMemoryDatabase', () => {
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  const ids = (entities: { id: string }[]) => entities.map(entity => entity.id);
+
+  describe('secondary indexes', () => {
+    it('should follow topics to their latest parent, into the trash and back', () => {
+      const first = new Topic('First Parent', 'content');
+      const second = new Topic('Second Parent', 'content');
+      const child = new Topic('Child', 'content', first.id);
+      [first, second, child].forEach(topic => database.saveTopic(topic));
+
+      const moved = child.createNewVersion();
+      moved.parentTopicId = second.id;
+      database.saveTopic(moved);
+
+      expect(database.findTopicsByParentId(first.id)).toEqual([]);
+      expect(database.findTopicsByParentId(second.id)).toEqual([moved]);
+
+      database.trashTopics(new TrashEntry(child.id, child.name, second.id));
+      expect(database.findTopicsByParentId(second.id)).toEqual([]);
+
+      database.restoreTrashEntry(child.id);
+      expect(ids(database.findTopicsByParentId(second.id))).toEqual([child.id]);
+
+      database.deleteTopic(child.id);
+      expect(database.findTopicsByParentId(second.id)).toEqual([]);
+    });
+
+    it('should re-index resources and users changed in place and saved again', () => {
+      const topic = new Topic('Topic', 'content');
+      const other = new Topic('Other', 'content');
+      const resource = new Resource(topic.id, 'https://example.com', 'Docs', ResourceType.ARTICLE);
+      const user = new User('Ada', 'ada@example.com', UserRole.VIEWER);
+      database.saveTopic(topic);
+      database.saveTopic(other);
+      database.saveResource(resource);
+      database.saveUser(user);
+
+      resource.update({ topicId: other.id, type: ResourceType.VIDEO });
+      database.saveResource(resource);
+      user.update({ role: UserRole.EDITOR });
+      database.saveUser(user);
+
+      expect(database.findResourcesByTopicId(topic.id)).toEqual([]);
+      expect(database.findResourcesByTopicId(other.id)).toEqual([resource]);
+      expect(database.findResourcesByType(ResourceType.ARTICLE)).toEqual([]);
+      expect(database.findResourcesByType(ResourceType.VIDEO)).toEqual([resource]);
+      expect(database.findUsersByRole(UserRole.VIEWER)).toEqual([]);
+      expect(database.findUsersByRole(UserRole.EDITOR)).toEqual([user]);
+
+      database.deleteResource(resource.id);
+      database.deleteUser(user.id);
+      expect(database.findResourcesByType(ResourceType.VIDEO)).toEqual([]);
+      expect(database.findUsersByRole(UserRole.EDITOR)).toEqual([]);
+    });
+
+    it('should keep slugs reserved through renames, the trash and restores until purged', () => {
+      const topic = new Topic('Original Name', 'content');
+      database.saveTopic(topic);
+      const renamed = topic.updateContent('Renamed', undefined);
+      renamed.slug = 'renamed';
+      database.saveTopic(renamed);
+
+      expect(database.findTopicIdBySlug('original-name')).toBe(topic.id);
+      expect(database.findTopicIdBySlug('renamed')).toBe(topic.id);
+      expect(database.findFreeTopicSlug('original-name')).toBe('original-name-2');
+      expect(database.isTopicSlugTaken('original-name', topic.id)).toBe(false);
+
+      database.trashTopics(new TrashEntry(topic.id, renamed.name));
+      expect(database.findTopicIdBySlug('renamed')).toBeNull();
+      expect(database.isTopicSlugTaken('renamed')).toBe(true);
+
+      database.restoreTrashEntry(topic.id);
+      expect(database.findTopicIdBySlug('renamed')).toBe(topic.id);
+
+      database.trashTopics(new TrashEntry(topic.id, renamed.name));
+      database.purgeTrashEntry(topic.id);
+      expect(database.isTopicSlugTaken('renamed')).toBe(false);
+      expect(database.findFreeTopicSlug('original-name')).toBe('original-name');
+    });
+
+    it('should match the data after a rollback and an import', () => {
+      const parent = new Topic('Parent', 'content');
+      const kept = new Topic('Kept', 'content', parent.id);
+      database.saveTopic(parent);
+      database.saveTopic(kept);
+
+      database.begin();
+      database.saveTopic(new Topic('Rolled Back', 'content', parent.id));
+      database.saveResource(new Resource(parent.id, 'https://example.com', 'Docs', ResourceType.ARTICLE));
+      database.rollback();
+
+      expect(ids(database.findTopicsByParentId(parent.id))).toEqual([kept.id]);
+      expect(database.findResourcesByTopicId(parent.id)).toEqual([]);
+
+      expect(database.findTopicIdBySlug('rolled-back')).toBeNull();
+
+      database.importData(database.exportData());
+      expect(ids(database.findTopicsByParentId(parent.id))).toEqual([kept.id]);
+      expect(database.findTopicIdBySlug('kept')).toBe(kept.id);
+    });
+  });
+
+  describe('referential integrity', () => {
+    it('should refuse records that point at missing topics or users', () => {
+      const trashed = new Topic('Trashed', 'content');
+      database.saveTopic(trashed);
+      database.trashTopics(new TrashEntry(trashed.id, trashed.name));
+
+      expect(() => database.saveTopic(new Topic('Orphan', 'content', 'missing-topic'))).toThrow(MissingReferenceError);
+      expect(() => database.saveTopic(new Topic('Orphan', 'content', trashed.id))).toThrow(`Parent topic ${trashed.id} does not exist`);
+      expect(() => database.saveResource(new Resource('missing-topic', 'https://example.com', 'Docs', ResourceType.ARTICLE)))
+        .toThrow(MissingReferenceError);
+      expect(() => database.saveGroup(new Group('Editors', {}, undefined, ['missing-user']))).toThrow('User missing-user does not exist');
+      expect(database.getStats()).toMatchObject({ uniqueTopics: 0, resources: 0, groups: 0 });
+    });
+
+    it('should only check the parent of a stored version again when it changes', () => {
+      const oldParent = new Topic('Old Parent', 'content');
+      const newParent = new Topic('New Parent', 'content');
+      const topic = new Topic('Topic', 'content', oldParent.id);
+      database.saveTopic(oldParent);
+      database.saveTopic(newParent);
+      database.saveTopic(topic);
+      database.saveTopic(topic.updateContent(undefined, undefined, newParent.id));
+      database.deleteTopic(oldParent.id);
+
+      const archived = topic.clone();
+      archived.archive();
+      expect(() => database.saveTopic(archived)).not.toThrow();
+
+      const reparented = topic.clone();
+      reparented.parentTopicId = 'missing-topic';
+      expect(() => database.saveTopic(reparented)).toThrow(MissingReferenceError);
+    });
+
+    it('should refuse to delete or trash a topic whose subtopics or resources are left behind', () => {
+      const parent = new Topic('Parent', 'content');
+      const child = new Topic('Child', 'content', parent.id);
+      database.saveTopic(parent);
+      database.saveTopic(child);
+      database.saveResource(new Resource(parent.id, 'https://example.com', 'Docs', ResourceType.ARTICLE));
+
+      expect(() => database.deleteTopic(parent.id)).toThrow(ReferenceInUseError);
+      expect(() => database.trashTopics(new TrashEntry(parent.id, parent.name, undefined, [parent.id, child.id])))
+        .toThrow(`Topic ${parent.id} still has 1 resource(s)`);
+      expect(database.findTopicById(parent.id)).not.toBeNull();
+      expect(database.findResourcesByTopicId(parent.id)).toHaveLength(1);
+    });
+
+    it('should delete the resources of a deleted topic and drop a deleted user from groups', () => {
+      const topic = new Topic('Topic', 'content');
+      const user = new User('Ada', 'ada@example.com', UserRole.VIEWER);
+      const other = new User('Grace', 'grace@example.com', UserRole.VIEWER);
+      database.saveTopic(topic);
+      database.saveResource(new Resource(topic.id, 'https://example.com', 'Docs', ResourceType.ARTICLE));
+      database.saveUser(user);
+      database.saveUser(other);
+      const group = database.saveGroup(new Group('Readers', {}, undefined, [user.id, other.id]));
+
+      expect(database.deleteTopic(topic.id)).toBe(true);
+      expect(database.findAllResources()).toEqual([]);
+
+      database.begin();
+      database.deleteUser(user.id);
+      expect(database.findGroupById(group.id)?.memberIds).toEqual([other.id]);
+      database.rollback();
+      expect(database.findGroupById(group.id)?.memberIds).toEqual([user.id, other.id]);
+    });
+  });
+
+  describe('benchmark', () => {
+    const TOPIC_COUNT = 50000;
+    const FAN_OUT = 10;
+
+    it(`should walk a ${TOPIC_COUNT}-topic hierarchy in linear time`, async () => {
+      const topics: Topic[] = [];
+      for (let index = 0; index < TOPIC_COUNT; index++) {
+        const parent = index === 0 ? undefined : topics[Math.floor((index - 1) / FAN_OUT)];
+        const topic = new Topic(`Topic ${index}`, 'content', parent?.id);
+        topics.push(topic);
+        database.saveTopic(topic);
+        if (index % FAN_OUT === 0) {
+          database.saveResource(new Resource(topic.id, `https://example.com/${index}`, `Resource ${index}`, ResourceType.ARTICLE));
+        }
+      }
+      const topicService = new TopicService();
+
+      const started = Date.now();
+      const tree = await topicService.getTopicTree(topics[0].id);
+      const maxDepth = await topicService.getMaxDepth();
+      const descendants = await topicService.countDescendants(topics[0].id);
+      let resourceCount = 0;
+      for (const topic of topics) {
+        resourceCount += database.findResourcesByTopicId(topic.id).length;
+      }
+      const clashing = await topicService.create({ name: 'Topic 0', content: 'content' });
+      const found = await topicService.findBySlug(topics[TOPIC_COUNT - 1].slug);
+      const elapsed = Date.now() - started;
+
+      expect(tree.children).toHaveLength(FAN_OUT);
+      expect(maxDepth).toBe(Math.ceil(Math.log(TOPIC_COUNT * (FAN_OUT - 1) + 1) / Math.log(FAN_OUT)));
+      expect(descendants).toBe(TOPIC_COUNT - 1);
+      expect(resourceCount).toBe(TOPIC_COUNT / FAN_OUT);
+      expect(clashing.slug).toBe('topic-0-2');
+      expect(found?.id).toBe(topics[TOPIC_COUNT - 1].id);
+      // Scanning all topics per lookup would take minutes at this size
+      expect(elapsed).toBeLessThan(15000);
+    }, 60000);
+  });
+});
\ No newline at end of file
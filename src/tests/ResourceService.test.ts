@@ -2,6 +2,7 @@ import { ResourceService } from '../services/ResourceService';
 import { TopicService } from '../services/TopicService';
 import { InMemoryDatabase } from '../database/InMemoryDatabase';
 import { ResourceType } from '../interfaces/IResource';
+import { BulkOperationError } from '../types/errors';
 
 describe('ResourceService', () => {
   let resourceService: ResourceService;
@@ -279,6 +280,29 @@ describe('ResourceService', () => {
       expect(createdResources).toHaveLength(1);
       expect(createdResources[0].description).toBe('Valid resource');
     });
+
+    it('should create none of the resources when an atomic bulk creation fails', async () => {
+      const resourcesData = [
+        {
+          topicId: testTopicId,
+          url: 'https://example.com/valid',
+          description: 'Valid resource',
+          type: ResourceType.ARTICLE
+        },
+        {
+          topicId: testTopicId,
+          url: 'invalid-url',
+          description: 'Invalid resource',
+          type: ResourceType.ARTICLE
+        }
+      ];
+
+      const error = await resourceService.bulkCreate(resourcesData, undefined, true).catch(e => e);
+
+      expect(error).toBeInstanceOf(BulkOperationError);
+      expect(error.index).toBe(1);
+      expect(await resourceService.findByTopicId(testTopicId)).toHaveLength(0);
+    });
   });
 
   describe('delete', () => {
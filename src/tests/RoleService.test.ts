@@ -0,0 +1,159 @@
+import { RoleService } from '../services/RoleService';
+import { UserService } from '../services/UserService';
+import { PermissionService } from '../services/PermissionService';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { ConflictError, ValidationError } from '../types/errors';
+
+describe('RoleService', () => {
+  let roleService: RoleService;
+  let userService: UserService;
+  let permissionService: PermissionService;
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+    roleService = new RoleService();
+    userService = new UserService();
+    permissionService = new PermissionService();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  describe('create', () => {
+    it('should create a custom role', async () => {
+      const role = await roleService.create({
+        name: 'Reviewer',
+        permissions: { topic: ['read', 'write'] }
+      });
+
+      expect(role.id).toBeDefined();
+      expect(role.name).toBe('Reviewer');
+      expect(await roleService.findAll()).toHaveLength(1);
+    });
+
+    it('should reject built-in names and unknown capabilities', async () => {
+      await expect(roleService.create({ name: 'admin', permissions: {} }))
+        .rejects.toThrow(ValidationError);
+
+      await expect(roleService.create({ name: 'Reviewer', permissions: { topic: ['approve' as never] } }))
+        .rejects.toThrow('Unknown capability approve for topic');
+    });
+
+    it('should only allow the publish capability on topics', async () => {
+      await expect(roleService.create({ name: 'Reviewer', permissions: { resource: ['publish'] } }))
+        .rejects.toThrow('Capability publish only applies to topic');
+
+      const role = await roleService.create({ name: 'Reviewer', permissions: { topic: ['read', 'publish'] } });
+      expect(role.permissions.topic).toEqual(['read', 'publish']);
+    });
+
+    it('should reject duplicate names', async () => {
+      await roleService.create({ name: 'Reviewer', permissions: {} });
+
+      await expect(roleService.create({ name: 'reviewer', permissions: {} }))
+        .rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('permission resolution', () => {
+    it('should let users hold a custom role and resolve its capabilities', async () => {
+      await roleService.create({
+        name: 'Contributor',
+        permissions: { topic: ['read', 'write'], resource: ['read', 'write', 'deleteOwn'] }
+      });
+
+      const user = await userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Contributor' });
+
+      expect(permissionService.canWrite(user, 'topic')).toBe(true);
+      expect(permissionService.canDelete(user, 'topic')).toBe(false);
+      expect(permissionService.canDelete(user, 'resource', { id: 'r1', createdBy: user.id } as never)).toBe(true);
+      expect(permissionService.canDelete(user, 'resource', { id: 'r2', createdBy: 'someone-else' } as never)).toBe(false);
+      expect(permissionService.canManageUsers(user)).toBe(false);
+    });
+
+    it('should grant manage on each resource type separately', async () => {
+      await roleService.create({ name: 'User Manager', permissions: { user: ['manage'] } });
+      await roleService.create({ name: 'Role Manager', permissions: { role: ['manage'], group: ['manage'] } });
+
+      const userManager = await userService.create({ name: 'Uma', email: 'uma@example.com', role: 'User Manager' });
+      const roleManager = await userService.create({ name: 'Rory', email: 'rory@example.com', role: 'Role Manager' });
+
+      expect(permissionService.hasPermission(userManager, 'manage', 'user')).toBe(true);
+      expect(permissionService.hasPermission(userManager, 'manage', 'role')).toBe(false);
+      expect(permissionService.hasPermission(userManager, 'manage', 'group')).toBe(false);
+      expect(permissionService.hasPermission(roleManager, 'manage', 'role')).toBe(true);
+      expect(permissionService.hasPermission(roleManager, 'manage', 'user')).toBe(false);
+    });
+
+    it('should only accept manage on users, roles and groups', async () => {
+      await expect(roleService.create({ name: 'Topic Manager', permissions: { topic: ['manage'] } }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject users with a role that does not exist', async () => {
+      await expect(userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Ghost' }))
+        .rejects.toThrow('Invalid user role');
+    });
+
+    it('should apply role edits immediately', async () => {
+      const role = await roleService.create({ name: 'Reviewer', permissions: { topic: ['read'] } });
+      const user = await userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Reviewer' });
+
+      expect(permissionService.canWrite(user, 'topic')).toBe(false);
+
+      await roleService.update(role.id, { permissions: { topic: ['read', 'write'] } });
+
+      expect(permissionService.canWrite(user, 'topic')).toBe(true);
+    });
+  });
+
+  describe('update', () => {
+    it('should rename the role on every user that holds it', async () => {
+      const role = await roleService.create({ name: 'Reviewer', permissions: { topic: ['read'] } });
+      const user = await userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Reviewer' });
+
+      await roleService.update(role.id, { name: 'Auditor' });
+
+      const reloaded = await userService.findById(user.id);
+      expect(reloaded!.role).toBe('Auditor');
+    });
+
+    it('should keep the old name everywhere if renaming a holder fails', async () => {
+      const role = await roleService.create({ name: 'Reviewer', permissions: { topic: ['read'] } });
+      const first = await userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Reviewer' });
+      const second = await userService.create({ name: 'Robin', email: 'robin@example.com', role: 'Reviewer' });
+
+      const saveUser = database.saveUser.bind(database);
+      const spy = jest.spyOn(database, 'saveUser').mockImplementation(user => {
+        if (user.id === second.id) {
+          throw new Error('Disk full');
+        }
+        return saveUser(user);
+      });
+      try {
+        await expect(roleService.update(role.id, { name: 'Auditor' })).rejects.toThrow('Disk full');
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect((await roleService.findById(role.id))!.name).toBe('Reviewer');
+      expect((await userService.findById(first.id))!.role).toBe('Reviewer');
+      expect((await userService.findById(second.id))!.role).toBe('Reviewer');
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse to delete a role that is still assigned', async () => {
+      const role = await roleService.create({ name: 'Reviewer', permissions: { topic: ['read'] } });
+      const user = await userService.create({ name: 'Casey', email: 'casey@example.com', role: 'Reviewer' });
+
+      await expect(roleService.delete(role.id)).rejects.toThrow(ConflictError);
+
+      await userService.delete(user.id);
+      expect(await roleService.delete(role.id)).toBe(true);
+    });
+  });
+});
\ No newline at end of file
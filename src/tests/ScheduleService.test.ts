@@ -0,0 +1,183 @@
+import { ScheduleService } from '../services/ScheduleService';
+import { TopicService } from '../services/TopicService';
+import { TopicScheduler } from '../services/TopicScheduler';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { ScheduledActionStatus, ScheduledActionType } from '../interfaces/IScheduledAction';
+import { TopicStatus } from '../interfaces/ITopic';
+import { UserRole } from '../interfaces/IUser';
+import { UserService } from '../services/UserService';
+import { ConflictError, NotFoundError, ValidationError } from '../types/errors';
+
+describe('ScheduleService', () => {
+  let scheduleService: ScheduleService;
+  let topicService: TopicService;
+  let database: InMemoryDatabase;
+
+  const now = new Date('2025-01-01T00:00:00Z');
+  const later = new Date('2025-01-02T00:00:00Z');
+  const muchLater = new Date('2026-01-01T00:00:00Z');
+
+  const createPublishedTopic = async (content: string = 'Published content') => {
+    const topic = await topicService.create({ name: 'Policy', content });
+    await topicService.submitForReview(topic.id);
+    return await topicService.approve(topic.id);
+  };
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+    scheduleService = new ScheduleService();
+    topicService = new TopicService();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  describe('schedule', () => {
+    it('should default a publish to the latest version', async () => {
+      const topic = await createPublishedTopic();
+      await topicService.update(topic.id, { content: 'Next year' });
+
+      const action = await scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later }, 'user_1', now);
+
+      expect(action.version).toBe(2);
+      expect(action.status).toBe(ScheduledActionStatus.PENDING);
+      expect(action.createdBy).toBe('user_1');
+    });
+
+    it('should default an expiry to the published version and record it on the version', async () => {
+      const topic = await createPublishedTopic();
+
+      const action = await scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: muchLater }, undefined, now);
+
+      expect(action.version).toBe(1);
+      expect((await topicService.getVersion(topic.id, 1))?.expiresAt).toEqual(muchLater);
+    });
+
+    it('should reject past run times, missing versions and duplicates', async () => {
+      const topic = await topicService.create({ name: 'Draft', content: 'content' });
+
+      await expect(scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: now }, undefined, later))
+        .rejects.toThrow(ValidationError);
+      await expect(scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later, version: 3 }, undefined, now))
+        .rejects.toThrow(NotFoundError);
+      await expect(scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: later }, undefined, now))
+        .rejects.toThrow(ConflictError);
+
+      await scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later }, undefined, now);
+      await expect(scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: muchLater }, undefined, now))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should not keep an expiry whose time could not be recorded on the version', async () => {
+      const topic = await createPublishedTopic();
+
+      const spy = jest.spyOn(database, 'saveTopic').mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+      try {
+        await expect(scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: later }, undefined, now))
+          .rejects.toThrow('Disk full');
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(await scheduleService.findAll()).toHaveLength(0);
+    });
+  });
+
+  describe('runDueActions', () => {
+    it('should publish a version once its time has come', async () => {
+      const topic = await createPublishedTopic('Old policy');
+      await topicService.update(topic.id, { content: 'New policy' });
+      await scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later }, undefined, now);
+
+      expect(await scheduleService.runDueActions(now)).toHaveLength(0);
+
+      const [action] = await scheduleService.runDueActions(later);
+      expect(action.status).toBe(ScheduledActionStatus.COMPLETED);
+
+      const versions = await topicService.getVersions(topic.id);
+      expect(versions.map(version => version.status)).toEqual([TopicStatus.ARCHIVED, TopicStatus.PUBLISHED]);
+    });
+
+    it('should archive an expired version', async () => {
+      const topic = await createPublishedTopic();
+      await scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: later }, undefined, now);
+
+      await scheduleService.runDueActions(later);
+
+      expect((await topicService.getVersion(topic.id, 1))?.status).toBe(TopicStatus.ARCHIVED);
+    });
+
+    it('should fail an expiry whose version was superseded', async () => {
+      const topic = await createPublishedTopic();
+      await scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: muchLater }, undefined, now);
+      await topicService.update(topic.id, { content: 'Reviewed' });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+
+      const [action] = await scheduleService.runDueActions(muchLater);
+
+      expect(action.status).toBe(ScheduledActionStatus.FAILED);
+      expect(action.error).toBe('Version 1 is archived and cannot be expired');
+      expect((await topicService.findById(topic.id))?.isPublished()).toBe(true);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a pending action and clear the expiry it recorded', async () => {
+      const topic = await createPublishedTopic();
+      const action = await scheduleService.schedule(topic.id, { action: ScheduledActionType.EXPIRE, runAt: later }, undefined, now);
+
+      const cancelled = await scheduleService.cancel(action.id);
+
+      expect(cancelled.status).toBe(ScheduledActionStatus.CANCELLED);
+      expect((await topicService.getVersion(topic.id, 1))?.expiresAt).toBeUndefined();
+      expect(await scheduleService.runDueActions(later)).toHaveLength(0);
+      await expect(scheduleService.cancel(action.id)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError for a missing action', async () => {
+      await expect(scheduleService.cancel('missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should only let admins manage actions on a trashed topic', async () => {
+      const userService = new UserService();
+      const viewer = await userService.create({ name: 'Vic', email: 'vic@example.com', role: UserRole.VIEWER });
+      const admin = await userService.create({ name: 'Ada', email: 'ada@example.com', role: UserRole.ADMIN });
+      const topic = await topicService.create({ name: 'Draft', content: 'content' });
+      const action = await scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later }, undefined, now);
+      await topicService.delete(topic.id);
+
+      expect(await scheduleService.findAll({}, viewer)).toHaveLength(0);
+      expect(await scheduleService.findById(action.id, viewer)).toBeNull();
+      await expect(scheduleService.cancel(action.id, viewer.id, viewer)).rejects.toThrow(NotFoundError);
+
+      expect(await scheduleService.findAll({}, admin)).toHaveLength(1);
+      expect((await scheduleService.cancel(action.id, admin.id, admin)).status).toBe(ScheduledActionStatus.CANCELLED);
+    });
+  });
+
+  describe('TopicScheduler', () => {
+    it('should run due actions on each tick', async () => {
+      const topic = await topicService.create({ name: 'Launch', content: 'content' });
+      await scheduleService.schedule(topic.id, { action: ScheduledActionType.PUBLISH, runAt: later }, undefined, now);
+
+      await new TopicScheduler().tick(later);
+
+      expect((await topicService.findById(topic.id))?.status).toBe(TopicStatus.PUBLISHED);
+    });
+
+    it('should start and stop polling', () => {
+      const scheduler = new TopicScheduler(60000);
+
+      scheduler.start();
+      expect(scheduler.isRunning()).toBe(true);
+
+      scheduler.stop();
+      expect(scheduler.isRunning()).toBe(false);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteDatabase } from '../database/SqliteDatabase';
+import { MigrationRunner } from '../database/MigrationRunner';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { Storage } from '../database/Storage';
+import { migrations } from '../database/migrations';
+import { TopicService } from '../services/TopicService';
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { TrashEntry } from '../models/TrashEntry';
+import { Group } from '../models/Group';
+import { StorageType } from '../interfaces/IStorageAdapter';
+import { PrincipalType, TopicAccessLevel } from '../interfaces/ITopic';
+import { ResourceType } from '../interfaces/IResource';
+import { UserRole } from '../interfaces/IUser';
+import { MissingReferenceError, ReferenceInUseError } from '../types/errors';
+
+describe('SqliteDatabase', () => {
+  let directory: string;
+  let filename: string;
+  let openDatabases: SqliteDatabase[];
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-sqlite-'));
+    filename = path.join(directory, 'knowledge-base.sqlite');
+    openDatabases = [];
+  });
+
+  afterEach(async () => {
+    Storage.use(InMemoryDatabase.getInstance());
+    for (const database of openDatabases) {
+      await database.close();
+    }
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const open = async (): Promise<SqliteDatabase> => {
+    const database = new SqliteDatabase(filename, true);
+    await database.open();
+    openDatabases.push(database);
+    return database;
+  };
+
+  const reopen = async (database: SqliteDatabase): Promise<SqliteDatabase> => {
+    await database.close();
+    return open();
+  };
+
+  describe('migrations', () => {
+    it('should apply pending migrations once, in order', () => {
+      const db = new Database(filename);
+      const runner = new MigrationRunner(db);
+
+      expect(runner.getCurrentVersion()).toBe(0);
+      expect(runner.migrate().map(migration => migration.version)).toEqual(migrations.map(migration => migration.version));
+      expect(runner.migrate()).toEqual([]);
+      expect(runner.getCurrentVersion()).toBe(migrations.length);
+      db.close();
+    });
+
+    it('should reject migrations numbered with gaps', () => {
+      const db = new Database(':memory:');
+
+      expect(() => new MigrationRunner(db, [migrations[1]])).toThrow('numbered from 1 without gaps');
+      db.close();
+    });
+
+    it('should refuse a database newer than the known migrations', () => {
+      const db = new Database(filename);
+      new MigrationRunner(db).migrate();
+
+      expect(() => new MigrationRunner(db, [migrations[0]]).getPending()).toThrow('newer than the latest known migration 1');
+      db.close();
+    });
+
+    it('should refuse to open a database with pending migrations', async () => {
+      await expect(new SqliteDatabase(filename).open()).rejects.toThrow('run `npm run migrate` first');
+
+      const db = new Database(filename);
+      new MigrationRunner(db).migrate();
+      db.close();
+      const database = new SqliteDatabase(filename);
+      await database.open();
+      openDatabases.push(database);
+
+      expect(database.findAllTopics()).toEqual([]);
+    });
+  });
+
+  it('should keep every version of a topic and serve the latest', async () => {
+    const database = await open();
+    const parent = new Topic('Parent', 'content');
+    const child = new Topic('Child', 'v1', parent.id);
+    database.saveTopic(parent);
+    database.saveTopic(child);
+    database.saveTopic(child.updateContent(undefined, 'v2'));
+
+    const reopened = await reopen(database);
+
+    expect(reopened.findTopicVersions(child.id).map(version => version.content)).toEqual(['v1', 'v2']);
+    expect(reopened.findTopicById(child.id)?.version).toBe(2);
+    expect(reopened.findTopicById(child.id, 1)?.content).toBe('v1');
+    expect(reopened.findTopicsByParentId(parent.id).map(topic => topic.id)).toEqual([child.id]);
+    expect(reopened.findAllTopics().map(topic => topic.name)).toEqual(['Parent', 'Child']);
+    expect(reopened.findTopicById(parent.id)?.createdAt).toEqual(parent.createdAt);
+  });
+
+  it('should hide trashed topics and resources until they are restored', async () => {
+    const database = await open();
+    const topic = new Topic('Trashed', 'content');
+    const resource = new Resource(topic.id, 'https://example.com', 'Docs', ResourceType.ARTICLE);
+    database.saveTopic(topic);
+    database.saveResource(resource);
+
+    database.trashTopics(new TrashEntry(topic.id, topic.name, undefined, [topic.id], [resource.id]));
+
+    expect(database.findTopicById(topic.id)).toBeNull();
+    expect(database.findResourcesByTopicId(topic.id)).toEqual([]);
+    expect(database.findTrashedTopic(topic.id)?.name).toBe('Trashed');
+    expect(database.isTopicSlugTaken('trashed')).toBe(true);
+
+    expect(database.restoreTrashEntry(topic.id)).toBe(true);
+    expect(database.findTopicById(topic.id)?.name).toBe('Trashed');
+    expect(database.findResourceById(resource.id)?.url).toBe('https://example.com');
+    expect(database.findAllTrashEntries()).toEqual([]);
+  });
+
+  it('should roll back a transaction', async () => {
+    const database = await open();
+    const kept = new Topic('Kept', 'content');
+    database.saveTopic(kept);
+
+    database.begin();
+    database.saveTopic(kept.updateContent(undefined, 'changed'));
+    database.saveTopic(new Topic('Dropped', 'content'));
+    database.rollback();
+
+    expect(database.findAllTopics().map(topic => topic.content)).toEqual(['content']);
+    expect(() => database.commit()).toThrow('No transaction is open');
+  });
+
+  it('should enforce the references between records', async () => {
+    const database = await open();
+    const parent = new Topic('Parent', 'content');
+    const child = new Topic('Child', 'content', parent.id);
+    const user = new User('Ada', 'ada@example.com', UserRole.VIEWER);
+    database.saveTopic(parent);
+    database.saveTopic(child);
+    database.saveResource(new Resource(child.id, 'https://example.com', 'Docs', ResourceType.ARTICLE));
+    database.saveUser(user);
+    const group = database.saveGroup(new Group('Readers', {}, undefined, [user.id]));
+
+    expect(() => database.saveResource(new Resource('missing-topic', 'https://example.com', 'Docs', ResourceType.ARTICLE)))
+      .toThrow(MissingReferenceError);
+    expect(() => database.deleteTopic(parent.id)).toThrow(ReferenceInUseError);
+    expect(() => database.trashTopics(new TrashEntry(child.id, child.name))).toThrow(ReferenceInUseError);
+    expect(database.findTopicById(child.id)).not.toBeNull();
+
+    expect(database.deleteTopic(child.id)).toBe(true);
+    expect(database.findAllResources()).toEqual([]);
+    expect(database.deleteUser(user.id)).toBe(true);
+    expect(database.findGroupById(group.id)?.memberIds).toEqual([]);
+  });
+
+  it('should only check the parent of a stored version again when it changes', async () => {
+    const database = await open();
+    const oldParent = new Topic('Old Parent', 'content');
+    const newParent = new Topic('New Parent', 'content');
+    const topic = new Topic('Topic', 'content', oldParent.id);
+    database.saveTopic(oldParent);
+    database.saveTopic(newParent);
+    database.saveTopic(topic);
+    database.saveTopic(topic.updateContent(undefined, undefined, newParent.id));
+    database.deleteTopic(oldParent.id);
+
+    const archived = topic.clone();
+    archived.archive();
+    expect(() => database.saveTopic(archived)).not.toThrow();
+
+    const reparented = topic.clone();
+    reparented.parentTopicId = 'missing-topic';
+    expect(() => database.saveTopic(reparented)).toThrow(MissingReferenceError);
+  });
+
+  it('should keep password hashes across restarts', async () => {
+    const database = await open();
+    const user = new User('Ada', 'ada@example.com', UserRole.ADMIN);
+    await user.setPassword('correct horse');
+    database.saveUser(user);
+
+    const reopened = await reopen(database);
+
+    expect(await reopened.findUserByEmail('ada@example.com')?.verifyPassword('correct horse')).toBe(true);
+  });
+
+  it('should import what it exports', async () => {
+    const database = await open();
+    const topic = new Topic('Exported', 'v1');
+    database.saveTopic(topic);
+    database.saveTopic(topic.updateContent(undefined, 'v2'));
+    database.saveTopicAcl(topic.id, [{ principalType: PrincipalType.USER, principalId: 'user-1', level: TopicAccessLevel.READ }]);
+    const trashed = new Topic('Gone', 'content');
+    database.saveTopic(trashed);
+    database.trashTopics(new TrashEntry(trashed.id, trashed.name));
+    const exported = database.exportData();
+
+    database.importData(exported);
+
+    expect(database.exportData()).toEqual(exported);
+    expect(database.getStats()).toMatchObject({ uniqueTopics: 1, totalTopicVersions: 2, trashedTopics: 1 });
+  });
+
+  it('should serve the services once selected', async () => {
+    Storage.use(await open());
+    const topicService = new TopicService();
+
+    const topic = await topicService.create({ name: 'Stored Topic', content: 'v1' });
+    await topicService.update(topic.id, { content: 'v2' });
+
+    expect((await topicService.findBySlug('stored-topic'))?.content).toBe('v2');
+  });
+
+  it('should be selectable as a storage type', () => {
+    expect(Storage.create(StorageType.SQLITE)).toBeInstanceOf(SqliteDatabase);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Storage } from '../database/Storage';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { IStorageAdapter, StorageType } from '../interfaces/IStorageAdapter';
+import { TopicService } from '../services/TopicService';
+import App from '../app';
+
+describe('Storage', () => {
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+  });
+
+  afterEach(() => {
+    Storage.use(database);
+    database.clear();
+  });
+
+  /**
+   * Wraps the in-memory database in an adapter that records the methods called on it
+   */
+  const recordingAdapter = (calls: string[]): IStorageAdapter => new Proxy(database, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        calls.push(String(property));
+        return value.apply(target, args);
+      };
+    }
+  });
+
+  it('should default to the in-memory database', () => {
+    expect(Storage.getAdapter()).toBe(database);
+    expect(Storage.create(StorageType.MEMORY)).toBe(database);
+  });
+
+  it('should reject unknown storage types', () => {
+    expect(() => Storage.create('floppy')).toThrow('Unknown storage type floppy');
+  });
+
+  it('should route repositories created before the selection to the selected adapter', async () => {
+    const topicService = new TopicService();
+    const calls: string[] = [];
+    Storage.use(recordingAdapter(calls));
+
+    const topic = await topicService.create({ name: 'Stored Topic', content: 'content' });
+
+    expect(calls).toContain('saveTopic');
+    expect(database.findTopicById(topic.id)?.name).toBe('Stored Topic');
+  });
+
+  it('should let the app select the adapter', () => {
+    const adapter = recordingAdapter([]);
+
+    new App(3000, adapter);
+
+    expect(Storage.getAdapter()).toBe(adapter);
+  });
+});
\ No newline at end of file
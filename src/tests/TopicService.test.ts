@@ -1,6 +1,10 @@
 import { TopicService } from '../services/TopicService';
 import { InMemoryDatabase } from '../database/InMemoryDatabase';
-import { ValidationError } from '../types/errors';
+import { ConflictError, MergeConflictError, NotFoundError, ValidationError, VersionConflictError } from '../types/errors';
+import { User } from '../models/User';
+import { Topic } from '../models/Topic';
+import { UserRole } from '../interfaces/IUser';
+import { PrincipalType, TopicAccessLevel, TopicStatus } from '../interfaces/ITopic';
 
 describe('TopicService', () => {
   let topicService: TopicService;
@@ -76,12 +80,376 @@ describe('TopicService', () => {
       expect(updatedTopic.name).toBe('Original Topic'); // Name should remain
     });
 
+    it('should keep the creator and record the updater', async () => {
+      const originalTopic = await topicService.create({
+        name: 'Owned Topic',
+        content: 'Original content'
+      }, 'author-id');
+
+      const updatedTopic = await topicService.update(originalTopic.id, {
+        content: 'Updated content'
+      }, 'editor-id');
+
+      expect(originalTopic.createdBy).toBe('author-id');
+      expect(updatedTopic.createdBy).toBe('author-id');
+      expect(updatedTopic.updatedBy).toBe('editor-id');
+    });
+
+    it('should record the author, change message and original creation time per version', async () => {
+      const originalTopic = await topicService.create({
+        name: 'Audited Topic',
+        content: 'Original content'
+      }, 'author-id');
+
+      const updatedTopic = await topicService.update(originalTopic.id, {
+        content: 'Updated content',
+        changeMessage: '  Fix typo  '
+      }, 'editor-id');
+      const movedTopic = await topicService.moveTopic(originalTopic.id, null);
+
+      expect(originalTopic.authorId).toBe('author-id');
+      expect(originalTopic.changeMessage).toBeUndefined();
+      expect(updatedTopic.authorId).toBe('editor-id');
+      expect(updatedTopic.changeMessage).toBe('Fix typo');
+      expect(updatedTopic.topicCreatedAt).toEqual(originalTopic.createdAt);
+      expect(movedTopic.authorId).toBeUndefined();
+      expect(movedTopic.changeMessage).toBeUndefined();
+      expect(movedTopic.topicCreatedAt).toEqual(originalTopic.createdAt);
+    });
+
+    it('should reject an overly long change message', async () => {
+      const originalTopic = await topicService.create({
+        name: 'Original Topic',
+        content: 'Original content'
+      });
+
+      await expect(topicService.update(originalTopic.id, {
+        content: 'Updated content',
+        changeMessage: 'x'.repeat(501)
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject an update built on a stale version', async () => {
+      const originalTopic = await topicService.create({
+        name: 'Original Topic',
+        content: 'Original content'
+      });
+      await topicService.update(originalTopic.id, { content: 'First edit' }, undefined, [1]);
+
+      await expect(topicService.update(originalTopic.id, { content: 'Second edit' }, undefined, [1]))
+        .rejects.toMatchObject({ currentVersion: 2 });
+      await expect(topicService.moveTopic(originalTopic.id, null, undefined, [1]))
+        .rejects.toThrow(VersionConflictError);
+      await expect(topicService.delete(originalTopic.id, [1]))
+        .rejects.toThrow(VersionConflictError);
+    });
+
+    it('should not let concurrent updates overwrite each other', async () => {
+      const originalTopic = await topicService.create({
+        name: 'Original Topic',
+        content: 'Original content'
+      });
+
+      const results = await Promise.allSettled([
+        topicService.update(originalTopic.id, { content: 'Edit A' }),
+        topicService.update(originalTopic.id, { content: 'Edit B' })
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+      expect(await topicService.getVersions(originalTopic.id)).toHaveLength(2);
+    });
+
     it('should throw NotFoundError for non-existent topic', async () => {
       await expect(topicService.update('non-existent-id', { content: 'test' }))
         .rejects.toThrow();
     });
   });
 
+  describe('merging concurrent edits', () => {
+    it('should merge an edit based on an older version into the latest version', async () => {
+      const topic = await topicService.create({ name: 'Merged Topic', content: 'intro\nbody\noutro' });
+      await topicService.update(topic.id, { name: 'Renamed Topic', content: 'INTRO\nbody\noutro' });
+
+      const merged = await topicService.update(
+        topic.id,
+        { name: 'Merged Topic', content: 'intro\nbody\nOUTRO' },
+        undefined,
+        undefined,
+        1
+      );
+
+      expect(merged.version).toBe(3);
+      expect(merged.name).toBe('Renamed Topic');
+      expect(merged.content).toBe('INTRO\nbody\nOUTRO');
+    });
+
+    it('should report conflicting lines with markers and hunks', async () => {
+      const topic = await topicService.create({ name: 'Merged Topic', content: 'intro\nbody\noutro' });
+      await topicService.update(topic.id, { content: 'intro\ntheir body\noutro' });
+
+      const error = await topicService
+        .update(topic.id, { content: 'intro\nour body\noutro' }, undefined, undefined, 1)
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MergeConflictError);
+      expect(error.conflict.baseVersion).toBe(1);
+      expect(error.conflict.currentVersion).toBe(2);
+      expect(error.conflict.content).toBe('intro\n<<<<<<< version 2\ntheir body\n=======\nour body\n>>>>>>> incoming\noutro');
+      expect(error.conflict.hunks).toEqual([
+        { line: 2, baseLine: 2, base: ['body'], current: ['their body'], incoming: ['our body'] }
+      ]);
+      expect(await topicService.getVersions(topic.id)).toHaveLength(2);
+    });
+
+    it('should report a field changed differently on both sides', async () => {
+      const topic = await topicService.create({ name: 'Original Name', content: 'content' });
+      await topicService.update(topic.id, { name: 'Their Name' });
+
+      await expect(topicService.update(topic.id, { name: 'Our Name' }, undefined, undefined, 1))
+        .rejects.toMatchObject({
+          conflict: {
+            fields: [{ field: 'name', base: 'Original Name', current: 'Their Name', incoming: 'Our Name' }]
+          }
+        });
+    });
+  });
+
+  describe('restoreVersion', () => {
+    it('should restore a previous version as a new version', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'Parent content' });
+      const topic = await topicService.create({
+        name: 'Original Topic',
+        content: 'Original content',
+        parentTopicId: parent.id
+      });
+      await topicService.update(topic.id, { name: 'Bad Edit', content: 'Bad content', parentTopicId: '' });
+
+      const restored = await topicService.restoreVersion(topic.id, 1);
+
+      expect(restored.version).toBe(3);
+      expect(restored.name).toBe('Original Topic');
+      expect(restored.content).toBe('Original content');
+      expect(restored.parentTopicId).toBe(parent.id);
+      expect(restored.changeMessage).toBe('Restored version 1');
+    });
+
+    it('should reject a version whose parent no longer exists', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'Parent content' });
+      const topic = await topicService.create({ name: 'Child', content: 'Child content', parentTopicId: parent.id });
+      await topicService.moveTopic(topic.id, null);
+      database.deleteTopic(parent.id);
+
+      await expect(topicService.restoreVersion(topic.id, 1)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a version whose parent is now a descendant', async () => {
+      const first = await topicService.create({ name: 'First', content: 'First content' });
+      const second = await topicService.create({ name: 'Second', content: 'Second content', parentTopicId: first.id });
+      await topicService.moveTopic(second.id, null);
+      await topicService.moveTopic(first.id, second.id);
+
+      await expect(topicService.restoreVersion(second.id, 1)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError for a missing version', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+
+      await expect(topicService.restoreVersion(topic.id, 4)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('review workflow', () => {
+    const viewer = new User('Vera', 'vera@example.com', UserRole.VIEWER);
+
+    it('should move a version from draft through review to published', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+      expect(topic.status).toBe(TopicStatus.DRAFT);
+
+      const submitted = await topicService.submitForReview(topic.id);
+      expect(submitted.status).toBe(TopicStatus.IN_REVIEW);
+
+      const published = await topicService.approve(topic.id, 'reviewer_1', 'Looks good');
+      expect(published.status).toBe(TopicStatus.PUBLISHED);
+      expect(published.reviewedBy).toBe('reviewer_1');
+      expect(published.reviewComment).toBe('Looks good');
+      expect(published.publishedAt).toBeInstanceOf(Date);
+    });
+
+    it('should send a rejected version back to draft and require a comment', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+      await topicService.submitForReview(topic.id);
+
+      await expect(topicService.reject(topic.id, 'reviewer_1', '  ')).rejects.toThrow(ValidationError);
+
+      const rejected = await topicService.reject(topic.id, 'reviewer_1', 'Needs sources');
+      expect(rejected.status).toBe(TopicStatus.DRAFT);
+      expect(rejected.reviewComment).toBe('Needs sources');
+    });
+
+    it('should reject transitions from the wrong status', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+
+      await expect(topicService.approve(topic.id)).rejects.toThrow(ConflictError);
+      await expect(topicService.archive(topic.id)).rejects.toThrow(ConflictError);
+
+      await topicService.submitForReview(topic.id);
+      await expect(topicService.submitForReview(topic.id)).rejects.toThrow(ConflictError);
+    });
+
+    it('should archive the previously published version when a new one is approved', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'First' });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+      await topicService.update(topic.id, { content: 'Second' });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+
+      const versions = await topicService.getVersions(topic.id);
+      expect(versions.map(version => version.status)).toEqual([TopicStatus.ARCHIVED, TopicStatus.PUBLISHED]);
+    });
+
+    it('should keep the published version if publishing its successor fails', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'First' });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+      await topicService.update(topic.id, { content: 'Second' });
+      await topicService.submitForReview(topic.id);
+
+      const saveTopic = database.saveTopic.bind(database);
+      const spy = jest.spyOn(database, 'saveTopic').mockImplementation(version => {
+        if (version.version === 2) {
+          throw new Error('Disk full');
+        }
+        return saveTopic(version);
+      });
+      try {
+        await expect(topicService.approve(topic.id)).rejects.toThrow('Disk full');
+      } finally {
+        spy.mockRestore();
+      }
+
+      const versions = await topicService.getVersions(topic.id);
+      expect(versions.map(version => version.status)).toEqual([TopicStatus.PUBLISHED, TopicStatus.IN_REVIEW]);
+    });
+
+    it('should leave the stored status unchanged when a status change fails to save', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'First' });
+      const published = await topicService.create({ name: 'Published', content: 'First' });
+      await topicService.submitForReview(published.id);
+      await topicService.approve(published.id);
+
+      const spy = jest.spyOn(database, 'saveTopic').mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+      try {
+        await expect(topicService.submitForReview(topic.id)).rejects.toThrow('Disk full');
+        await expect(topicService.archive(published.id)).rejects.toThrow('Disk full');
+        await expect(topicService.setVersionExpiry(published.id, 1, new Date())).rejects.toThrow('Disk full');
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(database.findTopicById(topic.id)?.status).toBe(TopicStatus.DRAFT);
+      expect(database.findTopicById(published.id)?.status).toBe(TopicStatus.PUBLISHED);
+      expect(database.findTopicById(published.id)?.expiresAt).toBeUndefined();
+    });
+
+    it('should archive a published version whose former parent was deleted since', async () => {
+      const oldParent = await topicService.create({ name: 'Old Parent', content: 'content' });
+      const newParent = await topicService.create({ name: 'New Parent', content: 'content' });
+      const topic = await topicService.create({ name: 'Topic', content: 'First', parentTopicId: oldParent.id });
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+      await topicService.moveTopic(topic.id, newParent.id);
+      await topicService.delete(oldParent.id);
+
+      await topicService.submitForReview(topic.id);
+      const published = await topicService.approve(topic.id);
+
+      expect(published.parentTopicId).toBe(newParent.id);
+      const versions = await topicService.getVersions(topic.id);
+      expect(versions.map(version => version.status)).toEqual([TopicStatus.ARCHIVED, TopicStatus.PUBLISHED]);
+    });
+
+    it('should show viewers only the published version', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'Published content' });
+      expect(await topicService.findById(topic.id, undefined, viewer)).toBeNull();
+      expect(await topicService.findAll(viewer)).toHaveLength(0);
+
+      await topicService.submitForReview(topic.id);
+      await topicService.approve(topic.id);
+      await topicService.update(topic.id, { content: 'Draft content' });
+
+      const seen = await topicService.findById(topic.id, undefined, viewer);
+      expect(seen?.version).toBe(1);
+      expect(seen?.content).toBe('Published content');
+      expect((await topicService.findById(topic.id))?.content).toBe('Draft content');
+      expect(await topicService.getVersions(topic.id, viewer)).toHaveLength(1);
+
+      await topicService.archive(topic.id);
+      expect(await topicService.findById(topic.id, undefined, viewer)).toBeNull();
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('should report field changes and line-level content changes', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'Parent content' });
+      const topic = await topicService.create({
+        name: 'Original Topic',
+        content: 'first line\nthe quick brown fox\nlast line'
+      });
+      await topicService.update(topic.id, {
+        name: 'Renamed Topic',
+        content: 'first line\nthe quick red fox\nlast line\nappended line',
+        parentTopicId: parent.id
+      });
+
+      const diff = await topicService.diffVersions(topic.id, 1, 2);
+
+      expect(diff.fields).toEqual([
+        { field: 'name', from: 'Original Topic', to: 'Renamed Topic' },
+        { field: 'slug', from: 'original-topic', to: 'renamed-topic' },
+        { field: 'parentTopicId', from: null, to: parent.id }
+      ]);
+      expect(diff.content.stats).toEqual({ unchanged: 2, added: 1, removed: 0, modified: 1 });
+
+      const modified = diff.content.lines.find(line => line.type === 'modified');
+      expect(modified?.oldLine).toBe(2);
+      expect(modified?.words).toEqual([
+        { type: 'equal', value: 'the quick ' },
+        { type: 'removed', value: 'brown' },
+        { type: 'added', value: 'red' },
+        { type: 'equal', value: ' fox' }
+      ]);
+    });
+
+    it('should render content changes as a unified diff', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'alpha\nbeta\ngamma' });
+      await topicService.update(topic.id, { content: 'alpha\ndelta\ngamma' });
+
+      const patch = await topicService.diffVersionsUnified(topic.id, 1, 2);
+
+      expect(patch).toBe([
+        `--- ${topic.id}@v1`,
+        `+++ ${topic.id}@v2`,
+        '@@ -1,3 +1,3 @@',
+        ' alpha',
+        '-beta',
+        '+delta',
+        ' gamma',
+        ''
+      ].join('\n'));
+    });
+
+    it('should throw NotFoundError for a missing version', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+
+      await expect(topicService.diffVersions(topic.id, 1, 5)).rejects.toThrow(NotFoundError);
+      await expect(topicService.diffVersions('non-existent-id', 1, 2)).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('getTopicTree', () => {
     it('should return hierarchical tree structure', async () => {
       // Create parent topic
@@ -177,6 +545,44 @@ describe('TopicService', () => {
     });
   });
 
+  describe('slugs', () => {
+    it('should generate unique slugs from topic names', async () => {
+      const first = await topicService.create({ name: 'Héllo, World!', content: 'content' });
+      const second = await topicService.create({ name: 'Hello World', content: 'content' });
+
+      expect(first.slug).toBe('hello-world');
+      expect(second.slug).toBe('hello-world-2');
+      expect((await topicService.findBySlug('hello-world-2'))?.id).toBe(second.id);
+    });
+
+    it('should keep resolving former slugs after a rename', async () => {
+      const topic = await topicService.create({ name: 'Old Name', content: 'content' });
+      const renamed = await topicService.update(topic.id, { name: 'New Name' });
+
+      expect(renamed.slug).toBe('new-name');
+      expect((await topicService.findBySlug('old-name'))?.version).toBe(2);
+      expect((await topicService.findBySlug('old-name', 1))?.name).toBe('Old Name');
+      expect((await topicService.create({ name: 'Old Name', content: 'content' })).slug).toBe('old-name-2');
+    });
+
+    it('should reject invalid slugs and slugs of other topics', async () => {
+      const topic = await topicService.create({ name: 'First', content: 'content', slug: 'custom-slug' });
+      const other = await topicService.create({ name: 'Second', content: 'content' });
+
+      expect(topic.slug).toBe('custom-slug');
+      await expect(topicService.create({ name: 'Third', content: 'content', slug: 'Not A Slug' })).rejects.toThrow(ValidationError);
+      await expect(topicService.update(other.id, { slug: 'custom-slug' })).rejects.toThrow(ConflictError);
+    });
+
+    it('should keep slugs of trashed topics reserved', async () => {
+      const topic = await topicService.create({ name: 'Trashed', content: 'content' });
+      await topicService.delete(topic.id);
+
+      expect(await topicService.findBySlug('trashed')).toBeNull();
+      expect((await topicService.create({ name: 'Trashed', content: 'content' })).slug).toBe('trashed-2');
+    });
+  });
+
   describe('searchByName', () => {
     it('should find topics by name pattern', async () => {
       await topicService.create({
@@ -200,4 +606,79 @@ describe('TopicService', () => {
       expect(results.every(topic => topic.name.includes('JavaScript'))).toBe(true);
     });
   });
+
+  describe('access control lists', () => {
+    const alice = new User('Alice', 'alice@example.com', UserRole.VIEWER);
+    const bob = new User('Bob', 'bob@example.com', UserRole.VIEWER);
+
+    const publish = async (...topics: Topic[]) => {
+      for (const topic of topics) {
+        await topicService.submitForReview(topic.id);
+        await topicService.approve(topic.id);
+      }
+    };
+
+    it('should hide restricted topics and their descendants from users without access', async () => {
+      const publicTopic = await topicService.create({ name: 'Public', content: 'Public content' });
+      const confidential = await topicService.create({ name: 'Confidential', content: 'Secret content' });
+      const child = await topicService.create({ name: 'Secret Child', content: 'Secret content', parentTopicId: confidential.id });
+      await publish(publicTopic, confidential, child);
+
+      await topicService.setAccessControl(confidential.id, [
+        { principalType: PrincipalType.USER, principalId: alice.id, level: TopicAccessLevel.READ }
+      ]);
+
+      const bobTopics = await topicService.findAll(bob);
+      expect(bobTopics.map(topic => topic.id)).toEqual([publicTopic.id]);
+      expect(await topicService.searchTopics('Secret', bob)).toHaveLength(0);
+
+      const aliceTopics = await topicService.findAll(alice);
+      expect(aliceTopics.map(topic => topic.id).sort()).toEqual([publicTopic.id, confidential.id, child.id].sort());
+
+      const acl = await topicService.getAccessControl(child.id);
+      expect(acl.entries).toHaveLength(0);
+      expect(acl.effective).toMatchObject({ sourceTopicId: confidential.id, inherited: true });
+    });
+
+    it('should let a descendant override the inherited list', async () => {
+      const root = await topicService.create({ name: 'Root', content: 'Root content' });
+      const child = await topicService.create({ name: 'Child', content: 'Child content', parentTopicId: root.id });
+      await publish(root, child);
+
+      await topicService.setAccessControl(root.id, [
+        { principalType: PrincipalType.USER, principalId: alice.id, level: TopicAccessLevel.ADMIN }
+      ]);
+      await topicService.setAccessControl(child.id, [
+        { principalType: PrincipalType.USER, principalId: bob.id, level: TopicAccessLevel.READ }
+      ]);
+
+      const tree = await topicService.getTopicTree(root.id, alice);
+      expect(tree.children).toHaveLength(0);
+      expect((await topicService.findAll(bob)).map(topic => topic.id)).toEqual([child.id]);
+    });
+
+    it('should not route shortest paths through unreadable topics', async () => {
+      const root = await topicService.create({ name: 'Root', content: 'Root content' });
+      const hidden = await topicService.create({ name: 'Hidden', content: 'Hidden content', parentTopicId: root.id });
+      const leaf = await topicService.create({ name: 'Leaf', content: 'Leaf content', parentTopicId: hidden.id });
+
+      await topicService.setAccessControl(hidden.id, [
+        { principalType: PrincipalType.USER, principalId: alice.id, level: TopicAccessLevel.READ }
+      ]);
+      await topicService.setAccessControl(leaf.id, [
+        { principalType: PrincipalType.USER, principalId: bob.id, level: TopicAccessLevel.READ }
+      ]);
+
+      expect(await topicService.findShortestPath(root.id, leaf.id, bob)).toHaveLength(0);
+      expect(await topicService.findShortestPath(root.id, leaf.id)).toHaveLength(3);
+    });
+
+    it('should reject invalid entries', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'Content' });
+
+      await expect(topicService.setAccessControl(topic.id, [
+        { principalType: PrincipalType.USER, principalId: alice.id, level: 'owner' as TopicAccessLevel }
+      ])).rejects.toThrow(ValidationError);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { TrashService } from '../services/TrashService';
+import { TopicService } from '../services/TopicService';
+import { ResourceService } from '../services/ResourceService';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { TrashRepository } from '../database/TrashRepository';
+import { TrashEntry } from '../models/TrashEntry';
+import { ResourceType } from '../interfaces/IResource';
+import { TopicDeletePolicy } from '../interfaces/ITrash';
+import { ConflictError, NotFoundError, ReferenceInUseError } from '../types/errors';
+
+describe('TrashService', () => {
+  let trashService: TrashService;
+  let topicService: TopicService;
+  let resourceService: ResourceService;
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+    trashService = new TrashService();
+    topicService = new TopicService();
+    resourceService = new ResourceService();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  describe('delete', () => {
+    it('should move a topic with all its versions to the trash and hide it', async () => {
+      const topic = await topicService.create({ name: 'Old Topic', content: 'v1' });
+      await topicService.update(topic.id, { content: 'v2' });
+
+      const entry = await topicService.delete(topic.id, undefined, TopicDeletePolicy.REJECT, 'admin_1');
+
+      expect(entry).toMatchObject({ id: topic.id, name: 'Old Topic', topicIds: [topic.id], deletedBy: 'admin_1' });
+      expect(await topicService.findById(topic.id)).toBeNull();
+      expect(await topicService.findAll()).toHaveLength(0);
+      expect(await trashService.findAll()).toHaveLength(1);
+    });
+
+    it('should reject deleting a topic with subtopics or resources by default', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'content' });
+      await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      const leaf = await topicService.create({ name: 'Leaf', content: 'content' });
+      await resourceService.create({ topicId: leaf.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+
+      await expect(topicService.delete(parent.id)).rejects.toThrow(ConflictError);
+      await expect(topicService.delete(leaf.id)).rejects.toThrow(ConflictError);
+      expect(await topicService.findById(parent.id)).not.toBeNull();
+    });
+
+    it('should cascade to the whole subtree and its resources', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'content' });
+      const child = await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      const grandchild = await topicService.create({ name: 'Grandchild', content: 'content', parentTopicId: child.id });
+      const resource = await resourceService.create({ topicId: grandchild.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+
+      const entry = await topicService.delete(parent.id, undefined, TopicDeletePolicy.CASCADE);
+
+      expect(entry?.topicIds).toEqual([parent.id, child.id, grandchild.id]);
+      expect(entry?.resourceIds).toEqual([resource.id]);
+      expect(await topicService.findById(grandchild.id)).toBeNull();
+      expect(await resourceService.findById(resource.id)).toBeNull();
+    });
+
+    it('should move children and resources to the grandparent when re-parenting', async () => {
+      const grandparent = await topicService.create({ name: 'Grandparent', content: 'content' });
+      const parent = await topicService.create({ name: 'Parent', content: 'content', parentTopicId: grandparent.id });
+      const child = await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      const resource = await resourceService.create({ topicId: parent.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+
+      const entry = await topicService.delete(parent.id, undefined, TopicDeletePolicy.REPARENT, 'admin_1');
+
+      expect(entry?.topicIds).toEqual([parent.id]);
+      const moved = await topicService.findById(child.id);
+      expect(moved?.parentTopicId).toBe(grandparent.id);
+      expect(moved?.version).toBe(2);
+      expect((await resourceService.findById(resource.id))?.topicId).toBe(grandparent.id);
+      expect((await topicService.validateHierarchy()).isValid).toBe(true);
+    });
+
+    it('should leave everything untouched when re-parenting fails', async () => {
+      const parent = await topicService.create({ name: 'Root', content: 'content' });
+      const child = await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      await resourceService.create({ topicId: parent.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+
+      await expect(topicService.delete(parent.id, undefined, TopicDeletePolicy.REPARENT)).rejects.toThrow(ConflictError);
+
+      expect(await topicService.findById(parent.id)).not.toBeNull();
+      expect((await topicService.findById(child.id))?.version).toBe(1);
+    });
+  });
+
+  describe('TrashRepository', () => {
+    it('should refuse entries that would orphan a subtopic added meanwhile', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'content' });
+      await topicService.create({ name: 'Late Child', content: 'content', parentTopicId: parent.id });
+
+      await expect(new TrashRepository().save(new TrashEntry(parent.id, parent.name))).rejects.toThrow(ReferenceInUseError);
+      expect(await topicService.findById(parent.id)).not.toBeNull();
+    });
+
+    it('should refuse entries that leave a resource added meanwhile behind', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+      await resourceService.create({ topicId: topic.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+
+      await expect(new TrashRepository().save(new TrashEntry(topic.id, topic.name))).rejects.toThrow(ReferenceInUseError);
+      expect(await topicService.findById(topic.id)).not.toBeNull();
+    });
+  });
+
+  describe('restore', () => {
+    it('should bring back the topic, its subtree and resources', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'content' });
+      const child = await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      const resource = await resourceService.create({ topicId: child.id, url: 'https://example.com', description: 'Doc', type: ResourceType.ARTICLE });
+      await topicService.delete(parent.id, undefined, TopicDeletePolicy.CASCADE);
+
+      const restored = await trashService.restore(parent.id);
+
+      expect(restored.id).toBe(parent.id);
+      expect((await topicService.getTopicTree(parent.id)).children.map(tree => tree.topic.id)).toEqual([child.id]);
+      expect(await resourceService.findById(resource.id)).not.toBeNull();
+      expect(await trashService.findAll()).toHaveLength(0);
+    });
+
+    it('should require the old parent to be restored first', async () => {
+      const parent = await topicService.create({ name: 'Parent', content: 'content' });
+      const child = await topicService.create({ name: 'Child', content: 'content', parentTopicId: parent.id });
+      await topicService.delete(child.id);
+      await topicService.delete(parent.id);
+
+      await expect(trashService.restore(child.id)).rejects.toThrow(ConflictError);
+
+      const moved = await trashService.restore(child.id, null);
+      expect(moved.parentTopicId).toBeUndefined();
+      expect(moved.version).toBe(2);
+    });
+
+    it('should throw NotFoundError for topics not in the trash', async () => {
+      await expect(trashService.restore('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('purge', () => {
+    it('should permanently remove a deleted topic', async () => {
+      const topic = await topicService.create({ name: 'Topic', content: 'content' });
+      await topicService.delete(topic.id);
+
+      await trashService.purge(topic.id);
+
+      expect(await trashService.findById(topic.id)).toBeNull();
+      await expect(trashService.restore(topic.id)).rejects.toThrow(NotFoundError);
+      expect(database.exportData().trash.topics).toEqual({});
+    });
+
+    it('should empty the trash', async () => {
+      const first = await topicService.create({ name: 'First', content: 'content' });
+      const second = await topicService.create({ name: 'Second', content: 'content' });
+      await topicService.delete(first.id);
+      await topicService.delete(second.id);
+
+      expect(await trashService.empty()).toBe(2);
+      expect(await trashService.findAll()).toHaveLength(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { UnitOfWork } from '../database/UnitOfWork';
+import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { TrashEntry } from '../models/TrashEntry';
+import { UserRole } from '../interfaces/IUser';
+import { TopicService } from '../services/TopicService';
+import { UserService } from '../services/UserService';
+
+describe('UnitOfWork', () => {
+  let database: InMemoryDatabase;
+
+  beforeEach(() => {
+    database = InMemoryDatabase.getInstance();
+    database.clear();
+  });
+
+  afterEach(() => {
+    database.clear();
+  });
+
+  it('should keep the writes of work that succeeds', async () => {
+    const topic = new Topic('Kept', 'content');
+
+    await UnitOfWork.run(async () => {
+      database.saveTopic(topic);
+    });
+
+    expect(database.findTopicById(topic.id)?.name).toBe('Kept');
+  });
+
+  it('should undo every write of work that throws', async () => {
+    const existing = new Topic('Existing', 'v1');
+    const trashed = new Topic('Trashed', 'content');
+    const user = new User('Ada', 'ada@example.com', UserRole.VIEWER);
+    database.saveTopic(existing);
+    database.saveTopic(trashed);
+    database.saveUser(user);
+
+    await expect(UnitOfWork.run(async () => {
+      database.saveTopic(existing.updateContent(undefined, 'v2'));
+      database.saveTopic(new Topic('Added', 'content'));
+      database.trashTopics(new TrashEntry(trashed.id, trashed.name));
+      database.saveUser(new User('Ada', 'lovelace@example.com', UserRole.VIEWER, user.id));
+      throw new Error('Halfway failure');
+    })).rejects.toThrow('Halfway failure');
+
+    expect(database.findTopicVersions(existing.id).map(version => version.content)).toEqual(['v1']);
+    expect(database.findAllTopics().map(topic => topic.name).sort()).toEqual(['Existing', 'Trashed']);
+    expect(database.findAllTrashEntries()).toEqual([]);
+    expect(database.findUserById(user.id)).toBe(user);
+    expect(database.findUserByEmail('ada@example.com')).toBe(user);
+    expect(database.findUserByEmail('lovelace@example.com')).toBeNull();
+  });
+
+  it('should let work started inside a unit of work join it', async () => {
+    const topic = new Topic('Inner', 'content');
+
+    await expect(UnitOfWork.run(async () => {
+      await UnitOfWork.run(async () => {
+        database.saveTopic(topic);
+      });
+      throw new Error('Outer failure');
+    })).rejects.toThrow('Outer failure');
+
+    expect(database.findTopicById(topic.id)).toBeNull();
+  });
+
+  it('should run units of work one at a time', async () => {
+    const steps: string[] = [];
+    const pause = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    await Promise.all(['first', 'second'].map(name => UnitOfWork.run(async () => {
+      steps.push(`${name} start`);
+      await pause();
+      steps.push(`${name} end`);
+    })));
+
+    expect(steps).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+
+  it('should keep writes made by other callers while a unit of work rolls back', async () => {
+    const users = [
+      { name: 'Ada', email: 'ada@example.com', role: UserRole.VIEWER, password: 'bulk-password' },
+      { name: '', email: 'not-an-email', role: UserRole.VIEWER }
+    ];
+    const bulk = expect(new UserService().bulkCreate(users, undefined, true)).rejects.toThrow();
+    const topic = await new TopicService().create({ name: 'Concurrent', content: 'content' });
+    await bulk;
+
+    expect(database.findTopicById(topic.id)?.name).toBe('Concurrent');
+    expect(database.findUserByEmail('ada@example.com')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { UserService } from '../services/UserService';
 import { InMemoryDatabase } from '../database/InMemoryDatabase';
 import { UserRole } from '../interfaces/IUser';
+import { User } from '../models/User';
+import { TopicService } from '../services/TopicService';
+import { BulkOperationError, ConflictError, ValidationError } from '../types/errors';
 
 describe('UserService', () => {
   let userService: UserService;
@@ -345,6 +348,17 @@ describe('UserService', () => {
       expect(createdUsers).toHaveLength(1);
       expect(createdUsers[0].name).toBe('Valid User');
     });
+
+    it('should import none of the users when an atomic import hits a duplicate email', async () => {
+      const usersData = [
+        { name: 'First', email: 'same@example.com', role: UserRole.VIEWER, password: 'long enough password' },
+        { name: 'Second', email: 'same@example.com', role: UserRole.EDITOR }
+      ];
+
+      await expect(userService.importUsers(usersData, undefined, true)).rejects.toThrow(BulkOperationError);
+
+      expect(await userService.findByEmail('same@example.com')).toBeNull();
+    });
   });
 
   describe('delete', () => {
@@ -369,23 +383,173 @@ describe('UserService', () => {
   });
 
   describe('authenticate', () => {
-    it('should authenticate user by email', async () => {
+    it('should authenticate user with correct password', async () => {
       const user = await userService.create({
         name: 'Test User',
         email: 'test@example.com',
-        role: UserRole.VIEWER
+        role: UserRole.VIEWER,
+        password: 'correct-password'
       });
 
-      const authenticatedUser = await userService.authenticate('test@example.com');
+      const authenticatedUser = await userService.authenticate('test@example.com', 'correct-password');
       
       expect(authenticatedUser).toBeDefined();
       expect(authenticatedUser?.id).toBe(user.id);
       expect(authenticatedUser?.email).toBe('test@example.com');
     });
 
+    it('should return null for wrong password', async () => {
+      await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.ADMIN,
+        password: 'correct-password'
+      });
+
+      const authenticatedUser = await userService.authenticate('test@example.com', 'wrong-password');
+      expect(authenticatedUser).toBeNull();
+    });
+
+    it('should return null for user without a password', async () => {
+      await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.ADMIN
+      });
+
+      const authenticatedUser = await userService.authenticate('test@example.com', 'any-password');
+      expect(authenticatedUser).toBeNull();
+    });
+
     it('should return null for non-existent email', async () => {
-      const authenticatedUser = await userService.authenticate('nonexistent@example.com');
+      const authenticatedUser = await userService.authenticate('nonexistent@example.com', 'any-password');
       expect(authenticatedUser).toBeNull();
     });
+
+    it('should never expose the password hash', async () => {
+      const user = await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.VIEWER,
+        password: 'correct-password'
+      });
+
+      expect(JSON.stringify(user.toJSON())).not.toContain('scrypt');
+      expect(JSON.stringify(user.toSafeJSON())).not.toContain('scrypt');
+      expect(JSON.stringify(await userService.exportUsers())).not.toContain('scrypt');
+    });
+
+    it('should reject passwords that are too short', async () => {
+      await expect(userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.VIEWER,
+        password: 'short'
+      })).rejects.toThrow('Password must be at least 8 characters');
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change password when current password is correct', async () => {
+      const user = await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.VIEWER,
+        password: 'old-password'
+      });
+
+      await userService.changePassword(user.id, 'new-password', 'old-password');
+
+      expect(await userService.authenticate('test@example.com', 'old-password')).toBeNull();
+      expect(await userService.authenticate('test@example.com', 'new-password')).not.toBeNull();
+    });
+
+    it('should reject an incorrect current password', async () => {
+      const user = await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.VIEWER,
+        password: 'old-password'
+      });
+
+      await expect(userService.changePassword(user.id, 'new-password', 'wrong-password'))
+        .rejects.toThrow('Current password is incorrect');
+    });
+
+    it('should set an initial password without a current password', async () => {
+      const user = await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.VIEWER
+      });
+
+      await userService.changePassword(user.id, 'first-password');
+
+      expect(await userService.authenticate('test@example.com', 'first-password')).not.toBeNull();
+    });
+  });
+
+  describe('deactivateUser', () => {
+    let admin: User;
+    let user: User;
+
+    beforeEach(async () => {
+      admin = await userService.create({ name: 'Admin', email: 'admin@example.com', role: UserRole.ADMIN });
+      user = await userService.create({
+        name: 'Test User',
+        email: 'test@example.com',
+        role: UserRole.EDITOR,
+        password: 'test-password'
+      });
+    });
+
+    it('should keep the user but hide them from default listings', async () => {
+      const deactivated = await userService.deactivateUser(user.id, admin.id, 'Left the company');
+
+      expect(deactivated.isActive()).toBe(false);
+      expect(deactivated.deactivatedAt).toBeInstanceOf(Date);
+      expect(deactivated.deactivationReason).toBe('Left the company');
+      expect(await userService.findById(user.id)).not.toBeNull();
+      expect((await userService.findAll()).map(u => u.id)).toEqual([admin.id]);
+      expect(await userService.findAll(true)).toHaveLength(2);
+    });
+
+    it('should reject authentication and existing tokens', async () => {
+      const session = await userService.createSession(user);
+      await userService.deactivateUser(user.id, admin.id);
+
+      await expect(userService.authenticate('test@example.com', 'test-password'))
+        .rejects.toThrow('User account is deactivated');
+      await expect(userService.findByAccessToken(session.accessToken))
+        .rejects.toThrow('User account is deactivated');
+      await expect(userService.refreshSession(session.refreshToken))
+        .rejects.toThrow('User account is deactivated');
+    });
+
+    it('should keep authored topics attributed to the user', async () => {
+      const topicService = new TopicService();
+      const topic = await topicService.create({ name: 'Authored', content: 'Content' }, user.id);
+
+      await userService.deactivateUser(user.id, admin.id);
+
+      const stored = await topicService.findById(topic.id);
+      expect(stored!.createdBy).toBe(user.id);
+      expect((await userService.findById(stored!.createdBy!))!.name).toBe('Test User');
+    });
+
+    it('should reactivate a deactivated user', async () => {
+      await userService.deactivateUser(user.id, admin.id);
+      await expect(userService.deactivateUser(user.id, admin.id)).rejects.toThrow(ConflictError);
+
+      const reactivated = await userService.reactivateUser(user.id, admin.id);
+
+      expect(reactivated.isActive()).toBe(true);
+      expect(reactivated.deactivatedAt).toBeUndefined();
+      expect(await userService.authenticate('test@example.com', 'test-password')).not.toBeNull();
+    });
+
+    it('should not let users deactivate themselves', async () => {
+      await expect(userService.deactivateUser(admin.id, admin.id)).rejects.toThrow(ValidationError);
+    });
   });
 });
\ No newline at end of file
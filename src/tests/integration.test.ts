@@ -1,11 +1,14 @@
 import request from 'supertest';
 import App from '../app';
 import { InMemoryDatabase } from '../database/InMemoryDatabase';
+import { UserService } from '../services/UserService';
+import { RoleName, UserRole } from '../interfaces/IUser';
 
 describe('Integration Tests', () => {
   let app: App;
   let server: any;
   let database: InMemoryDatabase;
+  let authHeader: string;
 
   beforeAll(async () => {
     database = InMemoryDatabase.getInstance();
@@ -13,8 +16,22 @@ describe('Integration Tests', () => {
     server = app.getApp();
   });
 
-  beforeEach(() => {
+  const createSession = async (role: RoleName, email: string) => {
+    const userService = new UserService();
+    const user = await userService.create({
+      name: `Integration ${role}`,
+      email,
+      role,
+      password: 'integration-password'
+    });
+    const session = await userService.createSession(user);
+    return { user, authHeader: `Bearer ${session.accessToken}` };
+  };
+
+  beforeEach(async () => {
     database.clear();
+
+    ({ authHeader } = await createSession(UserRole.ADMIN, 'integration-admin@example.com'));
   });
 
   afterEach(() => {
@@ -31,6 +48,7 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send(topicData)
           .expect(201);
 
@@ -48,12 +66,24 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send(invalidData)
           .expect(400);
 
         expect(response.body.success).toBe(false);
         expect(response.body.error).toBeDefined();
       });
+
+      it('should reject a parent topic that does not exist', async () => {
+        const response = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Orphan', content: 'Test content', parentTopicId: 'missing-topic' })
+          .expect(422);
+
+        expect(response.body.field).toBe('parentTopicId');
+        expect(response.body.message).toBe('Parent topic missing-topic does not exist');
+      });
     });
 
     describe('GET /api/topics', () => {
@@ -61,14 +91,17 @@ describe('Integration Tests', () => {
         // Create test topics first
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Topic 1', content: 'Content 1' });
 
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Topic 2', content: 'Content 2' });
 
         const response = await request(server)
           .get('/api/topics')
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(response.body.success).toBe(true);
@@ -78,14 +111,17 @@ describe('Integration Tests', () => {
       it('should search topics by name', async () => {
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'JavaScript Basics', content: 'JS content' });
 
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Python Basics', content: 'Python content' });
 
         const response = await request(server)
           .get('/api/topics?query=Script')
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(response.body.success).toBe(true);
@@ -99,6 +135,7 @@ describe('Integration Tests', () => {
         // Create initial topic
         const createResponse = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Original Topic', content: 'Original content' });
 
         const topicId = createResponse.body.data.id;
@@ -106,6 +143,7 @@ describe('Integration Tests', () => {
         // Update the topic
         const updateResponse = await request(server)
           .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
           .send({ content: 'Updated content' })
           .expect(200);
 
@@ -113,6 +151,191 @@ describe('Integration Tests', () => {
         expect(updateResponse.body.data.version).toBe(2);
         expect(updateResponse.body.data.content).toBe('Updated content');
       });
+
+      it('should reject stale writes with If-Match or expectedVersion', async () => {
+        const createResponse = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Contended Topic', content: 'Original content' });
+
+        const topicId = createResponse.body.data.id;
+
+        const getResponse = await request(server)
+          .get(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .expect(200);
+        const etag = getResponse.headers.etag;
+        expect(etag).toBe('"v1"');
+
+        const firstUpdate = await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .set('If-Match', etag)
+          .send({ content: 'First edit' })
+          .expect(200);
+        expect(firstUpdate.headers.etag).toBe('"v2"');
+
+        const staleUpdate = await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .set('If-Match', etag)
+          .send({ content: 'Second edit' })
+          .expect(412);
+        expect(staleUpdate.body.currentVersion).toBe(2);
+        expect(staleUpdate.headers.etag).toBe('"v2"');
+
+        const staleMove = await request(server)
+          .post(`/api/topics/${topicId}/move`)
+          .set('Authorization', authHeader)
+          .send({ newParentId: null, expectedVersion: 1 })
+          .expect(409);
+        expect(staleMove.body.currentVersion).toBe(2);
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'Second edit', expectedVersion: 'latest' })
+          .expect(400);
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'Second edit', expectedVersion: 2 })
+          .expect(200);
+      });
+
+      it('should merge stale edits sent with expectedVersion', async () => {
+        const createResponse = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Shared Topic', content: 'first\nsecond\nthird' });
+
+        const topicId = createResponse.body.data.id;
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'FIRST\nsecond\nthird', expectedVersion: 1 })
+          .expect(200);
+
+        const mergeResponse = await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'first\nsecond\nTHIRD', expectedVersion: 1 })
+          .expect(200);
+        expect(mergeResponse.body.data.version).toBe(3);
+        expect(mergeResponse.body.data.content).toBe('FIRST\nsecond\nTHIRD');
+
+        const conflictResponse = await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'first\nsecond\nthird!', expectedVersion: 1 })
+          .expect(409);
+        expect(conflictResponse.body.currentVersion).toBe(3);
+        expect(conflictResponse.body.baseVersion).toBe(1);
+        expect(conflictResponse.body.conflicts.hunks).toHaveLength(1);
+        expect(conflictResponse.body.conflicts.content).toContain('<<<<<<< version 3');
+      });
+
+      it('should expose version metadata in the versions listing', async () => {
+        const createResponse = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Audited Topic', content: 'Original content' });
+
+        const topicId = createResponse.body.data.id;
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'Updated content', changeMessage: 'Expand content' })
+          .expect(200);
+
+        const versionsResponse = await request(server)
+          .get(`/api/topics/${topicId}/versions`)
+          .set('Authorization', authHeader)
+          .expect(200);
+
+        const [first, second] = versionsResponse.body.data;
+        expect(second.changeMessage).toBe('Expand content');
+        expect(second.authorId).toBe(first.authorId);
+        expect(second.authorId).toBeDefined();
+        expect(second.topicCreatedAt).toBe(first.createdAt);
+      });
+    });
+
+    describe('GET /api/topics/:id/versions/:a/diff/:b', () => {
+      it('should diff two versions as JSON or unified text', async () => {
+        const createResponse = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Diffed Topic', content: 'Original content' });
+
+        const topicId = createResponse.body.data.id;
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'Updated content' })
+          .expect(200);
+
+        const diffResponse = await request(server)
+          .get(`/api/topics/${topicId}/versions/1/diff/2`)
+          .set('Authorization', authHeader)
+          .expect(200);
+
+        expect(diffResponse.body.success).toBe(true);
+        expect(diffResponse.body.data.fields).toEqual([]);
+        expect(diffResponse.body.data.content.stats.modified).toBe(1);
+
+        const unifiedResponse = await request(server)
+          .get(`/api/topics/${topicId}/versions/1/diff/2?format=unified`)
+          .set('Authorization', authHeader)
+          .expect('Content-Type', /text\/plain/)
+          .expect(200);
+
+        expect(unifiedResponse.text).toContain('-Original content\n+Updated content');
+
+        await request(server)
+          .get(`/api/topics/${topicId}/versions/1/diff/3`)
+          .set('Authorization', authHeader)
+          .expect(404);
+
+        await request(server)
+          .get(`/api/topics/${topicId}/versions/0/diff/2`)
+          .set('Authorization', authHeader)
+          .expect(400);
+      });
+    });
+
+    describe('POST /api/topics/:id/versions/:version/restore', () => {
+      it('should restore a previous version as a new version', async () => {
+        const createResponse = await request(server)
+          .post('/api/topics')
+          .set('Authorization', authHeader)
+          .send({ name: 'Restored Topic', content: 'Good content' });
+
+        const topicId = createResponse.body.data.id;
+
+        await request(server)
+          .put(`/api/topics/${topicId}`)
+          .set('Authorization', authHeader)
+          .send({ content: 'Bad content' })
+          .expect(200);
+
+        const restoreResponse = await request(server)
+          .post(`/api/topics/${topicId}/versions/1/restore`)
+          .set('Authorization', authHeader)
+          .expect(200);
+
+        expect(restoreResponse.body.data.version).toBe(3);
+        expect(restoreResponse.body.data.content).toBe('Good content');
+
+        await request(server)
+          .post(`/api/topics/${topicId}/versions/9/restore`)
+          .set('Authorization', authHeader)
+          .expect(404);
+      });
     });
 
     describe('GET /api/topics/:id/tree', () => {
@@ -120,6 +343,7 @@ describe('Integration Tests', () => {
         // Create parent topic
         const parentResponse = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Parent Topic', content: 'Parent content' });
 
         const parentId = parentResponse.body.data.id;
@@ -127,6 +351,7 @@ describe('Integration Tests', () => {
         // Create child topics
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({
             name: 'Child Topic 1',
             content: 'Child content 1',
@@ -135,6 +360,7 @@ describe('Integration Tests', () => {
 
         await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({
             name: 'Child Topic 2',
             content: 'Child content 2',
@@ -143,6 +369,7 @@ describe('Integration Tests', () => {
 
         const treeResponse = await request(server)
           .get(`/api/topics/${parentId}/tree`)
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(treeResponse.body.success).toBe(true);
@@ -156,12 +383,14 @@ describe('Integration Tests', () => {
         // Create topic hierarchy: A -> B -> C
         const topicAResponse = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Topic A', content: 'Content A' });
 
         const topicAId = topicAResponse.body.data.id;
 
         const topicBResponse = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({
             name: 'Topic B',
             content: 'Content B',
@@ -172,6 +401,7 @@ describe('Integration Tests', () => {
 
         const topicCResponse = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({
             name: 'Topic C',
             content: 'Content C',
@@ -182,6 +412,7 @@ describe('Integration Tests', () => {
 
         const pathResponse = await request(server)
           .get(`/api/topics/path?from=${topicAId}&to=${topicCId}`)
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(pathResponse.body.success).toBe(true);
@@ -200,6 +431,7 @@ describe('Integration Tests', () => {
       // Create a topic for resource tests
       const topicResponse = await request(server)
         .post('/api/topics')
+        .set('Authorization', authHeader)
         .send({ name: 'Test Topic', content: 'Test content' });
       topicId = topicResponse.body.data.id;
     });
@@ -215,6 +447,7 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .post('/api/resources')
+          .set('Authorization', authHeader)
           .send(resourceData)
           .expect(201);
 
@@ -223,6 +456,16 @@ describe('Integration Tests', () => {
         expect(response.body.data.url).toBe(resourceData.url);
         expect(response.body.data.type).toBe(resourceData.type);
       });
+
+      it('should reject a topic that does not exist', async () => {
+        const response = await request(server)
+          .post('/api/resources')
+          .set('Authorization', authHeader)
+          .send({ topicId: 'missing-topic', url: 'https://example.com/resource', description: 'Test resource', type: 'article' })
+          .expect(422);
+
+        expect(response.body.error).toBe('Topic missing-topic does not exist');
+      });
     });
 
     describe('GET /api/resources', () => {
@@ -230,6 +473,7 @@ describe('Integration Tests', () => {
         // Create test resources
         await request(server)
           .post('/api/resources')
+          .set('Authorization', authHeader)
           .send({
             topicId,
             url: 'https://example.com/resource1',
@@ -239,6 +483,7 @@ describe('Integration Tests', () => {
 
         await request(server)
           .post('/api/resources')
+          .set('Authorization', authHeader)
           .send({
             topicId,
             url: 'https://example.com/resource2',
@@ -248,6 +493,7 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .get('/api/resources')
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(response.body.success).toBe(true);
@@ -258,12 +504,14 @@ describe('Integration Tests', () => {
         // Create another topic
         const topic2Response = await request(server)
           .post('/api/topics')
+          .set('Authorization', authHeader)
           .send({ name: 'Topic 2', content: 'Content 2' });
         const topic2Id = topic2Response.body.data.id;
 
         // Create resources for different topics
         await request(server)
           .post('/api/resources')
+          .set('Authorization', authHeader)
           .send({
             topicId,
             url: 'https://example.com/resource1',
@@ -273,6 +521,7 @@ describe('Integration Tests', () => {
 
         await request(server)
           .post('/api/resources')
+          .set('Authorization', authHeader)
           .send({
             topicId: topic2Id,
             url: 'https://example.com/resource2',
@@ -282,6 +531,7 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .get(`/api/resources?topicId=${topicId}`)
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(response.body.success).toBe(true);
@@ -289,6 +539,26 @@ describe('Integration Tests', () => {
         expect(response.body.data[0].topicId).toBe(topicId);
       });
     });
+
+    describe('POST /api/resources/bulk', () => {
+      it('should create none of the resources when an atomic request has an invalid one', async () => {
+        const response = await request(server)
+          .post('/api/resources/bulk')
+          .set('Authorization', authHeader)
+          .send({
+            atomic: true,
+            resources: [
+              { topicId, url: 'https://example.com/valid', description: 'Valid', type: 'article' },
+              { topicId, url: 'invalid-url', description: 'Invalid', type: 'article' }
+            ]
+          })
+          .expect(400);
+
+        expect(response.body.index).toBe(1);
+        expect(response.body.message).toContain('nothing was saved');
+        expect(database.findResourcesByTopicId(topicId)).toHaveLength(0);
+      });
+    });
   });
 
   describe('User API Integration', () => {
@@ -302,6 +572,7 @@ describe('Integration Tests', () => {
 
         const response = await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send(userData)
           .expect(201);
 
@@ -321,12 +592,14 @@ describe('Integration Tests', () => {
         // Create first user
         await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send(userData)
           .expect(201);
 
         // Try to create second user with same email
         const response = await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send({ ...userData, name: 'Different Name' })
           .expect(409);
 
@@ -335,45 +608,802 @@ describe('Integration Tests', () => {
       });
     });
 
+    describe('POST /api/users/authenticate', () => {
+      it('should authenticate with the correct password', async () => {
+        await request(server)
+          .post('/api/users')
+          .set('Authorization', authHeader)
+          .send({ name: 'Auth User', email: 'auth@example.com', role: 'Admin', password: 'correct-password' })
+          .expect(201);
+
+        const response = await request(server)
+          .post('/api/users/authenticate')
+          .send({ email: 'auth@example.com', password: 'correct-password' })
+          .expect(200);
+
+        expect(response.body.success).toBe(true);
+        expect(response.body.data.user.email).toBe('auth@example.com');
+        expect(response.body.data.user.passwordHash).toBeUndefined();
+        expect(response.body.data.accessToken).toBeDefined();
+        expect(response.body.data.refreshToken).toBeDefined();
+      });
+
+      it('should reject a wrong password', async () => {
+        await request(server)
+          .post('/api/users')
+          .set('Authorization', authHeader)
+          .send({ name: 'Auth User', email: 'auth@example.com', role: 'Admin', password: 'correct-password' })
+          .expect(201);
+
+        await request(server)
+          .post('/api/users/authenticate')
+          .send({ email: 'auth@example.com', password: 'wrong-password' })
+          .expect(401);
+      });
+    });
+
     describe('GET /api/users', () => {
       it('should retrieve all users', async () => {
         // Create test users
         await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send({ name: 'User 1', email: 'user1@example.com', role: 'Admin' });
 
         await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send({ name: 'User 2', email: 'user2@example.com', role: 'Editor' });
 
         const response = await request(server)
           .get('/api/users')
+          .set('Authorization', authHeader)
           .expect(200);
 
+        // Includes the authenticated admin created in beforeEach
         expect(response.body.success).toBe(true);
-        expect(response.body.data).toHaveLength(2);
+        expect(response.body.data).toHaveLength(3);
       });
 
       it('should filter users by role', async () => {
         await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send({ name: 'Admin User', email: 'admin@example.com', role: 'Admin' });
 
         await request(server)
           .post('/api/users')
+          .set('Authorization', authHeader)
           .send({ name: 'Editor User', email: 'editor@example.com', role: 'Editor' });
 
         const response = await request(server)
           .get('/api/users?role=Admin')
+          .set('Authorization', authHeader)
           .expect(200);
 
         expect(response.body.success).toBe(true);
-        expect(response.body.data).toHaveLength(1);
-        expect(response.body.data[0].role).toBe('Admin');
+        expect(response.body.data).toHaveLength(2);
+        expect(response.body.data.every((user: any) => user.role === 'Admin')).toBe(true);
       });
     });
   });
 
+  describe('Authentication', () => {
+    const login = async () => {
+      const response = await request(server)
+        .post('/api/users/authenticate')
+        .send({ email: 'integration-admin@example.com', password: 'integration-password' })
+        .expect(200);
+      return response.body.data;
+    };
+
+    it('should reject requests without a token', async () => {
+      const response = await request(server)
+        .get('/api/topics')
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should reject requests with a tampered token', async () => {
+      const { accessToken } = await login();
+
+      await request(server)
+        .get('/api/topics')
+        .set('Authorization', `Bearer ${accessToken}x`)
+        .expect(401);
+    });
+
+    it('should reject a refresh token used as an access token', async () => {
+      const { refreshToken } = await login();
+
+      await request(server)
+        .get('/api/topics')
+        .set('Authorization', `Bearer ${refreshToken}`)
+        .expect(401);
+    });
+
+    it('should rotate refresh tokens', async () => {
+      const { refreshToken } = await login();
+
+      const response = await request(server)
+        .post('/api/users/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.data.user.email).toBe('integration-admin@example.com');
+
+      await request(server)
+        .get('/api/topics')
+        .set('Authorization', `Bearer ${response.body.data.accessToken}`)
+        .expect(200);
+
+      // The old refresh token is single-use
+      await request(server)
+        .post('/api/users/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should revoke refresh tokens on logout', async () => {
+      const { refreshToken } = await login();
+
+      await request(server)
+        .post('/api/users/logout')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(server)
+        .post('/api/users/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('Authorization', () => {
+    let editorHeader: string;
+    let viewerHeader: string;
+    let viewerId: string;
+    let topicId: string;
+
+    beforeEach(async () => {
+      ({ authHeader: editorHeader } = await createSession(UserRole.EDITOR, 'editor@example.com'));
+      const viewer = await createSession(UserRole.VIEWER, 'viewer@example.com');
+      viewerHeader = viewer.authHeader;
+      viewerId = viewer.user.id;
+
+      const topicResponse = await request(server)
+        .post('/api/topics')
+        .set('Authorization', authHeader)
+        .send({ name: 'Guarded Topic', content: 'Guarded content' });
+      topicId = topicResponse.body.data.id;
+      await request(server).post(`/api/topics/${topicId}/submit`).set('Authorization', authHeader).expect(200);
+      await request(server).post(`/api/topics/${topicId}/approve`).set('Authorization', authHeader).expect(200);
+    });
+
+    it('should let viewers read topics', async () => {
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+    });
+
+    it('should forbid viewers from writing topics and resources', async () => {
+      const topicResponse = await request(server)
+        .post('/api/topics')
+        .set('Authorization', viewerHeader)
+        .send({ name: 'Viewer Topic', content: 'Not allowed' })
+        .expect(403);
+
+      expect(topicResponse.body.success).toBe(false);
+      expect(topicResponse.body.error).toBe('ForbiddenError');
+
+      await request(server)
+        .put(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .send({ content: 'Not allowed' })
+        .expect(403);
+
+      await request(server)
+        .post('/api/resources')
+        .set('Authorization', viewerHeader)
+        .send({ topicId, url: 'https://example.com', description: 'Not allowed', type: 'article' })
+        .expect(403);
+    });
+
+    it('should let editors update but not delete topics', async () => {
+      await request(server)
+        .put(`/api/topics/${topicId}`)
+        .set('Authorization', editorHeader)
+        .send({ content: 'Edited content' })
+        .expect(200);
+
+      await request(server)
+        .delete(`/api/topics/${topicId}`)
+        .set('Authorization', editorHeader)
+        .expect(403);
+    });
+
+    it('should let admins restore and purge deleted topics', async () => {
+      await request(server)
+        .delete(`/api/topics/${topicId}?policy=orphan`)
+        .set('Authorization', authHeader)
+        .expect(400);
+
+      await request(server)
+        .delete(`/api/topics/${topicId}`)
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', authHeader)
+        .expect(404);
+
+      await request(server)
+        .get('/api/trash')
+        .set('Authorization', editorHeader)
+        .expect(403);
+
+      const trashResponse = await request(server)
+        .get('/api/trash')
+        .set('Authorization', authHeader)
+        .expect(200);
+      expect(trashResponse.body.data.map((entry: { id: string }) => entry.id)).toEqual([topicId]);
+
+      await request(server)
+        .post(`/api/trash/${topicId}/restore`)
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+
+      await request(server)
+        .delete(`/api/topics/${topicId}`)
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      await request(server)
+        .delete(`/api/trash/${topicId}`)
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      await request(server)
+        .post(`/api/trash/${topicId}/restore`)
+        .set('Authorization', authHeader)
+        .expect(404);
+    });
+
+    it('should publish edits only after review', async () => {
+      await request(server)
+        .put(`/api/topics/${topicId}`)
+        .set('Authorization', editorHeader)
+        .send({ content: 'Draft content' })
+        .expect(200);
+
+      await request(server)
+        .post(`/api/topics/${topicId}/submit`)
+        .set('Authorization', editorHeader)
+        .expect(200);
+
+      await request(server)
+        .post(`/api/topics/${topicId}/approve`)
+        .set('Authorization', editorHeader)
+        .expect(403);
+
+      const viewerResponse = await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+      expect(viewerResponse.body.data.content).toBe('Guarded content');
+
+      const editorResponse = await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', editorHeader)
+        .expect(200);
+      expect(editorResponse.body.data.content).toBe('Draft content');
+      expect(editorResponse.body.data.status).toBe('in_review');
+
+      await request(server)
+        .post(`/api/topics/${topicId}/reject`)
+        .set('Authorization', authHeader)
+        .send({})
+        .expect(400);
+
+      const rejectResponse = await request(server)
+        .post(`/api/topics/${topicId}/reject`)
+        .set('Authorization', authHeader)
+        .send({ comment: 'Needs sources' })
+        .expect(200);
+      expect(rejectResponse.body.data.status).toBe('draft');
+    });
+
+    it('should let publishers schedule and cancel actions', async () => {
+      const runAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+      await request(server)
+        .post(`/api/topics/${topicId}/schedule`)
+        .set('Authorization', editorHeader)
+        .send({ action: 'expire', runAt })
+        .expect(403);
+
+      const scheduleResponse = await request(server)
+        .post(`/api/topics/${topicId}/schedule`)
+        .set('Authorization', authHeader)
+        .send({ action: 'expire', runAt })
+        .expect(201);
+      const actionId = scheduleResponse.body.data.id;
+      expect(scheduleResponse.body.data).toMatchObject({ version: 1, status: 'pending' });
+
+      const topicSchedule = await request(server)
+        .get(`/api/topics/${topicId}/schedule`)
+        .set('Authorization', editorHeader)
+        .expect(200);
+      expect(topicSchedule.body.data.map((action: { id: string }) => action.id)).toEqual([actionId]);
+
+      await request(server)
+        .post(`/api/topics/${topicId}/schedule`)
+        .set('Authorization', authHeader)
+        .send({ action: 'unpublish', runAt })
+        .expect(400);
+
+      const cancelResponse = await request(server)
+        .post(`/api/schedule/${actionId}/cancel`)
+        .set('Authorization', authHeader)
+        .expect(200);
+      expect(cancelResponse.body.data.status).toBe('cancelled');
+
+      const pending = await request(server)
+        .get('/api/schedule?status=pending')
+        .set('Authorization', authHeader)
+        .expect(200);
+      expect(pending.body.count).toBe(0);
+    });
+
+    it('should let editors delete only the resources they created', async () => {
+      const resourceData = { topicId, url: 'https://example.com/doc', description: 'Doc', type: 'article' };
+
+      const ownResponse = await request(server)
+        .post('/api/resources')
+        .set('Authorization', editorHeader)
+        .send(resourceData)
+        .expect(201);
+
+      const foreignResponse = await request(server)
+        .post('/api/resources')
+        .set('Authorization', authHeader)
+        .send(resourceData)
+        .expect(201);
+
+      await request(server)
+        .delete(`/api/resources/${foreignResponse.body.data.id}`)
+        .set('Authorization', editorHeader)
+        .expect(403);
+
+      await request(server)
+        .delete(`/api/resources/${ownResponse.body.data.id}`)
+        .set('Authorization', editorHeader)
+        .expect(200);
+    });
+
+    it('should restrict user management to admins', async () => {
+      await request(server)
+        .get('/api/users')
+        .set('Authorization', editorHeader)
+        .expect(403);
+
+      await request(server)
+        .post('/api/users')
+        .set('Authorization', viewerHeader)
+        .send({ name: 'Sneaky', email: 'sneaky@example.com', role: 'Admin' })
+        .expect(403);
+    });
+
+    it('should resolve topics by slug within their access control lists', async () => {
+      const response = await request(server)
+        .get('/api/topics/by-slug/guarded-topic')
+        .set('Authorization', viewerHeader)
+        .expect(200);
+      expect(response.body.data.id).toBe(topicId);
+
+      await request(server)
+        .put(`/api/topics/${topicId}/acl`)
+        .set('Authorization', authHeader)
+        .send({ entries: [{ principalType: 'user', principalId: viewerId, level: 'read' }] })
+        .expect(200);
+
+      await request(server)
+        .get('/api/topics/by-slug/guarded-topic')
+        .set('Authorization', editorHeader)
+        .expect(404);
+
+      await request(server)
+        .post('/api/topics')
+        .set('Authorization', authHeader)
+        .send({ name: 'Another Topic', content: 'content', slug: 'guarded-topic' })
+        .expect(409);
+    });
+
+    it('should enforce topic access control lists', async () => {
+      await request(server)
+        .put(`/api/topics/${topicId}/acl`)
+        .set('Authorization', editorHeader)
+        .send({ entries: [] })
+        .expect(403);
+
+      const aclResponse = await request(server)
+        .put(`/api/topics/${topicId}/acl`)
+        .set('Authorization', authHeader)
+        .send({ entries: [{ principalType: 'user', principalId: viewerId, level: 'read' }] })
+        .expect(200);
+
+      expect(aclResponse.body.data.effective.sourceTopicId).toBe(topicId);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', editorHeader)
+        .expect(404);
+
+      await request(server)
+        .post('/api/topics')
+        .set('Authorization', editorHeader)
+        .send({ name: 'Hidden Child', content: 'Not allowed', parentTopicId: topicId })
+        .expect(404);
+
+      const listResponse = await request(server)
+        .get('/api/topics')
+        .set('Authorization', editorHeader)
+        .expect(200);
+
+      expect(listResponse.body.count).toBe(0);
+    });
+
+    it('should require write access on every subtopic a cascading delete trashes', async () => {
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'Pruner', permissions: { topic: ['read', 'write', 'delete'] } })
+        .expect(201);
+      const pruner = await createSession('Pruner', 'pruner@example.com');
+
+      const childResponse = await request(server)
+        .post('/api/topics')
+        .set('Authorization', authHeader)
+        .send({ name: 'Protected Child', content: 'content', parentTopicId: topicId })
+        .expect(201);
+      const childId = childResponse.body.data.id;
+      await request(server)
+        .put(`/api/topics/${childId}/acl`)
+        .set('Authorization', authHeader)
+        .send({ entries: [{ principalType: 'user', principalId: pruner.user.id, level: 'read' }] })
+        .expect(200);
+
+      const response = await request(server)
+        .delete(`/api/topics/${topicId}?policy=cascade`)
+        .set('Authorization', pruner.authHeader)
+        .expect(403);
+      expect(response.body.message).toContain(childId);
+
+      await request(server).get(`/api/topics/${topicId}`).set('Authorization', authHeader).expect(200);
+      await request(server).get(`/api/topics/${childId}`).set('Authorization', authHeader).expect(200);
+
+      await request(server)
+        .put(`/api/topics/${childId}/acl`)
+        .set('Authorization', authHeader)
+        .send({ entries: [{ principalType: 'user', principalId: pruner.user.id, level: 'write' }] })
+        .expect(200);
+      await request(server)
+        .delete(`/api/topics/${topicId}?policy=cascade`)
+        .set('Authorization', pruner.authHeader)
+        .expect(200);
+    });
+
+    it('should enforce topic access control lists on resources', async () => {
+      const writer = await createSession(UserRole.EDITOR, 'resource-editor@example.com');
+      const resourceResponse = await request(server)
+        .post('/api/resources')
+        .set('Authorization', writer.authHeader)
+        .send({ topicId, url: 'https://example.com/guarded', description: 'Guarded resource', type: 'article' })
+        .expect(201);
+      const resourceId = resourceResponse.body.data.id;
+
+      await request(server)
+        .put(`/api/topics/${topicId}/acl`)
+        .set('Authorization', authHeader)
+        .send({ entries: [{ principalType: 'user', principalId: writer.user.id, level: 'read' }] })
+        .expect(200);
+
+      await request(server)
+        .put(`/api/resources/${resourceId}`)
+        .set('Authorization', writer.authHeader)
+        .send({ description: 'Edited without write access' })
+        .expect(403);
+      await request(server)
+        .delete(`/api/resources/${resourceId}`)
+        .set('Authorization', writer.authHeader)
+        .expect(403);
+
+      const resource = { topicId, url: 'https://example.com/more', description: 'More', type: 'article' };
+      const bulkResponse = await request(server)
+        .post('/api/resources/bulk')
+        .set('Authorization', writer.authHeader)
+        .send({ resources: [resource] })
+        .expect(201);
+      expect(bulkResponse.body.count).toBe(0);
+
+      const importResponse = await request(server)
+        .post('/api/resources/import')
+        .set('Authorization', writer.authHeader)
+        .send({ resources: [resource], atomic: true })
+        .expect(400);
+      expect(importResponse.body.index).toBe(0);
+
+      for (const path of ['/api/resources', '/api/resources/type/article', '/api/resources/search?pattern=guarded']) {
+        const response = await request(server).get(path).set('Authorization', editorHeader).expect(200);
+        expect(response.body.count).toBe(0);
+      }
+      await request(server).get(`/api/resources/${resourceId}`).set('Authorization', editorHeader).expect(404);
+
+      const writerList = await request(server).get('/api/resources').set('Authorization', writer.authHeader).expect(200);
+      expect(writerList.body.count).toBe(1);
+    });
+
+    it('should let admins define custom roles that grant permissions', async () => {
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', editorHeader)
+        .send({ name: 'Contributor', permissions: { topic: ['read', 'write'] } })
+        .expect(403);
+
+      const roleResponse = await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'Contributor', permissions: { topic: ['read', 'write'] } })
+        .expect(201);
+
+      expect(roleResponse.body.data.name).toBe('Contributor');
+
+      const contributor = await createSession('Contributor', 'contributor@example.com');
+
+      await request(server)
+        .put(`/api/topics/${topicId}`)
+        .set('Authorization', contributor.authHeader)
+        .send({ content: 'Contributed content' })
+        .expect(200);
+
+      await request(server)
+        .get('/api/resources')
+        .set('Authorization', contributor.authHeader)
+        .expect(403);
+    });
+
+    it('should only let holders of role:manage manage roles', async () => {
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'User Manager', permissions: { user: ['read', 'write', 'manage'] } })
+        .expect(201);
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'Role Manager', permissions: { role: ['manage'] } })
+        .expect(201);
+
+      const userManager = await createSession('User Manager', 'user-manager@example.com');
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', userManager.authHeader)
+        .send({ name: 'Everything', permissions: { topic: ['read', 'write', 'delete', 'publish'] } })
+        .expect(403);
+
+      const roleManager = await createSession('Role Manager', 'role-manager@example.com');
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', roleManager.authHeader)
+        .send({ name: 'Reader', permissions: { topic: ['read'] } })
+        .expect(201);
+    });
+
+    it('should report permissions granted through groups', async () => {
+      await request(server)
+        .post('/api/groups')
+        .set('Authorization', editorHeader)
+        .send({ name: 'Writers' })
+        .expect(403);
+
+      await request(server)
+        .post('/api/groups')
+        .set('Authorization', authHeader)
+        .send({ name: 'Writers', permissions: { topic: ['write'] }, memberIds: [viewerId] })
+        .expect(201);
+
+      const response = await request(server)
+        .get(`/api/users/${viewerId}/permissions`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+
+      expect(response.body.data.groups).toHaveLength(1);
+      expect(response.body.data.permissions.canWriteTopics).toBe(true);
+
+      await request(server)
+        .put(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .send({ content: 'Written by a group member' })
+        .expect(200);
+    });
+
+    it('should only let holders of group:manage manage groups', async () => {
+      const groupResponse = await request(server)
+        .post('/api/groups')
+        .set('Authorization', authHeader)
+        .send({ name: 'Publishers', permissions: { topic: ['delete', 'publish'] } })
+        .expect(201);
+      const groupId = groupResponse.body.data.id;
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'User Manager', permissions: { user: ['read', 'write', 'manage'] } })
+        .expect(201);
+
+      const userManager = await createSession('User Manager', 'user-manager@example.com');
+      await request(server)
+        .post(`/api/groups/${groupId}/members`)
+        .set('Authorization', userManager.authHeader)
+        .send({ userId: userManager.user.id })
+        .expect(403);
+      await request(server)
+        .post('/api/groups')
+        .set('Authorization', userManager.authHeader)
+        .send({ name: 'Deleters', permissions: { topic: ['delete'] }, memberIds: [userManager.user.id] })
+        .expect(403);
+
+      const permissions = await request(server)
+        .get(`/api/users/${userManager.user.id}/permissions`)
+        .set('Authorization', userManager.authHeader)
+        .expect(200);
+      expect(permissions.body.data.groups).toHaveLength(0);
+      expect(permissions.body.data.permissions.canPublishTopics).toBe(false);
+    });
+
+    it('should only let admins reset another user\'s password', async () => {
+      const adminId = (await new UserService().findByEmail('integration-admin@example.com'))!.id;
+      await request(server)
+        .post('/api/roles')
+        .set('Authorization', authHeader)
+        .send({ name: 'User Manager', permissions: { user: ['read', 'write', 'manage'] } })
+        .expect(201);
+      const userManager = await createSession('User Manager', 'user-manager@example.com');
+
+      const response = await request(server)
+        .post(`/api/users/${adminId}/password`)
+        .set('Authorization', userManager.authHeader)
+        .send({ newPassword: 'taken-over-password' })
+        .expect(403);
+      expect(response.body.error).toBe('ForbiddenError');
+
+      await request(server)
+        .post('/api/users/authenticate')
+        .send({ email: 'integration-admin@example.com', password: 'integration-password' })
+        .expect(200);
+
+      await request(server)
+        .post(`/api/users/${viewerId}/password`)
+        .set('Authorization', authHeader)
+        .send({ newPassword: 'reset-by-admin' })
+        .expect(200);
+    });
+
+    it('should lock out deactivated users until they are reactivated', async () => {
+      await request(server)
+        .post(`/api/users/${viewerId}/deactivate`)
+        .set('Authorization', authHeader)
+        .send({ reason: 'Left the company' })
+        .expect(200);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(401);
+
+      const listResponse = await request(server)
+        .get('/api/users')
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      expect(listResponse.body.data.some((user: { id: string }) => user.id === viewerId)).toBe(false);
+
+      await request(server)
+        .post(`/api/users/${viewerId}/reactivate`)
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/topics/${topicId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+    });
+
+    it('should let users read their own account', async () => {
+      const response = await request(server)
+        .get(`/api/users/${viewerId}`)
+        .set('Authorization', viewerHeader)
+        .expect(200);
+
+      expect(response.body.data.id).toBe(viewerId);
+    });
+  });
+
+  describe('Admin API Integration', () => {
+    it('should back up, dry-run and restore the database', async () => {
+      const topicResponse = await request(server)
+        .post('/api/topics')
+        .set('Authorization', authHeader)
+        .send({ name: 'Backed Up Topic', content: 'Backed up content' });
+      const topicId = topicResponse.body.data.id;
+
+      const backupResponse = await request(server)
+        .get('/api/admin/backup')
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      expect(backupResponse.headers['content-disposition']).toMatch(/^attachment; filename="knowledge-base-.+\.json"$/);
+      expect(backupResponse.body.data.topics[topicId]).toHaveLength(1);
+
+      await request(server).delete(`/api/topics/${topicId}`).set('Authorization', authHeader).expect(200);
+
+      const dryRunResponse = await request(server)
+        .post('/api/admin/restore?dryRun=true')
+        .set('Authorization', authHeader)
+        .send(backupResponse.body)
+        .expect(200);
+
+      expect(dryRunResponse.body.data.changes.topics.added).toEqual([topicId]);
+      await request(server).get(`/api/topics/${topicId}`).set('Authorization', authHeader).expect(404);
+
+      await request(server)
+        .post('/api/admin/restore')
+        .set('Authorization', authHeader)
+        .send(backupResponse.body)
+        .expect(200);
+
+      await request(server).get(`/api/topics/${topicId}`).set('Authorization', authHeader).expect(200);
+    });
+
+    it('should reject a backup that was edited', async () => {
+      const backupResponse = await request(server)
+        .get('/api/admin/backup')
+        .set('Authorization', authHeader)
+        .expect(200);
+
+      const response = await request(server)
+        .post('/api/admin/restore')
+        .set('Authorization', authHeader)
+        .send({ ...backupResponse.body, data: { ...backupResponse.body.data, users: [] } })
+        .expect(400);
+
+      expect(response.body.message).toContain('checksum');
+    });
+
+    it('should forbid non-admins', async () => {
+      const { authHeader: editorHeader } = await createSession(UserRole.EDITOR, 'backup-editor@example.com');
+
+      const response = await request(server)
+        .get('/api/admin/backup')
+        .set('Authorization', editorHeader)
+        .expect(403);
+
+      expect(response.body.error).toBe('ForbiddenError');
+    });
+  });
+
   describe('Health Check', () => {
     it('should return health status', async () => {
       const response = await request(server)
@@ -399,6 +1429,7 @@ describe('Integration Tests', () => {
     it('should return 404 for non-existent topic', async () => {
       const response = await request(server)
         .get('/api/topics/non-existent-id')
+        .set('Authorization', authHeader)
         .expect(404);
 
       expect(response.body.success).toBe(false);
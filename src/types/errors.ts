@@ -1,3 +1,5 @@
+import { ITopicMergeConflict } from '../interfaces/ITopic';
+
 export class AppError extends Error {
   public readonly statusCode: number;
   public readonly details?: any;
@@ -13,6 +15,7 @@ export class AppError extends Error {
     this.statusCode = statusCode;
     this.details = details;
     this.isOperational = isOperational;
+    this.name = this.constructor.name;
 
     // Maintains proper stack trace for where our error was thrown
     Error.captureStackTrace(this, this.constructor);
@@ -25,6 +28,15 @@ export class ValidationError extends AppError {
   }
 }
 
+export class BulkOperationError extends ValidationError {
+  public readonly index: number;
+
+  constructor(index: number, reason: string) {
+    super(`Item at index ${index} failed: ${reason}; nothing was saved`, { index });
+    this.index = index;
+  }
+}
+
 export class NotFoundError extends AppError {
   constructor(resource: string = 'Resource') {
     super(`${resource} not found`, 404);
@@ -47,4 +59,42 @@ export class ConflictError extends AppError {
   constructor(message: string = 'Resource conflict') {
     super(message, 409);
   }
+}
+
+export class VersionConflictError extends ConflictError {
+  public readonly currentVersion: number;
+
+  constructor(currentVersion: number, message?: string) {
+    super(message || `Topic has been modified since it was read (current version is ${currentVersion})`);
+    this.currentVersion = currentVersion;
+  }
+}
+
+export class MergeConflictError extends VersionConflictError {
+  public readonly conflict: ITopicMergeConflict;
+
+  constructor(conflict: ITopicMergeConflict) {
+    super(
+      conflict.currentVersion,
+      `Changes based on version ${conflict.baseVersion} conflict with version ${conflict.currentVersion}`
+    );
+    this.conflict = conflict;
+  }
+}
+
+export class MissingReferenceError extends AppError {
+  public readonly field: string;
+  public readonly referencedId: string;
+
+  constructor(field: string, referencedId: string, referenced: string) {
+    super(`${referenced} ${referencedId} does not exist`, 422, { field, referencedId });
+    this.field = field;
+    this.referencedId = referencedId;
+  }
+}
+
+export class ReferenceInUseError extends ConflictError {
+  constructor(message: string) {
+    super(message);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { User } from '../models/User';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /**
+       * Authenticated caller, set by the authenticate middleware
+       */
+      user?: User;
+    }
+  }
+}
\ No newline at end of file
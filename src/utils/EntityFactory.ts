@@ -105,6 +105,8 @@ export class VersionedTopicFactory extends EntityFactory {
       existingTopic.version + 1,
       existingTopic.id // Keep the same ID for versioning
     );
+    newTopic.slug = updateData.slug || existingTopic.slug;
+    newTopic.topicCreatedAt = existingTopic.topicCreatedAt;
 
     return newTopic;
   }
@@ -0,0 +1,77 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SCHEME = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Salted password hashing built on Node's scrypt implementation
+ *
+ * Hashes are encoded as `scrypt$<salt>$<derivedKey>` (hex) so the scheme can be
+ * recognised if it is ever upgraded.
+ */
+export class PasswordHasher {
+  static readonly MIN_LENGTH = 8;
+  static readonly MAX_LENGTH = 128;
+
+  /**
+   * Hashes a plain-text password with a random salt
+   */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const derivedKey = await this.deriveKey(password, salt);
+    return [SCHEME, salt.toString('hex'), derivedKey.toString('hex')].join('$');
+  }
+
+  /**
+   * Verifies a plain-text password against a stored hash
+   */
+  static async verify(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, saltHex, keyHex] = storedHash.split('$');
+    if (scheme !== SCHEME || !saltHex || !keyHex) {
+      return false;
+    }
+
+    const expectedKey = Buffer.from(keyHex, 'hex');
+    const derivedKey = await this.deriveKey(password, Buffer.from(saltHex, 'hex'));
+
+    return expectedKey.length === derivedKey.length && timingSafeEqual(expectedKey, derivedKey);
+  }
+
+  /**
+   * Gets password policy violations
+   */
+  static getValidationErrors(password: string): string[] {
+    const errors: string[] = [];
+
+    if (typeof password !== 'string' || password.length === 0) {
+      errors.push('Password is required');
+      return errors;
+    }
+
+    if (password.length < this.MIN_LENGTH) {
+      errors.push(`Password must be at least ${this.MIN_LENGTH} characters`);
+    }
+
+    if (password.length > this.MAX_LENGTH) {
+      errors.push(`Password must be less than ${this.MAX_LENGTH} characters`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Derives a key from a password and salt
+   */
+  private static deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(derivedKey);
+        }
+      });
+    });
+  }
+}
\ No newline at end of file
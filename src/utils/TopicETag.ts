@@ -0,0 +1,37 @@
+const TAG_PATTERN = /^(?:W\/)?"v(\d+)"$/;
+
+/**
+ * Entity tags for topics, derived from the topic version
+ *
+ * Tags are encoded as `"v<version>"`. Weak tags are accepted when matching since a
+ * version number identifies the topic state exactly.
+ */
+export class TopicETag {
+  /**
+   * Formats the entity tag of a topic version
+   */
+  static format(version: number): string {
+    return `"v${version}"`;
+  }
+
+  /**
+   * Parses an If-Match header into the versions it accepts, or `*` for any version
+   *
+   * Tags that were not issued by this API are dropped, so a header holding only such tags
+   * matches no version.
+   */
+  static parseIfMatch(header: string): number[] | '*' {
+    if (header.trim() === '*') {
+      return '*';
+    }
+
+    const versions: number[] = [];
+    for (const tag of header.split(',')) {
+      const match = TAG_PATTERN.exec(tag.trim());
+      if (match) {
+        versions.push(parseInt(match[1], 10));
+      }
+    }
+    return versions;
+  }
+}
\ No newline at end of file
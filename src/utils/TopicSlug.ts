@@ -0,0 +1,40 @@
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_LENGTH = 100;
+
+/**
+ * URL-friendly topic slugs
+ *
+ * Slugs are lowercase ASCII words joined by single hyphens, e.g. `getting-started`.
+ */
+export class TopicSlug {
+  /**
+   * Derives a slug from a topic name, dropping accents and punctuation
+   *
+   * Names without any letters or digits fall back to `topic`.
+   */
+  static fromName(name: string): string {
+    const slug = name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .slice(0, MAX_LENGTH)
+      .replace(/^-+|-+$/g, '');
+    return slug || 'topic';
+  }
+
+  /**
+   * Checks if a string is a well-formed slug
+   */
+  static isValid(slug: string): boolean {
+    return slug.length <= MAX_LENGTH && SLUG_PATTERN.test(slug);
+  }
+
+  /**
+   * Appends a counter to a slug, keeping it within the maximum length
+   */
+  static withSuffix(slug: string, counter: number): string {
+    const suffix = `-${counter}`;
+    return `${slug.slice(0, MAX_LENGTH - suffix.length).replace(/-+$/, '')}${suffix}`;
+  }
+}
\ No newline at end of file
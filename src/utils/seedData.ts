@@ -7,8 +7,22 @@ import { UserService } from '../services/UserService';
 import { TopicService } from '../services/TopicService';
 import { ResourceService } from '../services/ResourceService';
 
+/**
+ * Passwords of the sample users, by role
+ */
+interface SeedPasswords {
+  admin: string;
+  editor: string;
+  viewer: string;
+}
+
 /**
  * Seeds the database with sample data on application startup
+ *
+ * The sample users get their passwords from `SEED_ADMIN_PASSWORD`, `SEED_EDITOR_PASSWORD` and
+ * `SEED_VIEWER_PASSWORD`. Only with `NODE_ENV=development` do unset ones fall back to the
+ * well-known sample passwords; anywhere else seeding is skipped unless all three are set, so
+ * durable storage never ends up with an Admin anyone can log in as.
  */
 export class DataSeeder {
   private userService: UserService;
@@ -29,14 +43,20 @@ export class DataSeeder {
       console.log('🌱 Starting database seeding...');
 
       // Check if data already exists
-      const existingUsers = await this.userService.findAll();
+      const existingUsers = await this.userService.findAll(true);
       if (existingUsers.length > 0) {
         console.log('📊 Database already contains data, skipping seeding.');
         return;
       }
 
+      const passwords = this.getSeedPasswords();
+      if (!passwords) {
+        console.warn('⚠️  Skipping seeding: set SEED_ADMIN_PASSWORD, SEED_EDITOR_PASSWORD and SEED_VIEWER_PASSWORD, or run with NODE_ENV=development.');
+        return;
+      }
+
       // Seed users
-      const users = await this.seedUsers();
+      const users = await this.seedUsers(passwords);
       console.log(`👥 Created ${users.length} users`);
 
       // Seed topics with hierarchy
@@ -54,17 +74,33 @@ export class DataSeeder {
     }
   }
 
+  /**
+   * Gets the passwords of the sample users, or null if any is missing outside development
+   */
+  private getSeedPasswords(): SeedPasswords | null {
+    const development = process.env.NODE_ENV === 'development';
+    const admin = process.env.SEED_ADMIN_PASSWORD || (development ? 'admin-password' : undefined);
+    const editor = process.env.SEED_EDITOR_PASSWORD || (development ? 'editor-password' : undefined);
+    const viewer = process.env.SEED_VIEWER_PASSWORD || (development ? 'viewer-password' : undefined);
+
+    if (!admin || !editor || !viewer) {
+      return null;
+    }
+    return { admin, editor, viewer };
+  }
+
   /**
    * Creates sample users with different roles
    */
-  private async seedUsers(): Promise<User[]> {
+  private async seedUsers(passwords: SeedPasswords): Promise<User[]> {
     const users: User[] = [];
 
     // Admin user
     const admin = await this.userService.create({
       name: 'Admin User',
       email: 'admin@example.com',
-      role: UserRole.ADMIN
+      role: UserRole.ADMIN,
+      password: passwords.admin
     });
     users.push(admin);
 
@@ -72,7 +108,8 @@ export class DataSeeder {
     const editor = await this.userService.create({
       name: 'Editor User',
       email: 'editor@example.com',
-      role: UserRole.EDITOR
+      role: UserRole.EDITOR,
+      password: passwords.editor
     });
     users.push(editor);
 
@@ -80,7 +117,8 @@ export class DataSeeder {
     const viewer = await this.userService.create({
       name: 'Viewer User',
       email: 'viewer@example.com',
-      role: UserRole.VIEWER
+      role: UserRole.VIEWER,
+      password: passwords.viewer
     });
     users.push(viewer);
 
@@ -131,6 +169,12 @@ export class DataSeeder {
     });
     topics.push(databases);
 
+    // Publish the sample topics so that viewers can read them
+    for (const topic of topics) {
+      await this.topicService.submitForReview(topic.id);
+      await this.topicService.approve(topic.id);
+    }
+
     return topics;
   }
 